@@ -0,0 +1,14 @@
+import { BrowserRouter, Route, Routes } from 'react-router-dom';
+import ManageTasks from './pages/ManageTasks';
+import TagTasks from './pages/TagTasks';
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route path="/manage-tasks" element={<ManageTasks />} />
+        <Route path="/tag-tasks" element={<TagTasks />} />
+      </Routes>
+    </BrowserRouter>
+  );
+}
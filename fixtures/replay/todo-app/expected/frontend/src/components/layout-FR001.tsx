@@ -0,0 +1,12 @@
+import { Button, Typography } from '@mui/material';
+import { TaskTable } from '../components/TaskTable';
+
+export default function ManageTasks() {
+  return (
+    <section>
+      <Typography variant="h4">Manage tasks</Typography>
+      <TaskTable source="/api/tasks" columns={['title', 'tags', 'done']} />
+      <Button onClick={() => window.dispatchEvent(new Event('openTaskForm'))}>Add task</Button>
+    </section>
+  );
+}
@@ -0,0 +1,20 @@
+@critical
+Feature: Manage tasks
+  As a team member, I want to manage tasks
+
+  Background:
+    Given the application is running
+    Given I am signed in
+
+  @smoke
+  Scenario: Manage tasks succeeds
+    Given the task list is open
+    When I manage tasks
+    Then the task list shows the change
+
+  @regression
+  Scenario: Manage tasks without a title fails
+    Given the task list is open
+    When I submit an empty title
+    Then I see "Title is required"
+
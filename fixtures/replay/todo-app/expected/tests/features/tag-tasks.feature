@@ -0,0 +1,20 @@
+@high
+Feature: Tag tasks
+  As a team member, I want to tag tasks
+
+  Background:
+    Given the application is running
+    Given I am signed in
+
+  @smoke
+  Scenario: Tag tasks succeeds
+    Given the task list is open
+    When I tag tasks
+    Then the task list shows the change
+
+  @regression
+  Scenario: Tag tasks without a title fails
+    Given the task list is open
+    When I submit an empty title
+    Then I see "Title is required"
+
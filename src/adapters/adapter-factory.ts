@@ -2,18 +2,94 @@ import { AIAdapter } from './ai-adapter.interface.js';
 import { ClaudeAdapter } from './claude-adapter.js';
 import { OpenAIAdapter } from './openai-adapter.js';
 import { GeminiAdapter } from './gemini-adapter.js';
+import { LocalAdapter } from './local-adapter.js';
+import { RecordingAdapter } from './recording-adapter.js';
+import { ReplayAdapter } from './replay-adapter.js';
+import { ResilientAdapter, RetryPolicy, DEFAULT_RETRY_POLICY } from './resilient-adapter.js';
+import { RateLimiter, RateLimitConfig, DEFAULT_RATE_LIMIT } from './rate-limiter.js';
+import { RoutingAdapter, RoutingConfig, ModelTarget } from './routing-adapter.js';
+import { CachingAdapter } from './caching-adapter.js';
+import { ResponseCache } from './response-cache.js';
 
-export type AIProvider = 'claude' | 'openai' | 'gemini';
+export type AIProvider = 'claude' | 'openai' | 'gemini' | 'local' | 'replay';
 
 export interface AdapterConfig {
   provider: AIProvider;
   apiKey: string;
   model?: string;
+  // OpenAI-compatible endpoint for the local provider (e.g. http://localhost:11434/v1)
+  baseUrl?: string;
+  // Prompt-hash fixtures: served by the replay provider, written when record is set
+  fixturesDir?: string;
+  record?: boolean;
+  // Retry/backoff/timeout and per-provider limits (unset fields use the defaults)
+  retry?: Partial<RetryPolicy>;
+  rateLimit?: Partial<RateLimitConfig>;
+  // Response cache (no caching when unset)
+  cache?: { dir: string; ttlMs: number };
 }
 
 export class AdapterFactory {
   static createAdapter(config: AdapterConfig): AIAdapter {
-    const { provider, apiKey, model } = config;
+    let adapter = this.createProviderAdapter(config);
+
+    if (config.provider !== 'replay') {
+      adapter = new ResilientAdapter(
+        adapter,
+        RateLimiter.forProvider(config.provider, withDefaults(DEFAULT_RATE_LIMIT, config.rateLimit)),
+        withDefaults(DEFAULT_RETRY_POLICY, config.retry)
+      );
+    }
+
+    if (config.cache && config.provider !== 'replay') {
+      adapter = new CachingAdapter(adapter, new ResponseCache(config.cache.dir, config.cache.ttlMs));
+    }
+
+    if (config.record && config.provider !== 'replay') {
+      return new RecordingAdapter(adapter, this.requireFixturesDir(config));
+    }
+
+    return adapter;
+  }
+
+  /**
+   * Create an adapter that routes calls per module/task class and falls back
+   * along the configured chain
+   *
+   * `config` is the primary ("standard") target; other targets reuse its retry,
+   * rate limit and fixture settings. Replay ignores routing.
+   */
+  static createRoutingAdapter(config: AdapterConfig, routing: RoutingConfig = {}): AIAdapter {
+    if (config.provider === 'replay') {
+      return this.createAdapter(config);
+    }
+
+    const normalize = (target: ModelTarget): ModelTarget => ({
+      ...target,
+      model: target.model ?? this.getDefaultModel(target.provider),
+    });
+    const modules = Object.fromEntries(
+      Object.entries(routing.modules ?? {}).map(([module, route]) => [module, typeof route === 'string' ? route : normalize(route)])
+    );
+    const tiers = Object.fromEntries(
+      Object.entries(routing.tiers ?? {}).map(([taskClass, target]) => [taskClass, normalize(target)])
+    );
+
+    return new RoutingAdapter(
+      normalize({ provider: config.provider, model: config.model, baseUrl: config.baseUrl, apiKey: config.apiKey }),
+      { tiers, modules, fallback: (routing.fallback ?? []).map(normalize) },
+      target => this.createAdapter({
+        ...config,
+        provider: target.provider,
+        model: target.model,
+        baseUrl: target.baseUrl,
+        apiKey: target.apiKey ?? '',
+      })
+    );
+  }
+
+  private static createProviderAdapter(config: AdapterConfig): AIAdapter {
+    const { provider, apiKey, model, baseUrl } = config;
 
     switch (provider) {
       case 'claude':
@@ -25,15 +101,35 @@ export class AdapterFactory {
       case 'gemini':
         return new GeminiAdapter(apiKey, model);
 
+      case 'local':
+        return new LocalAdapter(baseUrl, model, apiKey);
+
+      case 'replay':
+        return new ReplayAdapter(this.requireFixturesDir(config));
+
       default:
         throw new Error(
-          `Unsupported AI provider: ${provider}. Supported providers: claude, openai, gemini`
+          `Unsupported AI provider: ${provider}. Supported providers: ${this.getSupportedProviders().join(', ')}`
         );
     }
   }
 
   static getSupportedProviders(): AIProvider[] {
-    return ['claude', 'openai', 'gemini'];
+    return ['claude', 'openai', 'gemini', 'local', 'replay'];
+  }
+
+  /**
+   * Whether the provider needs an API key (local servers and replay don't)
+   */
+  static requiresApiKey(provider: AIProvider): boolean {
+    return provider !== 'local' && provider !== 'replay';
+  }
+
+  private static requireFixturesDir(config: AdapterConfig): string {
+    if (!config.fixturesDir) {
+      throw new Error('A fixtures directory is required to record or replay AI responses');
+    }
+    return config.fixturesDir;
   }
 
   static getDefaultModel(provider: AIProvider): string {
@@ -44,6 +140,10 @@ export class AdapterFactory {
         return 'gpt-4-turbo';
       case 'gemini':
         return 'gemini-2.0-flash';
+      case 'local':
+        return 'llama3.1';
+      case 'replay':
+        return 'replay';
       default:
         throw new Error(`Unknown provider: ${provider}`);
     }
@@ -54,7 +154,7 @@ export class AdapterFactory {
       throw new Error('Provider is required');
     }
 
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    if (this.requiresApiKey(config.provider) && (!config.apiKey || config.apiKey.trim() === '')) {
       throw new Error('API key is required');
     }
 
@@ -65,3 +165,16 @@ export class AdapterFactory {
     }
   }
 }
+
+/**
+ * Fill unset (undefined) fields from the defaults
+ */
+function withDefaults<T extends object>(defaults: T, overrides: Partial<T> = {}): T {
+  const merged = { ...defaults };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
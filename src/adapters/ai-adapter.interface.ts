@@ -1,11 +1,130 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
+/**
+ * How demanding a call is, used to route it to a cheaper or stronger model
+ */
+export type TaskClass = 'cheap' | 'standard' | 'deep';
+
+/**
+ * Per-call options
+ */
+export interface GenerateOptions {
+  /** Abort the request after this many milliseconds (overrides AI_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Abort the request (and any pending retries) */
+  signal?: AbortSignal;
+  /** Route the call by task class instead of the calling module's default */
+  taskClass?: TaskClass;
+  /** Calling module (set by MeteredAdapter, used for routing) */
+  module?: string;
+  /** Ask for JSON matching this schema using the provider's native JSON mode, if any */
+  json?: JSONOutputFormat;
+  /** Skip the response cache lookup (the fresh response replaces the cached one) */
+  bypassCache?: boolean;
+}
+
+/**
+ * Requested JSON output (a JSON Schema; native modes are used for object roots)
+ */
+export interface JSONOutputFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Options for generateJSON
+ */
+export interface GenerateJSONOptions<T> extends Omit<GenerateOptions, 'json'> {
+  maxTokens: number;
+  /** Returned when the response still fails validation after the repairs */
+  fallback: T;
+  /** Names the output in warnings and native JSON modes (e.g. 'generateConstitution') */
+  label: string;
+  /** Re-prompts with the validation errors before falling back (default 2) */
+  maxRepairs?: number;
+}
+
+/**
+ * Validated JSON output, or the fallback with the errors that caused it
+ */
+export interface JSONResult<T> {
+  data: T;
+  attempts: number;
+  fallbackUsed: boolean;
+  // Validation errors of every rejected response
+  errors: string[];
+}
+
+/**
+ * Schema a generateJSON response is validated against
+ */
+export type JSONSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+/**
+ * Tokens billed for one call (zero when the provider does not report them)
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Generated text with the usage metadata returned by the provider
+ */
+export interface AIResponse {
+  text: string;
+  usage: TokenUsage;
+  provider: string;
+  model: string;
+  /** Served from the response cache (no provider call, no tokens billed) */
+  cached?: boolean;
+}
+
+/**
+ * Text deltas as they arrive, returning the complete response when done
+ */
+export type AIStream = AsyncGenerator<string, AIResponse, undefined>;
+
 export interface AIAdapter {
   /**
    * Generate text using the AI model
    * @param prompt - The prompt to send to the AI
    * @param maxTokens - Maximum tokens to generate
+   * @param options - Timeout and cancellation for this call
    * @returns Generated text
    */
-  generateText(prompt: string, maxTokens: number): Promise<string>;
+  generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string>;
+
+  /**
+   * Generate text and report the tokens it used
+   * @param prompt - The prompt to send to the AI
+   * @param maxTokens - Maximum tokens to generate
+   * @param options - Timeout and cancellation for this call
+   * @returns Generated text, token usage and the model that produced it
+   */
+  generate(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<AIResponse>;
+
+  /**
+   * Generate text as a stream of deltas
+   * @param prompt - The prompt to send to the AI
+   * @param maxTokens - Maximum tokens to generate
+   * @param options - Timeout and cancellation for this call
+   * @returns Stream yielding text deltas and returning the same result as generate()
+   */
+  generateStream(prompt: string, maxTokens: number, options?: GenerateOptions): AIStream;
+
+  /**
+   * Generate JSON that validates against a schema
+   *
+   * Uses the provider's native JSON mode where available, re-prompts with the
+   * validation errors and returns the fallback (marked fallbackUsed) if the
+   * model never produces valid output.
+   * @param prompt - The prompt to send to the AI
+   * @param schema - Zod schema the parsed response must satisfy
+   * @param options - Token limit, fallback value and repair attempts
+   * @returns Parsed data with the number of attempts and whether the fallback was used
+   */
+  generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>>;
 
   /**
    * Get the model name being used
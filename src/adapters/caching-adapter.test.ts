@@ -0,0 +1,116 @@
+/**
+ * CachingAdapter hits, TTL and bypass_cache (node:test)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CachingAdapter } from './caching-adapter.js';
+import { MeteredAdapter } from './metered-adapter.js';
+import { ResponseCache } from './response-cache.js';
+import { collectStream } from './streaming.js';
+import type { AIAdapter, AIResponse } from './ai-adapter.interface.js';
+import { withCallOptions } from '../core/call-options.js';
+
+/**
+ * Adapter answering "<prompt> #<call number>" (or the given text) and counting its calls
+ */
+function countingAdapter(text?: string): AIAdapter & { calls: number } {
+  const adapter = {
+    calls: 0,
+    generateText: async (prompt: string, maxTokens: number) => (await generate(prompt, maxTokens)).text,
+    generate: async (prompt: string, maxTokens: number) => generate(prompt, maxTokens),
+    async *generateStream(prompt: string, maxTokens: number) {
+      const response = await generate(prompt, maxTokens);
+      yield response.text;
+      return response;
+    },
+    generateJSON: async () => { throw new Error('not used'); },
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+  const generate = async (prompt: string, _maxTokens: number): Promise<AIResponse> => {
+    adapter.calls++;
+    return {
+      text: text ?? `${prompt} #${adapter.calls}`,
+      usage: { inputTokens: 10, outputTokens: 5 },
+      provider: 'test',
+      model: 'test-model',
+    };
+  };
+  return adapter;
+}
+
+describe('CachingAdapter', () => {
+  let cacheDir: string;
+
+  before(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'appcreator-cache-'));
+  });
+
+  after(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('serves repeated calls from the cache without usage', async () => {
+    const inner = countingAdapter();
+    const adapter = new CachingAdapter(inner, new ResponseCache(join(cacheDir, 'hits'), 60_000));
+
+    const first = await adapter.generate('plan', 100);
+    const second = await adapter.generate('plan', 100);
+    const streamed = await collectStream(adapter.generateStream('plan', 100));
+
+    assert.equal(inner.calls, 1);
+    assert.equal(second.text, first.text);
+    assert.equal(second.cached, true);
+    assert.deepEqual(second.usage, { inputTokens: 0, outputTokens: 0 });
+    assert.equal(streamed.text, first.text);
+    // Other maxTokens or JSON format: another entry
+    await adapter.generate('plan', 200);
+    await adapter.generate('plan', 100, { json: { name: 'plan', schema: { type: 'object' } } });
+    assert.equal(inner.calls, 3);
+  });
+
+  it('skips the lookup with bypassCache and stores the new response', async () => {
+    const inner = countingAdapter();
+    const adapter = new CachingAdapter(inner, new ResponseCache(join(cacheDir, 'bypass'), 60_000));
+
+    await adapter.generate('spec', 100);
+    const fresh = await adapter.generate('spec', 100, { bypassCache: true });
+    const next = await adapter.generate('spec', 100);
+
+    assert.equal(inner.calls, 2);
+    assert.equal(fresh.text, 'spec #2');
+    assert.equal(fresh.cached, undefined);
+    assert.equal(next.text, 'spec #2');
+    assert.equal(next.cached, true);
+  });
+
+  it('applies a tool call\'s bypass_cache to the AI calls of its modules', async () => {
+    const inner = countingAdapter();
+    const module = new MeteredAdapter(new CachingAdapter(inner, new ResponseCache(join(cacheDir, 'scope'), 60_000)), 'spec-kit', 'spec_kit');
+
+    await module.generate('tasks', 100);
+    await withCallOptions({ bypassCache: true }, () => module.generate('tasks', 100));
+    await module.generate('tasks', 100);
+
+    assert.equal(inner.calls, 2);
+  });
+
+  it('does not serve expired or empty responses', async () => {
+    const inner = countingAdapter();
+    const expiring = new CachingAdapter(inner, new ResponseCache(join(cacheDir, 'ttl'), 0));
+    await expiring.generate('plan', 100);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await expiring.generate('plan', 100);
+    assert.equal(inner.calls, 2);
+
+    const empty = countingAdapter('');
+    const adapter = new CachingAdapter(empty, new ResponseCache(join(cacheDir, 'empty'), 60_000));
+    await adapter.generate('plan', 100);
+    await adapter.generate('plan', 100);
+    assert.equal(empty.calls, 2);
+  });
+});
@@ -0,0 +1,110 @@
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { ResponseCache } from './response-cache.js';
+
+/**
+ * Serves repeated calls from a filesystem response cache
+ *
+ * Responses are keyed by provider, model, prompt, maxTokens and requested JSON
+ * format, so a re-run with identical inputs (e.g. approve_architecture after a
+ * crash) does not pay for the same completions again. A hit reports no token
+ * usage and is marked `cached`. `bypassCache` skips the lookup and refreshes
+ * the entry.
+ */
+export class CachingAdapter implements AIAdapter {
+  private inner: AIAdapter;
+  private cache: ResponseCache;
+
+  constructor(inner: AIAdapter, cache: ResponseCache) {
+    this.inner = inner;
+    this.cache = cache;
+  }
+
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
+    const key = this.keyFor(prompt, maxTokens, options);
+    const hit = options.bypassCache ? null : await this.lookup(key);
+    if (hit) {
+      return hit;
+    }
+
+    const response = await this.inner.generate(prompt, maxTokens, options);
+    await this.store(key, maxTokens, response);
+    return response;
+  }
+
+  /**
+   * A hit arrives as a single delta
+   */
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    const key = this.keyFor(prompt, maxTokens, options);
+    const hit = options.bypassCache ? null : await this.lookup(key);
+    if (hit) {
+      yield hit.text;
+      return hit;
+    }
+
+    const response = yield* this.inner.generateStream(prompt, maxTokens, options);
+    await this.store(key, maxTokens, response);
+    return response;
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return this.inner.getModelName();
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName();
+  }
+
+  private keyFor(prompt: string, maxTokens: number, options: GenerateOptions): string {
+    return ResponseCache.key({
+      provider: this.inner.getProviderName(),
+      model: this.inner.getModelName(),
+      prompt,
+      maxTokens,
+      json: options.json,
+    });
+  }
+
+  /**
+   * Cached response without usage (nothing was billed for it)
+   */
+  private async lookup(key: string): Promise<AIResponse | null> {
+    try {
+      const entry = await this.cache.get(key);
+      return entry ? { ...entry.response, usage: { inputTokens: 0, outputTokens: 0 }, cached: true } : null;
+    } catch (error) {
+      console.error(`Error reading AI cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  private async store(key: string, maxTokens: number, response: AIResponse): Promise<void> {
+    // Empty completions are not worth replaying
+    if (!response.text) {
+      return;
+    }
+
+    try {
+      await this.cache.set({
+        key,
+        provider: response.provider,
+        model: response.model,
+        maxTokens,
+        cachedAt: new Date().toISOString(),
+        response,
+      });
+    } catch (error) {
+      // Caching must never break a live run
+      console.error(`Error writing AI cache entry ${key}:`, error);
+    }
+  }
+}
@@ -1,29 +1,57 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AIAdapter } from './ai-adapter.interface.js';
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { providerError } from './provider-error.js';
 
 export class ClaudeAdapter implements AIAdapter {
   private client: Anthropic;
   private model: string;
 
   constructor(apiKey: string, model: string = 'claude-sonnet-4-20250514') {
-    this.client = new Anthropic({ apiKey });
+    // Retries are handled by ResilientAdapter
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
     this.model = model;
   }
 
-  async generateText(prompt: string, maxTokens: number): Promise<string> {
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
     try {
-      const result = await this.client.messages.create({
-        model: this.model,
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      const result = await this.client.messages.create(this.request(prompt, maxTokens, options), this.requestOptions(options));
+      return this.toResponse(result);
+    } catch (error: any) {
+      throw providerError(`Claude API error: ${error.message}`, error, { provider: 'claude', model: this.model });
+    }
+  }
 
-      return result.content[0].type === 'text' ? result.content[0].text : '';
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    try {
+      const stream = this.client.messages.stream(this.request(prompt, maxTokens, options), this.requestOptions(options));
+
+      for await (const event of stream) {
+        if (event.type !== 'content_block_delta') {
+          continue;
+        }
+        // A forced JSON tool streams its input as partial JSON
+        if (event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.delta.type === 'input_json_delta') {
+          yield event.delta.partial_json;
+        }
+      }
+
+      return this.toResponse(await stream.finalMessage());
     } catch (error: any) {
-      throw new Error(`Claude API error: ${error.message}`);
+      throw providerError(`Claude API error: ${error.message}`, error, { provider: 'claude', model: this.model });
     }
   }
 
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
   getModelName(): string {
     return this.model;
   }
@@ -31,4 +59,51 @@ export class ClaudeAdapter implements AIAdapter {
   getProviderName(): string {
     return 'claude';
   }
+
+  /**
+   * Message request, with native JSON as a forced tool call whose input schema is the requested schema
+   */
+  private request(prompt: string, maxTokens: number, options: GenerateOptions) {
+    const jsonTool = options.json?.schema.type === 'object' ? options.json : undefined;
+
+    return {
+      model: this.model,
+      max_tokens: maxTokens,
+      messages: [{ role: 'user' as const, content: prompt }],
+      ...(jsonTool ? {
+        tools: [{
+          name: jsonTool.name,
+          description: 'Return the requested result as structured JSON.',
+          input_schema: jsonTool.schema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool' as const, name: jsonTool.name },
+      } : {}),
+    };
+  }
+
+  /**
+   * Timeout and cancellation for the SDK
+   */
+  private requestOptions(options: GenerateOptions) {
+    return {
+      // The SDK rejects an explicit undefined timeout
+      ...(options.timeoutMs !== undefined ? { timeout: options.timeoutMs } : {}),
+      signal: options.signal,
+    };
+  }
+
+  /**
+   * Text (or forced tool input) and usage of a finished message
+   */
+  private toResponse(result: Anthropic.Message): AIResponse {
+    const toolUse = result.content.find(block => block.type === 'tool_use');
+    const textBlock = result.content.find(block => block.type === 'text');
+
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : textBlock?.type === 'text' ? textBlock.text : '',
+      usage: { inputTokens: result.usage.input_tokens, outputTokens: result.usage.output_tokens },
+      provider: 'claude',
+      model: this.model,
+    };
+  }
 }
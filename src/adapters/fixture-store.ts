@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import type { TokenUsage } from './ai-adapter.interface.js';
+
+/**
+ * Recorded responses for one prompt
+ */
+export interface AIFixture {
+  hash: string;
+  maxTokens: number;
+  provider: string;
+  model: string;
+  recordedAt: string;
+  prompt: string;
+  // In call order: the n-th identical call gets responses[n]
+  responses: string[];
+  // Usage reported for each response (missing in fixtures recorded before usage tracking)
+  usage?: TokenUsage[];
+}
+
+/**
+ * Prompt-hash → response fixtures on disk (one JSON file per prompt)
+ */
+export class FixtureStore {
+  private dir: string;
+  private writing: Promise<void>;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Fixture key of a call
+   */
+  static hash(prompt: string, maxTokens: number): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ prompt, maxTokens }))
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Read a fixture (null if it was never recorded)
+   */
+  async read(hash: string): Promise<AIFixture | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.pathFor(hash), 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    return JSON.parse(raw);
+  }
+
+  /**
+   * Write a fixture, serialized so concurrent calls don't interleave
+   */
+  async write(fixture: AIFixture): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.pathFor(fixture.hash), JSON.stringify(fixture, null, 2), 'utf-8');
+    });
+    await this.writing;
+  }
+
+  private pathFor(hash: string): string {
+    return join(this.dir, `${hash}.json`);
+  }
+}
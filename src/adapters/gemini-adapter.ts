@@ -1,5 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIAdapter } from './ai-adapter.interface.js';
+import { GoogleGenerativeAI, EnhancedGenerateContentResponse } from '@google/generative-ai';
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { providerError } from './provider-error.js';
 
 export class GeminiAdapter implements AIAdapter {
   private client: GoogleGenerativeAI;
@@ -12,22 +14,47 @@ export class GeminiAdapter implements AIAdapter {
     this.model = this.client.getGenerativeModel({ model: modelName });
   }
 
-  async generateText(prompt: string, maxTokens: number): Promise<string> {
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
     try {
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-          maxOutputTokens: maxTokens,
-          temperature: 0.7,
-        },
-      });
-
-      return result.response.text();
+      const result = await this.model.generateContent(
+        this.request(prompt, maxTokens, options),
+        { timeout: options.timeoutMs, signal: options.signal }
+      );
+
+      return this.toResponse(result.response);
     } catch (error: any) {
-      throw new Error(`Gemini API error: ${error.message}`);
+      throw providerError(`Gemini API error: ${error.message}`, error, { provider: 'gemini', model: this.modelName });
     }
   }
 
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    try {
+      const result = await this.model.generateContentStream(
+        this.request(prompt, maxTokens, options),
+        { timeout: options.timeoutMs, signal: options.signal }
+      );
+
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          yield delta;
+        }
+      }
+
+      return this.toResponse(await result.response);
+    } catch (error: any) {
+      throw providerError(`Gemini API error: ${error.message}`, error, { provider: 'gemini', model: this.modelName });
+    }
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
   getModelName(): string {
     return this.modelName;
   }
@@ -35,4 +62,35 @@ export class GeminiAdapter implements AIAdapter {
   getProviderName(): string {
     return 'gemini';
   }
+
+  /**
+   * Content request (native JSON via the response MIME type)
+   */
+  private request(prompt: string, maxTokens: number, options: GenerateOptions) {
+    return {
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        maxOutputTokens: maxTokens,
+        temperature: 0.7,
+        ...(options.json ? { responseMimeType: 'application/json' } : {}),
+      },
+    };
+  }
+
+  /**
+   * Text and usage of a finished response
+   */
+  private toResponse(response: EnhancedGenerateContentResponse): AIResponse {
+    const usage = response.usageMetadata;
+
+    return {
+      text: response.text(),
+      usage: {
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: usage?.candidatesTokenCount ?? 0,
+      },
+      provider: 'gemini',
+      model: this.modelName,
+    };
+  }
 }
@@ -4,9 +4,23 @@
  * Centralized export for all AI provider adapters
  */
 
-export type { AIAdapter } from './ai-adapter.interface.js';
+export type { AIAdapter, AIResponse, AIStream, GenerateOptions, TokenUsage } from './ai-adapter.interface.js';
+export { collectStream, tapStream, responseStream } from './streaming.js';
 export { ClaudeAdapter } from './claude-adapter.js';
 export { OpenAIAdapter } from './openai-adapter.js';
 export { GeminiAdapter } from './gemini-adapter.js';
+export { LocalAdapter } from './local-adapter.js';
+export { RecordingAdapter } from './recording-adapter.js';
+export { ReplayAdapter } from './replay-adapter.js';
+export { FixtureStore } from './fixture-store.js';
+export { MeteredAdapter } from './metered-adapter.js';
+export { CachingAdapter } from './caching-adapter.js';
+export { ResponseCache } from './response-cache.js';
+export type { CachedResponse } from './response-cache.js';
+export { ResilientAdapter, DEFAULT_RETRY_POLICY } from './resilient-adapter.js';
+export type { RetryPolicy } from './resilient-adapter.js';
+export { RateLimiter, DEFAULT_RATE_LIMIT } from './rate-limiter.js';
+export type { RateLimitConfig } from './rate-limiter.js';
+export type { AIFixture } from './fixture-store.js';
 export { AdapterFactory } from './adapter-factory.js';
 export type { AIProvider, AdapterConfig } from './adapter-factory.js';
@@ -0,0 +1,142 @@
+/**
+ * LocalAdapter against a stand-in OpenAI-compatible server (node:test)
+ *
+ * The stand-in answers /v1/chat/completions with the queued replies and keeps
+ * the request bodies, so the tests see both sides of each call.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { LocalAdapter } from './local-adapter.js';
+import { AppCreatorError } from '../core/errors.js';
+
+interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+function completion(content: string) {
+  return {
+    id: 'chatcmpl-test',
+    object: 'chat.completion',
+    created: 0,
+    model: 'test-model',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+  };
+}
+
+describe('LocalAdapter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let replies: Reply[];
+  let requests: any[];
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ path: req.url, body: JSON.parse(body) });
+        const reply = replies.shift() ?? { status: 500, body: { error: { message: 'no reply queued' } } };
+        res.writeHead(reply.status ?? 200, { 'content-type': 'application/json', ...reply.headers });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+  });
+
+  it('returns the text and token usage of a completion', async () => {
+    replies.push({ body: completion('Hello from the model') });
+    const adapter = new LocalAdapter(baseUrl, 'test-model');
+
+    const response = await adapter.generate('Say hello', 100);
+
+    assert.equal(response.text, 'Hello from the model');
+    assert.deepEqual(response.usage, { inputTokens: 12, outputTokens: 5 });
+    assert.equal(response.provider, 'local');
+    assert.equal(response.model, 'test-model');
+    assert.equal(requests[0].path, '/v1/chat/completions');
+    assert.equal(requests[0].body.model, 'test-model');
+    assert.equal(requests[0].body.max_tokens, 100);
+    assert.deepEqual(requests[0].body.messages, [{ role: 'user', content: 'Say hello' }]);
+    assert.equal(requests[0].body.response_format, undefined);
+  });
+
+  it('asks for JSON mode and validates the reply against the schema', async () => {
+    replies.push({ body: completion('{"name":"todo-app","features":["tasks","tags"]}') });
+    const adapter = new LocalAdapter(baseUrl, 'test-model');
+    const schema = z.object({ name: z.string(), features: z.array(z.string()) });
+
+    const result = await adapter.generateJSON('Describe the app', schema, {
+      maxTokens: 200,
+      fallback: { name: 'fallback', features: [] },
+      label: 'describeApp',
+    });
+
+    assert.equal(result.fallbackUsed, false);
+    assert.equal(result.attempts, 1);
+    assert.deepEqual(result.data, { name: 'todo-app', features: ['tasks', 'tags'] });
+    assert.deepEqual(requests[0].body.response_format, { type: 'json_object' });
+  });
+
+  it('re-prompts with the validation errors when the JSON does not match', async () => {
+    replies.push({ body: completion('{"name":42}') });
+    replies.push({ body: completion('{"name":"todo-app","features":[]}') });
+    const adapter = new LocalAdapter(baseUrl, 'test-model');
+    const schema = z.object({ name: z.string(), features: z.array(z.string()) });
+
+    const result = await adapter.generateJSON('Describe the app', schema, {
+      maxTokens: 200,
+      fallback: { name: 'fallback', features: [] },
+      label: 'describeApp',
+    });
+
+    assert.equal(result.fallbackUsed, false);
+    assert.equal(result.attempts, 2);
+    assert.ok(result.errors.length > 0);
+    assert.equal(requests.length, 2);
+    assert.match(requests[1].body.messages[0].content, /features/);
+  });
+
+  it('maps HTTP errors to AI_PROVIDER_ERROR with status and Retry-After', async () => {
+    replies.push({ status: 429, headers: { 'retry-after': '3' }, body: { error: { message: 'slow down' } } });
+    const adapter = new LocalAdapter(baseUrl, 'test-model');
+
+    await assert.rejects(adapter.generate('Say hello', 100), (error: unknown) => {
+      assert.ok(error instanceof AppCreatorError);
+      assert.equal(error.code, 'AI_PROVIDER_ERROR');
+      assert.match(error.message, /Local model error/);
+      assert.equal(error.details?.status, 429);
+      assert.equal(error.details?.retryAfterMs, 3000);
+      assert.equal(error.details?.baseUrl, baseUrl);
+      return true;
+    });
+  });
+
+  it('maps an unreachable server to AI_PROVIDER_ERROR with a hint', async () => {
+    const adapter = new LocalAdapter('http://127.0.0.1:9/v1', 'test-model');
+
+    await assert.rejects(adapter.generate('Say hello', 100), (error: unknown) => {
+      assert.ok(error instanceof AppCreatorError);
+      assert.equal(error.code, 'AI_PROVIDER_ERROR');
+      assert.equal(error.details?.status, undefined);
+      assert.match(error.hint, /AI_BASE_URL/);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { OpenAIAdapter } from './openai-adapter.js';
+import { providerError } from './provider-error.js';
+import { AppCreatorError } from '../core/errors.js';
+
+/**
+ * Adapter for local OpenAI-compatible servers (Ollama, llama.cpp server, vLLM)
+ *
+ * Talks to `<baseUrl>/chat/completions`; no API key is needed unless the
+ * server is configured to require one.
+ */
+export class LocalAdapter extends OpenAIAdapter {
+  static readonly DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+  private baseUrl: string;
+
+  constructor(baseUrl: string = LocalAdapter.DEFAULT_BASE_URL, model: string = 'llama3.1', apiKey?: string) {
+    // The SDK insists on a key; local servers ignore it
+    super(apiKey || 'local', model, baseUrl);
+    this.baseUrl = baseUrl;
+  }
+
+  getProviderName(): string {
+    return 'local';
+  }
+
+  /**
+   * Name the server so connection errors point at AI_BASE_URL
+   */
+  protected toProviderError(error: any): AppCreatorError {
+    return providerError(
+      `Local model error (${this.baseUrl}): ${error.message}`,
+      error,
+      { provider: 'local', model: this.model, baseUrl: this.baseUrl },
+      `Check that the local model server is running at ${this.baseUrl} and serves model "${this.model}" (AI_BASE_URL, AI_MODEL).`
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { collectStream } from './streaming.js';
+import { assertWithinBudget, recordUsage } from '../core/usage.js';
+import { forwardDeltas, isForwardingStreams } from '../core/stream-forwarding.js';
+import { recordAICall } from '../core/ai-audit-log.js';
+import { applyCallOptions } from '../core/call-options.js';
+import type { WorkflowPhase } from '../modules/master-orchestrator.js';
+
+// A call in flight, for the audit log
+interface PendingCall {
+  prompt: string;
+  maxTokens: number;
+  streamed: boolean;
+  timestamp: string;
+  startedAt: number;
+}
+
+/**
+ * Attributes a module's AI calls to the module and its workflow phase
+ *
+ * Each call is checked against the project budget before it is sent, and its
+ * token usage is reported to the enclosing usage scope afterwards. Streams
+ * are forwarded to the enclosing stream scope under the module's name, and
+ * every call (including failed ones) goes to the enclosing audit scope. The
+ * enclosing call options (e.g. bypassCache) are added to each call.
+ */
+export class MeteredAdapter implements AIAdapter {
+  private inner: AIAdapter;
+  private module: string;
+  private phase: WorkflowPhase;
+
+  constructor(inner: AIAdapter, module: string, phase: WorkflowPhase) {
+    this.inner = inner;
+    this.module = module;
+    this.phase = phase;
+  }
+
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  /**
+   * Streamed (and forwarded) when the tool call forwards AI output
+   */
+  async generate(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<AIResponse> {
+    if (isForwardingStreams()) {
+      return await collectStream(this.generateStream(prompt, maxTokens, options));
+    }
+
+    assertWithinBudget();
+
+    const call = this.startCall(prompt, maxTokens, false);
+    try {
+      const response = await this.inner.generate(prompt, maxTokens, { ...applyCallOptions(options), module: this.module });
+      this.record(call, response);
+      return response;
+    } catch (error) {
+      this.recordFailure(call, error);
+      throw error;
+    }
+  }
+
+  async *generateStream(prompt: string, maxTokens: number, options?: GenerateOptions): AIStream {
+    assertWithinBudget();
+
+    const call = this.startCall(prompt, maxTokens, true);
+    try {
+      const stream = this.inner.generateStream(prompt, maxTokens, { ...applyCallOptions(options), module: this.module });
+      const response = yield* forwardDeltas(this.module, stream);
+      this.record(call, response);
+      return response;
+    } catch (error) {
+      this.recordFailure(call, error);
+      throw error;
+    }
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return this.inner.getModelName();
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName();
+  }
+
+  private startCall(prompt: string, maxTokens: number, streamed: boolean): PendingCall {
+    return { prompt, maxTokens, streamed, timestamp: new Date().toISOString(), startedAt: Date.now() };
+  }
+
+  /**
+   * Report a finished call to the enclosing usage and audit scopes
+   */
+  private record(call: PendingCall, response: AIResponse): void {
+    recordUsage({
+      module: this.module,
+      phase: this.phase,
+      provider: response.provider,
+      model: response.model,
+      usage: response.usage,
+      cached: response.cached,
+    });
+
+    recordAICall({
+      ...this.describeCall(call),
+      provider: response.provider,
+      model: response.model,
+      response: response.text,
+      usage: response.usage,
+      ...(response.cached ? { cached: true } : {}),
+    });
+  }
+
+  /**
+   * Report a failed call to the enclosing audit scope
+   */
+  private recordFailure(call: PendingCall, error: unknown): void {
+    recordAICall({
+      ...this.describeCall(call),
+      provider: this.inner.getProviderName(),
+      model: this.inner.getModelName(),
+      response: '',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  private describeCall(call: PendingCall) {
+    return {
+      timestamp: call.timestamp,
+      module: this.module,
+      phase: this.phase,
+      maxTokens: call.maxTokens,
+      streamed: call.streamed,
+      latencyMs: Date.now() - call.startedAt,
+      prompt: call.prompt,
+    };
+  }
+}
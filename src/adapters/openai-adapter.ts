@@ -1,30 +1,87 @@
 import OpenAI from 'openai';
-import { AIAdapter } from './ai-adapter.interface.js';
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { providerError } from './provider-error.js';
+import { AppCreatorError } from '../core/errors.js';
 
+/**
+ * Adapter for the OpenAI chat completions API
+ *
+ * Also the base of adapters for other OpenAI-compatible servers, which pass
+ * their own base URL and override the provider name and error mapping.
+ */
 export class OpenAIAdapter implements AIAdapter {
-  private client: OpenAI;
-  private model: string;
+  protected client: OpenAI;
+  protected model: string;
 
-  constructor(apiKey: string, model: string = 'gpt-4-turbo') {
-    this.client = new OpenAI({ apiKey });
+  constructor(apiKey: string, model: string = 'gpt-4-turbo', baseUrl?: string) {
+    // Retries are handled by ResilientAdapter
+    this.client = new OpenAI({ apiKey, baseURL: baseUrl, maxRetries: 0 });
     this.model = model;
   }
 
-  async generateText(prompt: string, maxTokens: number): Promise<string> {
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
     try {
-      const result = await this.client.chat.completions.create({
+      const result = await this.client.chat.completions.create(
+        this.request(prompt, maxTokens, options),
+        this.requestOptions(options)
+      );
+
+      return {
+        text: result.choices[0]?.message?.content || '',
+        usage: {
+          inputTokens: result.usage?.prompt_tokens ?? 0,
+          outputTokens: result.usage?.completion_tokens ?? 0,
+        },
+        provider: this.getProviderName(),
         model: this.model,
-        max_tokens: maxTokens,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-      });
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    try {
+      const stream = await this.client.chat.completions.create(
+        { ...this.request(prompt, maxTokens, options), stream: true, stream_options: { include_usage: true } },
+        this.requestOptions(options)
+      );
+
+      let text = '';
+      let usage: OpenAI.CompletionUsage | undefined;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          yield delta;
+        }
+        // Sent with the last chunk
+        usage = chunk.usage ?? usage;
+      }
 
-      return result.choices[0].message.content || '';
+      return {
+        text,
+        usage: {
+          inputTokens: usage?.prompt_tokens ?? 0,
+          outputTokens: usage?.completion_tokens ?? 0,
+        },
+        provider: this.getProviderName(),
+        model: this.model,
+      };
     } catch (error: any) {
-      throw new Error(`OpenAI API error: ${error.message}`);
+      throw this.toProviderError(error);
     }
   }
 
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
   getModelName(): string {
     return this.model;
   }
@@ -32,4 +89,35 @@ export class OpenAIAdapter implements AIAdapter {
   getProviderName(): string {
     return 'openai';
   }
+
+  /**
+   * Map an SDK error to AI_PROVIDER_ERROR
+   */
+  protected toProviderError(error: any): AppCreatorError {
+    return providerError(`OpenAI API error: ${error.message}`, error, { provider: 'openai', model: this.model });
+  }
+
+  /**
+   * Chat completion request (JSON mode needs an object root)
+   */
+  private request(prompt: string, maxTokens: number, options: GenerateOptions) {
+    return {
+      model: this.model,
+      max_tokens: maxTokens,
+      messages: [{ role: 'user' as const, content: prompt }],
+      temperature: 0.7,
+      ...(options.json?.schema.type === 'object' ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+
+  /**
+   * Timeout and cancellation for the SDK
+   */
+  private requestOptions(options: GenerateOptions) {
+    return {
+      // The SDK rejects an explicit undefined timeout
+      ...(options.timeoutMs !== undefined ? { timeout: options.timeoutMs } : {}),
+      signal: options.signal,
+    };
+  }
 }
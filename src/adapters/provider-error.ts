@@ -0,0 +1,46 @@
+import { AppCreatorError } from '../core/errors.js';
+
+/**
+ * Turn an SDK error into AI_PROVIDER_ERROR
+ *
+ * Keeps the HTTP status and Retry-After delay in `details`, which the retry
+ * policy uses to decide whether and when to try again.
+ */
+export function providerError(
+  message: string,
+  error: any,
+  details: { provider: string; model: string } & Record<string, unknown>,
+  hint?: string
+): AppCreatorError {
+  return new AppCreatorError('AI_PROVIDER_ERROR', message, {
+    hint,
+    details: {
+      ...details,
+      status: typeof error?.status === 'number' ? error.status : undefined,
+      retryAfterMs: parseRetryAfter(error?.headers),
+      timedOut: error?.name === 'APIConnectionTimeoutError' || error?.name === 'TimeoutError' || undefined,
+    },
+    cause: error,
+  });
+}
+
+/**
+ * Read a Retry-After header (seconds or HTTP date) from SDK error headers
+ */
+function parseRetryAfter(headers: unknown): number | undefined {
+  const value = typeof (headers as Headers | undefined)?.get === 'function'
+    ? (headers as Headers).get('retry-after')
+    : (headers as Record<string, string> | undefined)?.['retry-after'];
+
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,141 @@
+import { setTimeout as sleep } from 'timers/promises';
+
+/**
+ * Limits for one provider (0 = unlimited)
+ */
+export interface RateLimitConfig {
+  maxConcurrent: number;
+  tokensPerMinute: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  maxConcurrent: 4,
+  tokensPerMinute: 0,
+};
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Concurrency and tokens-per-minute limiter
+ *
+ * One instance is shared per provider, so parallel fan-outs (Promise.all in
+ * SpecKitModule, PostmanGenerator, ...) queue up instead of tripping 429s.
+ * Token usage is estimated before the call from prompt length and maxTokens.
+ */
+export class RateLimiter {
+  private static registry: Map<string, RateLimiter> = new Map();
+
+  private config: RateLimitConfig;
+  private active: number;
+  private waiters: Array<() => void>;
+  private window: Array<{ at: number; tokens: number }>;
+
+  constructor(config: RateLimitConfig = DEFAULT_RATE_LIMIT) {
+    this.config = config;
+    this.active = 0;
+    this.waiters = [];
+    this.window = [];
+  }
+
+  /**
+   * Shared limiter of a provider (created with the first config seen)
+   */
+  static forProvider(provider: string, config: RateLimitConfig = DEFAULT_RATE_LIMIT): RateLimiter {
+    let limiter = RateLimiter.registry.get(provider);
+    if (!limiter) {
+      limiter = new RateLimiter(config);
+      RateLimiter.registry.set(provider, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Wait for a slot and token budget
+   *
+   * @param tokens - Estimated tokens of the call
+   * @param signal - Stops waiting (and rejects) when aborted
+   * @returns Function releasing the concurrency slot
+   */
+  async acquire(tokens: number, signal?: AbortSignal): Promise<() => void> {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      if (this.config.maxConcurrent > 0 && this.active >= this.config.maxConcurrent) {
+        await this.waitForSlot(signal);
+        if (signal?.aborted) {
+          // Woken just as the call was cancelled: pass the free slot on
+          this.waiters.shift()?.();
+        }
+        continue;
+      }
+
+      const wait = this.budgetWait(tokens, Date.now());
+      if (wait > 0) {
+        console.error(`   ⏳ Token budget reached, waiting ${Math.ceil(wait / 1000)}s`);
+        await sleep(wait, undefined, { signal });
+        continue;
+      }
+
+      this.active++;
+      this.window.push({ at: Date.now(), tokens });
+
+      let released = false;
+      return () => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.waiters.shift()?.();
+        }
+      };
+    }
+  }
+
+  /**
+   * Queue until a slot is released, leaving the queue when the call is cancelled
+   */
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index >= 0) {
+          this.waiters.splice(index, 1);
+        }
+        reject(signal!.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Milliseconds until `tokens` fit into the last minute's budget
+   */
+  private budgetWait(tokens: number, now: number): number {
+    this.window = this.window.filter(entry => now - entry.at < WINDOW_MS);
+
+    if (this.config.tokensPerMinute <= 0 || this.window.length === 0) {
+      // An empty window always admits one call, even above the budget
+      return 0;
+    }
+
+    let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+    if (used + tokens <= this.config.tokensPerMinute) {
+      return 0;
+    }
+
+    // Wait until enough of the oldest calls leave the window
+    for (const entry of this.window) {
+      used -= entry.tokens;
+      if (used + tokens <= this.config.tokensPerMinute || used === 0) {
+        return Math.max(1, entry.at + WINDOW_MS - now);
+      }
+    }
+
+    return 0;
+  }
+}
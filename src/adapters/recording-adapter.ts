@@ -0,0 +1,78 @@
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, TokenUsage, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { FixtureStore } from './fixture-store.js';
+
+/**
+ * Wraps a live adapter and saves every response as a prompt-hash fixture
+ *
+ * The fixtures can be served later by ReplayAdapter (AI_PROVIDER=replay).
+ */
+export class RecordingAdapter implements AIAdapter {
+  private inner: AIAdapter;
+  private store: FixtureStore;
+  // Responses per prompt in this session (replace older recordings)
+  private recorded: Map<string, { responses: string[]; usage: TokenUsage[] }>;
+
+  constructor(inner: AIAdapter, fixturesDir: string) {
+    this.inner = inner;
+    this.store = new FixtureStore(fixturesDir);
+    this.recorded = new Map();
+  }
+
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<AIResponse> {
+    const response = await this.inner.generate(prompt, maxTokens, options);
+    await this.record(prompt, maxTokens, response);
+    return response;
+  }
+
+  async *generateStream(prompt: string, maxTokens: number, options?: GenerateOptions): AIStream {
+    const response = yield* this.inner.generateStream(prompt, maxTokens, options);
+    await this.record(prompt, maxTokens, response);
+    return response;
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return this.inner.getModelName();
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName();
+  }
+
+  /**
+   * Save a response as the next recording of its prompt
+   */
+  private async record(prompt: string, maxTokens: number, response: AIResponse): Promise<void> {
+    const hash = FixtureStore.hash(prompt, maxTokens);
+    const previous = this.recorded.get(hash);
+    const recorded = {
+      responses: [...(previous?.responses ?? []), response.text],
+      usage: [...(previous?.usage ?? []), response.usage],
+    };
+    this.recorded.set(hash, recorded);
+
+    try {
+      await this.store.write({
+        hash,
+        maxTokens,
+        provider: response.provider,
+        model: response.model,
+        recordedAt: new Date().toISOString(),
+        prompt,
+        responses: recorded.responses,
+        usage: recorded.usage,
+      });
+    } catch (error) {
+      // Recording must never break a live run
+      console.error(`Error recording AI fixture ${hash}:`, error);
+    }
+  }
+}
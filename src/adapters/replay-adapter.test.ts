@@ -0,0 +1,176 @@
+/**
+ * Record & replay: RecordingAdapter, FixtureStore and ReplayAdapter (node:test)
+ *
+ * The last suite replays a full analyze_project_requirements →
+ * create_project_from_analysis run from fixtures/replay/todo-app and compares
+ * the generated project with the expected files byte for byte (timestamps
+ * aside). After a prompt change, re-record the fixtures with AI_RECORD=true and
+ * AI_FIXTURES_DIR=fixtures/replay/todo-app/ai, then run this test with
+ * UPDATE_REPLAY_EXPECTED=true to rewrite the expected files.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cp, mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { RecordingAdapter } from './recording-adapter.js';
+import { ReplayAdapter } from './replay-adapter.js';
+import { FixtureStore } from './fixture-store.js';
+import type { AIAdapter, AIResponse } from './ai-adapter.interface.js';
+import { AppCreatorError } from '../core/errors.js';
+
+const REPO_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+const REPLAY_FIXTURES = join(REPO_ROOT, 'fixtures', 'replay', 'todo-app');
+
+/**
+ * Adapter answering each call with the next queued text
+ */
+function scriptedAdapter(texts: string[]): AIAdapter {
+  const generate = async (): Promise<AIResponse> => {
+    const text = texts.shift() ?? '';
+    return { text, usage: { inputTokens: 10, outputTokens: text.length }, provider: 'test', model: 'test-model' };
+  };
+
+  return {
+    generateText: async () => (await generate()).text,
+    generate,
+    async *generateStream() {
+      const response = await generate();
+      yield response.text;
+      return response;
+    },
+    generateJSON: async () => { throw new Error('not used'); },
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+}
+
+function assertFixtureMissing(error: unknown): true {
+  assert.ok(error instanceof AppCreatorError);
+  assert.equal(error.code, 'REPLAY_FIXTURE_MISSING');
+  return true;
+}
+
+/**
+ * Files below a directory, relative to it
+ */
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => relative(dir, join(entry.parentPath, entry.name)))
+    .sort();
+}
+
+const withoutTimestamps = (content: string) =>
+  content.replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, '<timestamp>');
+
+describe('RecordingAdapter and ReplayAdapter', () => {
+  let fixturesDir: string;
+
+  before(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'appcreator-fixtures-'));
+  });
+
+  after(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('replays recorded responses in call order with their usage', async () => {
+    const recorder = new RecordingAdapter(scriptedAdapter(['first', 'second', 'other']), fixturesDir);
+    await recorder.generate('same prompt', 100);
+    await recorder.generate('same prompt', 100);
+    await recorder.generate('other prompt', 100);
+
+    const fixture = await new FixtureStore(fixturesDir).read(FixtureStore.hash('same prompt', 100));
+    assert.deepEqual(fixture?.responses, ['first', 'second']);
+    assert.equal(fixture?.provider, 'test');
+
+    const replay = new ReplayAdapter(fixturesDir);
+    const first = await replay.generate('same prompt', 100);
+    assert.equal(first.text, 'first');
+    assert.deepEqual(first.usage, { inputTokens: 10, outputTokens: 5 });
+    assert.equal(first.provider, 'replay');
+    assert.equal((await replay.generate('same prompt', 100)).text, 'second');
+    // Extra calls reuse the last recording
+    assert.equal((await replay.generate('same prompt', 100)).text, 'second');
+    assert.equal(await replay.generateText('other prompt', 100), 'other');
+  });
+
+  it('fails with REPLAY_FIXTURE_MISSING for a prompt that was never recorded', async () => {
+    const replay = new ReplayAdapter(fixturesDir);
+
+    await assert.rejects(replay.generate('a prompt nobody recorded', 100), assertFixtureMissing);
+    // The key includes maxTokens
+    await assert.rejects(replay.generate('same prompt', 200), assertFixtureMissing);
+  });
+});
+
+describe('create_project_from_analysis replay', () => {
+  let projectsRoot: string;
+  let client: Client;
+
+  before(async () => {
+    projectsRoot = await mkdtemp(join(tmpdir(), 'appcreator-replay-'));
+    client = new Client({ name: 'replay-test', version: '1.0.0' });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', join(REPO_ROOT, 'src', 'index.ts')],
+      cwd: REPO_ROOT,
+      env: {
+        PATH: process.env.PATH ?? '',
+        AI_PROVIDER: 'replay',
+        AI_FIXTURES_DIR: join(REPLAY_FIXTURES, 'ai'),
+        APPCREATOR_PROJECTS_ROOT: projectsRoot,
+        AI_CACHE: 'false',
+        AI_STREAM: 'false',
+      },
+      stderr: 'ignore',
+    }));
+  });
+
+  after(async () => {
+    await client.close();
+    await rm(projectsRoot, { recursive: true, force: true });
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    assert.ok(!result.isError, text);
+    return text;
+  }
+
+  it('regenerates the recorded project byte for byte', async () => {
+    await callTool('analyze_project_requirements', {
+      project_name: 'todo-app',
+      project_type: 'web',
+      description: 'A small team todo list',
+      features: ['tasks', 'tags'],
+    });
+    const created = await callTool('create_project_from_analysis', { project_name: 'todo-app', approved: true });
+    assert.match(created, /PROJECT CREATED SUCCESSFULLY/);
+
+    const projectPath = join(projectsRoot, 'todo-app');
+    const expectedPath = join(REPLAY_FIXTURES, 'expected');
+    if (process.env.UPDATE_REPLAY_EXPECTED === 'true') {
+      await rm(expectedPath, { recursive: true, force: true });
+      await cp(projectPath, expectedPath, { recursive: true, filter: source => !source.includes('.appcreator') });
+    }
+
+    const generated = (await listFiles(projectPath)).filter(file => !file.startsWith('.appcreator'));
+    assert.deepEqual(generated, await listFiles(expectedPath));
+
+    for (const file of generated) {
+      assert.equal(
+        withoutTimestamps(await readFile(join(projectPath, file), 'utf-8')),
+        withoutTimestamps(await readFile(join(expectedPath, file), 'utf-8')),
+        `${file} differs from the recorded run`
+      );
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { AIAdapter, AIResponse, AIStream, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { FixtureStore } from './fixture-store.js';
+import { AppCreatorError } from '../core/errors.js';
+
+/**
+ * Serves responses recorded by RecordingAdapter, without any network calls
+ *
+ * Unknown prompts fail with REPLAY_FIXTURE_MISSING instead of falling back,
+ * so a changed prompt shows up as a test failure.
+ */
+export class ReplayAdapter implements AIAdapter {
+  private store: FixtureStore;
+  private callCounts: Map<string, number>;
+
+  constructor(fixturesDir: string) {
+    this.store = new FixtureStore(fixturesDir);
+    this.callCounts = new Map();
+  }
+
+  async generateText(prompt: string, maxTokens: number): Promise<string> {
+    return (await this.generate(prompt, maxTokens)).text;
+  }
+
+  /**
+   * Serve the next recorded response with its recorded token counts (replays cost nothing)
+   */
+  async generate(prompt: string, maxTokens: number): Promise<AIResponse> {
+    const hash = FixtureStore.hash(prompt, maxTokens);
+    const fixture = await this.store.read(hash);
+
+    if (!fixture || fixture.responses.length === 0) {
+      throw new AppCreatorError(
+        'REPLAY_FIXTURE_MISSING',
+        `No recorded response for prompt ${hash} (maxTokens ${maxTokens}) in ${this.store.getDir()}. Prompt starts with: ${JSON.stringify(prompt.substring(0, 120))}`,
+        { details: { hash, maxTokens, fixturesDir: this.store.getDir() } }
+      );
+    }
+
+    // Identical prompts replay in recorded order; extra calls reuse the last response
+    const index = Math.min(this.callCounts.get(hash) ?? 0, fixture.responses.length - 1);
+    this.callCounts.set(hash, (this.callCounts.get(hash) ?? 0) + 1);
+
+    return {
+      text: fixture.responses[index],
+      usage: fixture.usage?.[index] ?? { inputTokens: 0, outputTokens: 0 },
+      provider: 'replay',
+      model: 'replay',
+    };
+  }
+
+  /**
+   * Serve the recorded response as a single delta
+   */
+  async *generateStream(prompt: string, maxTokens: number): AIStream {
+    const response = await this.generate(prompt, maxTokens);
+    yield response.text;
+    return response;
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return 'replay';
+  }
+
+  getProviderName(): string {
+    return 'replay';
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * ResilientAdapter and RateLimiter cancellation (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResilientAdapter, DEFAULT_RETRY_POLICY } from './resilient-adapter.js';
+import { RateLimiter } from './rate-limiter.js';
+import type { AIAdapter, AIResponse, GenerateOptions } from './ai-adapter.interface.js';
+import { AppCreatorError } from '../core/errors.js';
+
+/**
+ * Adapter failing every call with a retryable 503
+ */
+function failingAdapter(calls: GenerateOptions[]): AIAdapter {
+  const fail = (options: GenerateOptions = {}): never => {
+    calls.push(options);
+    throw new AppCreatorError('AI_PROVIDER_ERROR', 'Service unavailable', {
+      details: { provider: 'test', model: 'test-model', status: 503 },
+    });
+  };
+
+  return {
+    generateText: async () => fail(),
+    generate: async (_prompt, _maxTokens, options): Promise<AIResponse> => fail(options),
+    async *generateStream(_prompt, _maxTokens, options) {
+      return fail(options);
+    },
+    generateJSON: async () => fail(),
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+}
+
+function assertCancelled(error: unknown): true {
+  assert.ok(error instanceof AppCreatorError);
+  assert.equal(error.code, 'GENERATION_CANCELLED');
+  return true;
+}
+
+describe('ResilientAdapter cancellation', () => {
+  it('passes the signal to the provider call', async () => {
+    const calls: GenerateOptions[] = [];
+    const adapter = new ResilientAdapter(failingAdapter(calls), new RateLimiter(), { ...DEFAULT_RETRY_POLICY, maxRetries: 0 });
+    const controller = new AbortController();
+
+    await assert.rejects(adapter.generate('prompt', 10, { signal: controller.signal }));
+
+    assert.equal(calls[0].signal, controller.signal);
+  });
+
+  it('reports an abort during the retry backoff as GENERATION_CANCELLED', async () => {
+    const calls: GenerateOptions[] = [];
+    const adapter = new ResilientAdapter(failingAdapter(calls), new RateLimiter(), {
+      ...DEFAULT_RETRY_POLICY,
+      baseDelayMs: 60_000,
+      maxDelayMs: 60_000,
+    });
+    const controller = new AbortController();
+
+    const call = adapter.generate('prompt', 10, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(call, assertCancelled);
+    assert.equal(calls.length, 1);
+  });
+
+  it('reports an abort while queued at the rate limiter as GENERATION_CANCELLED', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, tokensPerMinute: 0 });
+    const release = await limiter.acquire(1);
+    const calls: GenerateOptions[] = [];
+    const adapter = new ResilientAdapter(failingAdapter(calls), limiter);
+    const controller = new AbortController();
+
+    const call = adapter.generate('prompt', 10, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+
+    await assert.rejects(call, assertCancelled);
+    assert.equal(calls.length, 0);
+
+    // The cancelled waiter left the queue, so the slot goes to the next caller
+    release();
+    const next = await limiter.acquire(1);
+    next();
+  });
+});
@@ -0,0 +1,183 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { RateLimiter } from './rate-limiter.js';
+import { collectStream, responseStream, tapStream } from './streaming.js';
+import { AppCreatorError } from '../core/errors.js';
+
+/**
+ * Retry and timeout settings
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Default per-call timeout (GenerateOptions.timeoutMs overrides it)
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  timeoutMs: 120_000,
+};
+
+// Rate limits, timeouts, conflicts and server-side errors
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+const NETWORK_ERROR_PATTERN = /connection|network|socket|fetch failed|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/i;
+
+/**
+ * Policy layer around a provider adapter
+ *
+ * Every call waits for the provider's RateLimiter, runs with a timeout and is
+ * retried with exponential backoff and jitter when the error is transient
+ * (429, 5xx, timeouts, dropped connections). Retry-After is honoured.
+ * Cancelling the signal stops the queue wait, the backoff and the request,
+ * and is reported as GENERATION_CANCELLED.
+ */
+export class ResilientAdapter implements AIAdapter {
+  private inner: AIAdapter;
+  private limiter: RateLimiter;
+  private policy: RetryPolicy;
+
+  constructor(inner: AIAdapter, limiter: RateLimiter, policy: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.inner = inner;
+    this.limiter = limiter;
+    this.policy = policy;
+  }
+
+  /**
+   * Whether an adapter error is worth retrying
+   */
+  static isRetryable(error: unknown): boolean {
+    if (!(error instanceof AppCreatorError) || error.code !== 'AI_PROVIDER_ERROR') {
+      return false;
+    }
+
+    const status = error.details?.status;
+    if (typeof status === 'number') {
+      return RETRYABLE_STATUSES.has(status);
+    }
+
+    return error.details?.timedOut === true || NETWORK_ERROR_PATTERN.test(error.message);
+  }
+
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
+    return await collectStream(this.withRetries(prompt, maxTokens, options,
+      callOptions => responseStream(this.inner.generate(prompt, maxTokens, callOptions))
+    ));
+  }
+
+  /**
+   * Streams are retried like generate() until their first delta; after that an error ends the stream
+   */
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    return yield* this.withRetries(prompt, maxTokens, options,
+      callOptions => this.inner.generateStream(prompt, maxTokens, callOptions)
+    );
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return this.inner.getModelName();
+  }
+
+  getProviderName(): string {
+    return this.inner.getProviderName();
+  }
+
+  /**
+   * Run a call under the rate limiter, with timeout and retries
+   */
+  private async *withRetries(
+    prompt: string,
+    maxTokens: number,
+    options: GenerateOptions,
+    call: (callOptions: GenerateOptions) => AIStream
+  ): AIStream {
+    // Rough estimate: ~4 characters per token
+    const estimatedTokens = Math.ceil(prompt.length / 4) + maxTokens;
+    const callOptions: GenerateOptions = {
+      ...options,
+      timeoutMs: options.timeoutMs ?? this.policy.timeoutMs,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.limiter.acquire(estimatedTokens, options.signal)
+        .catch(error => { throw this.cancelledOr(error, options.signal); });
+      let streamed = false;
+
+      try {
+        return yield* tapStream(call(callOptions), () => { streamed = true; });
+      } catch (error) {
+        // Free the slot during the backoff
+        release();
+
+        if (options.signal?.aborted) {
+          throw this.cancelledOr(error, options.signal);
+        }
+        if (streamed || attempt >= this.policy.maxRetries || !ResilientAdapter.isRetryable(error)) {
+          throw attempt > 0 ? this.withAttempts(error, attempt + 1) : error;
+        }
+
+        const delay = this.backoff(attempt, error as AppCreatorError);
+        console.error(
+          `   ⏳ ${this.inner.getProviderName()} call failed (${(error as Error).message}), ` +
+          `retry ${attempt + 1}/${this.policy.maxRetries} in ${Math.round(delay / 100) / 10}s`
+        );
+        await sleep(delay, undefined, { signal: options.signal })
+          .catch(error => { throw this.cancelledOr(error, options.signal); });
+      } finally {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, at least the provider's Retry-After
+   */
+  private backoff(attempt: number, error: AppCreatorError): number {
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    const jittered = ceiling / 2 + Math.random() * (ceiling / 2);
+    const retryAfter = error.details?.retryAfterMs;
+
+    return typeof retryAfter === 'number' ? Math.max(retryAfter, jittered) : jittered;
+  }
+
+  /**
+   * GENERATION_CANCELLED if the call was cancelled, else the error itself
+   */
+  private cancelledOr(error: unknown, signal?: AbortSignal): unknown {
+    if (!signal?.aborted) {
+      return error;
+    }
+
+    return new AppCreatorError('GENERATION_CANCELLED', `${this.inner.getProviderName()} call cancelled`, {
+      details: { provider: this.inner.getProviderName(), model: this.inner.getModelName() },
+      cause: error,
+    });
+  }
+
+  /**
+   * Add the attempt count to the final error
+   */
+  private withAttempts(error: unknown, attempts: number): unknown {
+    if (!(error instanceof AppCreatorError)) {
+      return error;
+    }
+
+    return new AppCreatorError(error.code, `${error.message} (gave up after ${attempts} attempts)`, {
+      hint: error.hint,
+      details: { ...error.details, attempts },
+      cause: error,
+    });
+  }
+}
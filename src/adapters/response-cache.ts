@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import type { AIResponse, JSONOutputFormat } from './ai-adapter.interface.js';
+
+/**
+ * What identifies a cacheable call
+ */
+export interface CacheKeyParts {
+  provider: string;
+  model: string;
+  prompt: string;
+  maxTokens: number;
+  json?: JSONOutputFormat;
+}
+
+/**
+ * A cached response on disk
+ */
+export interface CachedResponse {
+  key: string;
+  provider: string;
+  model: string;
+  maxTokens: number;
+  cachedAt: string;
+  response: AIResponse;
+}
+
+/**
+ * Content-addressed AI responses on disk (one JSON file per key)
+ */
+export class ResponseCache {
+  private dir: string;
+  private ttlMs: number;
+  private writing: Promise<void>;
+
+  constructor(dir: string, ttlMs: number) {
+    this.dir = dir;
+    this.ttlMs = ttlMs;
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Cache key of a call
+   */
+  static key(parts: CacheKeyParts): string {
+    return createHash('sha256')
+      .update(JSON.stringify([parts.provider, parts.model, parts.prompt, parts.maxTokens, parts.json ?? null]))
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Cached entry, or null if it is missing or older than the TTL (expired entries are removed)
+   */
+  async get(key: string): Promise<CachedResponse | null> {
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8'));
+    } catch (error) {
+      return null;
+    }
+
+    if (Date.now() - Date.parse(entry.cachedAt) > this.ttlMs) {
+      await fs.rm(this.pathFor(key), { force: true });
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store an entry, serialized so concurrent calls don't interleave
+   */
+  async set(entry: CachedResponse): Promise<void> {
+    this.writing = this.writing.catch(() => undefined).then(async () => {
+      await fs.mkdir(this.dir, { recursive: true });
+      // Write then rename, so a crash never leaves a truncated entry behind
+      const tempPath = `${this.pathFor(entry.key)}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry, null, 2), 'utf-8');
+      await fs.rename(tempPath, this.pathFor(entry.key));
+    });
+    await this.writing;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+}
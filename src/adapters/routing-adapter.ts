@@ -0,0 +1,187 @@
+import { AIAdapter, AIResponse, AIStream, GenerateOptions, TaskClass, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { generateJSON } from './structured-output.js';
+import { collectStream, responseStream, tapStream } from './streaming.js';
+import type { AIProvider } from './adapter-factory.js';
+import { AppCreatorError, reportWarning } from '../core/errors.js';
+
+/**
+ * A provider/model a call can be routed to
+ */
+export interface ModelTarget {
+  provider: AIProvider;
+  // Defaults to the provider's default model
+  model?: string;
+  baseUrl?: string;
+  // Defaults to the provider's API key from the environment
+  apiKey?: string;
+}
+
+/**
+ * Routing section of the AppCreator config file ("ai")
+ *
+ * Example:
+ *   {
+ *     "tiers": { "cheap": { "provider": "claude", "model": "claude-3-5-haiku-20241022" } },
+ *     "modules": { "spec-kit": "deep", "bdd-generator": { "provider": "openai", "model": "gpt-4o" } },
+ *     "fallback": [{ "provider": "openai", "model": "gpt-4o" }, { "provider": "local" }]
+ *   }
+ */
+export interface RoutingConfig {
+  // Model per task class ("standard" defaults to AI_PROVIDER/AI_MODEL)
+  tiers?: Partial<Record<TaskClass, ModelTarget>>;
+  // Task class or model per module (module names as in the usage ledger)
+  modules?: Record<string, TaskClass | ModelTarget>;
+  // Tried in order when the routed model fails with AI_PROVIDER_ERROR
+  fallback?: ModelTarget[];
+}
+
+/**
+ * Builds the (retrying, rate-limited) adapter for a target
+ */
+export type TargetAdapterFactory = (target: ModelTarget) => AIAdapter;
+
+/**
+ * Picks a model per call and falls back along a provider chain
+ *
+ * A call's route is, in order: its own task class, the calling module's
+ * entry in `modules`, the "standard" tier. When the routed model fails with
+ * AI_PROVIDER_ERROR (after its retries), the `fallback` targets are tried in
+ * order and a warning names the model that stood in.
+ */
+export class RoutingAdapter implements AIAdapter {
+  private primary: ModelTarget;
+  private config: RoutingConfig;
+  private createTarget: TargetAdapterFactory;
+  private adapters: Map<string, AIAdapter>;
+
+  constructor(primary: ModelTarget, config: RoutingConfig, createTarget: TargetAdapterFactory) {
+    this.primary = primary;
+    this.config = config;
+    this.createTarget = createTarget;
+    this.adapters = new Map();
+  }
+
+  async generateText(prompt: string, maxTokens: number, options?: GenerateOptions): Promise<string> {
+    return (await this.generate(prompt, maxTokens, options)).text;
+  }
+
+  async generate(prompt: string, maxTokens: number, options: GenerateOptions = {}): Promise<AIResponse> {
+    return await collectStream(this.withFallback(options,
+      adapter => responseStream(adapter.generate(prompt, maxTokens, options))
+    ));
+  }
+
+  /**
+   * Streams fall back like generate() until their first delta; after that an error ends the stream
+   */
+  async *generateStream(prompt: string, maxTokens: number, options: GenerateOptions = {}): AIStream {
+    return yield* this.withFallback(options, adapter => adapter.generateStream(prompt, maxTokens, options));
+  }
+
+  async generateJSON<T>(prompt: string, schema: JSONSchema<T>, options: GenerateJSONOptions<T>): Promise<JSONResult<T>> {
+    return generateJSON(this, prompt, schema, options);
+  }
+
+  getModelName(): string {
+    return this.adapterFor(this.primary).getModelName();
+  }
+
+  getProviderName(): string {
+    return this.primary.provider;
+  }
+
+  /**
+   * Routed target followed by the fallback chain (without duplicates)
+   */
+  resolveChain(options: Pick<GenerateOptions, 'taskClass' | 'module'> = {}): ModelTarget[] {
+    const moduleRoute = options.module ? this.config.modules?.[options.module] : undefined;
+
+    let routed: ModelTarget;
+    if (options.taskClass) {
+      routed = this.tier(options.taskClass);
+    } else if (typeof moduleRoute === 'string') {
+      routed = this.tier(moduleRoute);
+    } else {
+      routed = moduleRoute ?? this.tier('standard');
+    }
+
+    const chain = [routed, ...(this.config.fallback ?? [])];
+    return chain.filter((target, index) =>
+      chain.findIndex(other => RoutingAdapter.describe(other) === RoutingAdapter.describe(target)) === index
+    );
+  }
+
+  /**
+   * "provider/model" label of a target
+   */
+  static describe(target: ModelTarget): string {
+    return target.model ? `${target.provider}/${target.model}` : target.provider;
+  }
+
+  /**
+   * Run a call on the routed model, then on each fallback target
+   */
+  private async *withFallback(options: GenerateOptions, call: (adapter: AIAdapter) => AIStream): AIStream {
+    const chain = this.resolveChain(options);
+    const failures: string[] = [];
+
+    for (const [index, target] of chain.entries()) {
+      let streamed = false;
+
+      try {
+        const response = yield* tapStream(call(this.adapterFor(target)), () => { streamed = true; });
+        if (index > 0) {
+          reportWarning(
+            'AI_PROVIDER_FALLBACK',
+            `${failures.join('; ')}; used ${RoutingAdapter.describe(target)} instead`,
+            options.module
+          );
+        }
+        return response;
+      } catch (error) {
+        const isLast = index === chain.length - 1;
+        if (streamed || isLast || options.signal?.aborted || !(error instanceof AppCreatorError) || error.code !== 'AI_PROVIDER_ERROR') {
+          throw failures.length > 0 ? this.withFailures(error, failures) : error;
+        }
+
+        failures.push(`${RoutingAdapter.describe(target)} failed (${error.message})`);
+        console.error(`   ↪ ${RoutingAdapter.describe(target)} failed, falling back to ${RoutingAdapter.describe(chain[index + 1])}`);
+      }
+    }
+
+    // resolveChain always returns at least one target
+    throw new AppCreatorError('INTERNAL_ERROR', 'No AI model configured for this call');
+  }
+
+  private tier(taskClass: TaskClass): ModelTarget {
+    return this.config.tiers?.[taskClass] ?? (taskClass === 'standard' ? this.primary : this.tier('standard'));
+  }
+
+  /**
+   * Adapter for a target, created on first use
+   */
+  private adapterFor(target: ModelTarget): AIAdapter {
+    const key = `${RoutingAdapter.describe(target)}@${target.baseUrl ?? ''}`;
+    let adapter = this.adapters.get(key);
+    if (!adapter) {
+      adapter = this.createTarget(target);
+      this.adapters.set(key, adapter);
+    }
+    return adapter;
+  }
+
+  /**
+   * Name every model that was tried in the final error
+   */
+  private withFailures(error: unknown, failures: string[]): unknown {
+    if (!(error instanceof AppCreatorError)) {
+      return error;
+    }
+
+    return new AppCreatorError(error.code, `${error.message} (after fallback: ${failures.join('; ')})`, {
+      hint: error.hint,
+      details: { ...error.details, fallbackFailures: failures },
+      cause: error,
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { AIResponse, AIStream } from './ai-adapter.interface.js';
+
+/**
+ * Pass each delta of a stream to a callback, returning the stream's response
+ *
+ * Stopping the returned stream early also stops the source stream.
+ */
+export async function* tapStream(stream: AIStream, onDelta: (delta: string) => void): AIStream {
+  let finished = false;
+
+  try {
+    for (let next = await stream.next(); ; next = await stream.next()) {
+      if (next.done) {
+        finished = true;
+        return next.value;
+      }
+      onDelta(next.value);
+      yield next.value;
+    }
+  } finally {
+    if (!finished) {
+      // Nothing reads the value passed to return(); it only closes the provider request
+      await stream.return(undefined as unknown as AIResponse);
+    }
+  }
+}
+
+/**
+ * Read a stream to the end, optionally watching its deltas
+ */
+export async function collectStream(stream: AIStream, onDelta?: (delta: string) => void): Promise<AIResponse> {
+  const source = onDelta ? tapStream(stream, onDelta) : stream;
+
+  for (let next = await source.next(); ; next = await source.next()) {
+    if (next.done) {
+      return next.value;
+    }
+  }
+}
+
+/**
+ * A stream without deltas that returns a pending response
+ */
+export async function* responseStream(response: Promise<AIResponse>): AIStream {
+  return await response;
+}
@@ -0,0 +1,118 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AIAdapter, GenerateJSONOptions, JSONResult, JSONSchema } from './ai-adapter.interface.js';
+import { extractJSON, safeParseJSON } from '../utils/json-parser.js';
+import { reportWarning } from '../core/errors.js';
+
+export const DEFAULT_JSON_REPAIRS = 2;
+
+// Sentinel for "no strategy could parse the response"
+const NOT_PARSED = Symbol('not parsed');
+
+/**
+ * Shared generateJSON implementation for all adapters
+ *
+ * Each attempt asks for native JSON output, parses the response and validates
+ * it against the schema. A rejected response is sent back with its validation
+ * errors; after `maxRepairs` repairs the fallback is returned and reported as
+ * a PARSE_FALLBACK_USED warning. A rejected cached response is first fetched
+ * again, bypassing the cache.
+ */
+export async function generateJSON<T>(
+  adapter: AIAdapter,
+  prompt: string,
+  schema: JSONSchema<T>,
+  options: GenerateJSONOptions<T>
+): Promise<JSONResult<T>> {
+  const { maxTokens, fallback, label, maxRepairs = DEFAULT_JSON_REPAIRS, ...generateOptions } = options;
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  const json = { name: label.replace(/[^A-Za-z0-9_-]/g, '_').substring(0, 64), schema: jsonSchema };
+  const errors: string[] = [];
+
+  let currentPrompt = prompt;
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    let response = await adapter.generate(currentPrompt, maxTokens, { ...generateOptions, json });
+    let { parsed, problems } = checkResponse(schema, response.text);
+
+    // A rejected cache entry (e.g. the schema changed since) is refreshed rather than repaired
+    if (problems.length > 0 && response.cached) {
+      response = await adapter.generate(currentPrompt, maxTokens, { ...generateOptions, json, bypassCache: true });
+      ({ parsed, problems } = checkResponse(schema, response.text));
+    }
+
+    if (problems.length === 0) {
+      return { data: schema.parse(parsed), attempts: attempt, fallbackUsed: false, errors };
+    }
+
+    errors.push(...problems.map(problem => `attempt ${attempt}: ${problem}`));
+
+    if (attempt <= maxRepairs) {
+      console.error(`   🔧 [${label}] invalid JSON (${problems.length} problem(s)), asking for a repair (${attempt}/${maxRepairs})`);
+      currentPrompt = repairPrompt(prompt, response.text, problems, jsonSchema);
+    }
+  }
+
+  console.error(`[${label}] No valid JSON after ${maxRepairs + 1} attempts, using default`);
+  reportWarning(
+    'PARSE_FALLBACK_USED',
+    `AI response did not match the expected JSON after ${maxRepairs + 1} attempt(s), default content used`,
+    label
+  );
+
+  return { data: fallback, attempts: maxRepairs + 1, fallbackUsed: true, errors };
+}
+
+/**
+ * Parsed response and its problems (none when it matches the schema)
+ */
+function checkResponse<T>(schema: JSONSchema<T>, text: string): { parsed: unknown; problems: string[] } {
+  const parsed = parseResponse(text);
+  return {
+    parsed,
+    problems: parsed === NOT_PARSED ? ['response is not valid JSON'] : validationProblems(schema, parsed),
+  };
+}
+
+/**
+ * Parse the whole response, then the JSON embedded in it
+ */
+function parseResponse(text: string): unknown {
+  const direct = safeParseJSON<unknown>(text.trim(), NOT_PARSED);
+  if (direct !== NOT_PARSED) {
+    return direct;
+  }
+
+  const extracted = extractJSON(text);
+  return extracted ? safeParseJSON<unknown>(extracted, NOT_PARSED) : NOT_PARSED;
+}
+
+/**
+ * Schema violations as "path: message" lines
+ */
+function validationProblems<T>(schema: JSONSchema<T>, value: unknown): string[] {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return [];
+  }
+
+  return result.error.issues.slice(0, 20).map(issue =>
+    `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+  );
+}
+
+/**
+ * Original prompt plus the rejected response and what was wrong with it
+ */
+function repairPrompt(prompt: string, response: string, problems: string[], jsonSchema: Record<string, unknown>): string {
+  return `${prompt}
+
+Your previous response was rejected:
+${response.substring(0, 4000)}
+
+Problems:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+The response must be JSON matching this JSON Schema:
+${JSON.stringify(jsonSchema)}
+
+Return ONLY the corrected JSON. No markdown, no explanation.`;
+}
@@ -0,0 +1,318 @@
+/**
+ * AI Audit Log - What was sent to the model and what came back
+ *
+ * Every AI call made by a module during a tool call is recorded with:
+ * - the tool, module and workflow phase that made it
+ * - the prompt and the raw response (or the error)
+ * - the provider/model that answered, token usage and latency
+ * - the strategy safeParseJSON needed to read the response, if it was parsed
+ *
+ * Prompts and responses are redacted (API keys, tokens, credentials, e-mail
+ * addresses, phone and card numbers, plus configured patterns) before they
+ * are written.
+ *
+ * Layout:
+ * - <projectPath>/.appcreator/ai-log/ai-log.jsonl     (current, one entry per line)
+ * - <projectPath>/.appcreator/ai-log/ai-log.<n>.jsonl (rotated, 1 = newest)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import type { TokenUsage } from '../adapters/ai-adapter.interface.js';
+import type { WorkflowPhase } from '../modules/master-orchestrator.js';
+
+/**
+ * How safeParseJSON read a response ('failed' = default value used)
+ */
+export type ParseStrategy = 'direct' | 'fixed' | 'markdown' | 'aggressive' | 'failed';
+
+/**
+ * One logged AI call
+ */
+export interface AILogEntry {
+  id: string;
+  timestamp: string;
+  tool?: string;
+  module: string;
+  phase: WorkflowPhase;
+  provider: string;
+  model: string;
+  maxTokens: number;
+  streamed: boolean;
+  latencyMs: number;
+  prompt: string;
+  // Empty when the call failed
+  response: string;
+  usage?: TokenUsage;
+  // Served from the response cache
+  cached?: boolean;
+  parseStrategy?: ParseStrategy;
+  error?: string;
+}
+
+/**
+ * Built-in redaction rules
+ */
+export type RedactionRule =
+  | 'api_keys'
+  | 'bearer_tokens'
+  | 'private_keys'
+  | 'credentials'
+  | 'emails'
+  | 'phone_numbers'
+  | 'credit_cards'
+  | 'ip_addresses';
+
+/**
+ * "aiLog" section of the AppCreator config file
+ *
+ * Example:
+ *   { "redact": ["api_keys", "credentials", "emails"], "patterns": ["ACME-\\d{6}"], "maxFileBytes": 1048576 }
+ */
+export interface AILogConfig {
+  // Default true (AI_LOG=false also disables it)
+  enabled?: boolean;
+  // Built-in rules to apply (default: all)
+  redact?: RedactionRule[];
+  // Extra regular expressions to redact
+  patterns?: string[];
+  // Rotate the current file once it would grow past this size (default 5 MB)
+  maxFileBytes?: number;
+  // Rotated files kept (default 5)
+  maxFiles?: number;
+}
+
+/**
+ * Filter for reading the log
+ */
+export interface AILogQuery {
+  phase?: WorkflowPhase;
+  module?: string;
+  // Newest entries first, at most this many (default 20)
+  limit?: number;
+}
+
+// Applied in this order; replacement may reference groups of the pattern (e.g. keep "password=")
+const REDACTION_RULES: Record<RedactionRule, { pattern: RegExp; replacement: string }> = {
+  api_keys: {
+    pattern: /\b(?:sk-ant-[A-Za-z0-9_-]{10,}|sk-(?:proj-)?[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16})\b/g,
+    replacement: '[REDACTED:api_key]',
+  },
+  bearer_tokens: {
+    pattern: /\bBearer\s+[A-Za-z0-9._~+/=-]{16,}|\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]+/g,
+    replacement: '[REDACTED:token]',
+  },
+  private_keys: {
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    replacement: '[REDACTED:private_key]',
+  },
+  credentials: {
+    pattern: /((?:password|passwd|pwd|secret|client_secret|api[_-]?key|access[_-]?token)["']?\s*[:=]\s*["']?)[^\s"',;]+/gi,
+    replacement: '$1[REDACTED:credential]',
+  },
+  emails: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[REDACTED:email]',
+  },
+  // Before phone_numbers, which would match the first digit groups of a card number
+  credit_cards: {
+    pattern: /\b(?:\d{4}[ -]?){3}\d{1,4}\b/g,
+    replacement: '[REDACTED:card]',
+  },
+  phone_numbers: {
+    pattern: /(?<![\w.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?![\w.])/g,
+    replacement: '[REDACTED:phone]',
+  },
+  ip_addresses: {
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    replacement: '[REDACTED:ip]',
+  },
+};
+
+export const DEFAULT_AI_LOG_MAX_FILE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_AI_LOG_MAX_FILES = 5;
+
+/**
+ * Redactor Class
+ *
+ * Applies the configured built-in rules and custom patterns to a text.
+ */
+export class Redactor {
+  private rules: Array<{ pattern: RegExp; replacement: string }>;
+
+  constructor(rules: RedactionRule[] = Object.keys(REDACTION_RULES) as RedactionRule[], patterns: string[] = []) {
+    const unknown = rules.filter(rule => !(rule in REDACTION_RULES));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown redaction rule(s): ${unknown.join(', ')} (known: ${Object.keys(REDACTION_RULES).join(', ')})`);
+    }
+
+    this.rules = [
+      ...(Object.keys(REDACTION_RULES) as RedactionRule[]).filter(rule => rules.includes(rule)).map(rule => REDACTION_RULES[rule]),
+      ...patterns.map(pattern => {
+        try {
+          return { pattern: new RegExp(pattern, 'g'), replacement: '[REDACTED]' };
+        } catch (error) {
+          throw new Error(`Invalid redaction pattern ${JSON.stringify(pattern)}: ${error instanceof Error ? error.message : error}`);
+        }
+      }),
+    ];
+  }
+
+  redact(text: string): string {
+    return this.rules.reduce((redacted, rule) => redacted.replace(rule.pattern, rule.replacement), text);
+  }
+}
+
+/**
+ * AI Audit Log Class
+ *
+ * Appends entries to a project's log, rotating by size, and reads them back.
+ */
+export class AIAuditLog {
+  private redactor: Redactor;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private writing: Promise<void>;
+
+  constructor(config: AILogConfig = {}) {
+    this.redactor = new Redactor(config.redact, config.patterns);
+    this.maxFileBytes = config.maxFileBytes ?? DEFAULT_AI_LOG_MAX_FILE_BYTES;
+    this.maxFiles = config.maxFiles ?? DEFAULT_AI_LOG_MAX_FILES;
+    this.writing = Promise.resolve();
+  }
+
+  /**
+   * Log directory of a project
+   */
+  static getLogDir(projectPath: string): string {
+    return join(projectPath, '.appcreator', 'ai-log');
+  }
+
+  /**
+   * Redact and append entries (writes are serialized so rotation never interleaves)
+   */
+  async append(projectPath: string, entries: AILogEntry[]): Promise<void> {
+    const lines = entries.map(entry => JSON.stringify({
+      ...entry,
+      prompt: this.redactor.redact(entry.prompt),
+      response: this.redactor.redact(entry.response),
+      ...(entry.error ? { error: this.redactor.redact(entry.error) } : {}),
+    }) + '\n');
+
+    this.writing = this.writing.catch(() => undefined).then(() => this.write(projectPath, lines));
+    await this.writing;
+  }
+
+  /**
+   * Matching entries, newest first
+   */
+  async read(projectPath: string, query: AILogQuery = {}): Promise<{ entries: AILogEntry[]; total: number }> {
+    const dir = AIAuditLog.getLogDir(projectPath);
+    const matching: AILogEntry[] = [];
+
+    // Oldest rotated file first, current file last
+    for (let index = this.maxFiles; index >= 0; index--) {
+      let raw: string;
+      try {
+        raw = await fs.readFile(this.fileFor(dir, index), 'utf-8');
+      } catch (error) {
+        continue;
+      }
+
+      for (const line of raw.split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const entry: AILogEntry = JSON.parse(line);
+          if ((!query.phase || entry.phase === query.phase) && (!query.module || entry.module === query.module)) {
+            matching.push(entry);
+          }
+        } catch (error) {
+          // Skip a line cut off by a crash
+        }
+      }
+    }
+
+    return { entries: matching.reverse().slice(0, query.limit ?? 20), total: matching.length };
+  }
+
+  private async write(projectPath: string, lines: string[]): Promise<void> {
+    const dir = AIAuditLog.getLogDir(projectPath);
+    await fs.mkdir(dir, { recursive: true });
+
+    let size = await fs.stat(this.fileFor(dir, 0)).then(stat => stat.size, () => 0);
+    for (const line of lines) {
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > this.maxFileBytes) {
+        await this.rotate(dir);
+        size = 0;
+      }
+      await fs.appendFile(this.fileFor(dir, 0), line, 'utf-8');
+      size += bytes;
+    }
+  }
+
+  /**
+   * Shift ai-log.jsonl → ai-log.1.jsonl → ... and drop the oldest file
+   */
+  private async rotate(dir: string): Promise<void> {
+    await fs.rm(this.fileFor(dir, this.maxFiles), { force: true });
+    for (let index = this.maxFiles - 1; index >= 0; index--) {
+      await fs.rename(this.fileFor(dir, index), this.fileFor(dir, index + 1)).catch(() => undefined);
+    }
+  }
+
+  private fileFor(dir: string, index: number): string {
+    return join(dir, index === 0 ? 'ai-log.jsonl' : `ai-log.${index}.jsonl`);
+  }
+}
+
+/**
+ * Where the calls of one tool call are collected
+ */
+export interface AuditScope {
+  tool: string;
+  entries: AILogEntry[];
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+/**
+ * Run a function and collect the AI calls made during it in `scope.entries`
+ */
+export async function auditAICalls<T>(scope: AuditScope, fn: () => Promise<T>): Promise<T> {
+  return await auditScope.run(scope, fn);
+}
+
+/**
+ * Add a finished (or failed) AI call to the enclosing auditAICalls() scope (no-op outside one)
+ */
+export function recordAICall(call: Omit<AILogEntry, 'id' | 'tool'>): void {
+  const scope = auditScope.getStore();
+  if (!scope) {
+    return;
+  }
+
+  scope.entries.push({ id: randomBytes(6).toString('hex'), tool: scope.tool, ...call });
+}
+
+/**
+ * Note how a response was parsed on the latest call whose response contains `json`
+ */
+export function reportParseStrategy(json: string, strategy: ParseStrategy): void {
+  const scope = auditScope.getStore();
+  const text = json.trim();
+  if (!scope || !text) {
+    return;
+  }
+
+  for (let index = scope.entries.length - 1; index >= 0; index--) {
+    if (scope.entries[index].response.includes(text)) {
+      scope.entries[index].parseStrategy = strategy;
+      return;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Call Options - GenerateOptions that apply to a whole tool call
+ *
+ * Some options are chosen per tool call rather than per AI call: the
+ * bypass_cache argument and the request's cancellation signal. While a tool call runs inside withCallOptions(),
+ * MeteredAdapter adds them to every module's AI calls, so the modules don't
+ * have to pass them along. Options given on the call itself take precedence.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { GenerateOptions } from '../adapters/ai-adapter.interface.js';
+
+/**
+ * Options shared by every AI call of a tool call
+ */
+export type CallOptions = Pick<GenerateOptions, 'bypassCache' | 'signal'>;
+
+const callOptions = new AsyncLocalStorage<CallOptions>();
+
+/**
+ * Run a function with options for all of its AI calls (nested scopes add to the outer one)
+ */
+export async function withCallOptions<T>(options: CallOptions, fn: () => Promise<T>): Promise<T> {
+  return await callOptions.run({ ...callOptions.getStore(), ...options }, fn);
+}
+
+/**
+ * Options of one AI call completed with those of the enclosing withCallOptions() scope
+ */
+export function applyCallOptions(options: GenerateOptions = {}): GenerateOptions {
+  const scope = callOptions.getStore();
+  if (!scope) {
+    return options;
+  }
+
+  return {
+    ...options,
+    bypassCache: options.bypassCache ?? scope.bypassCache,
+    signal: options.signal ?? scope.signal,
+  };
+}
@@ -237,7 +237,7 @@ export class ContextManager {
         averageQualityScore: reviewResult.codeQualityScore,
         issuesFound: reviewResult.issuesFound,
         issuesResolved: reviewResult.issuesResolved,
-        nextCheckpointNumber: completedCount + this.STANDARD_CHECKPOINT_INTERVAL,
+        nextCheckpointTask: completedCount + this.STANDARD_CHECKPOINT_INTERVAL,
         tasksUntilNext: this.STANDARD_CHECKPOINT_INTERVAL,
       };
 
@@ -0,0 +1,85 @@
+/**
+ * DecisionMatrix weights and sensitivity analysis (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DecisionMatrix, ScoreBreakdown, ScoredStack } from './decision-matrix.js';
+
+function stack(name: string, breakdown: Partial<ScoreBreakdown>, base: number): ScoredStack {
+  return {
+    name,
+    pros: [],
+    cons: [],
+    architecture: '',
+    timeline: '',
+    budget: '',
+    score: 0,
+    breakdown: {
+      scalability: base,
+      maintainability: base,
+      learning_curve: base,
+      ecosystem: base,
+      cost: base,
+      team_fit: base,
+      timeline_fit: base,
+      ...breakdown,
+    },
+  };
+}
+
+// Default weights: A scores 0.2 * 100 + 0.8 * 52 = 61.6, B scores 60
+const SCALABLE = stack('Scalable', { scalability: 100 }, 52);
+const BALANCED = stack('Balanced', {}, 60);
+
+describe('DecisionMatrix weights', () => {
+  it('normalizes custom weights and rejects all-zero weights', () => {
+    const weights = new DecisionMatrix({ scalability: 0.6 }).getWeights();
+
+    assert.ok(Math.abs(Object.values(weights).reduce((sum, weight) => sum + weight, 0) - 1) < 1e-9);
+    assert.ok(Math.abs(weights.scalability - 0.6 / 1.4) < 1e-9);
+    assert.throws(() => new DecisionMatrix({
+      scalability: 0, maintainability: 0, learning_curve: 0, ecosystem: 0, cost: 0, team_fit: 0, timeline_fit: 0,
+    }), /must not all be 0/);
+  });
+});
+
+describe('DecisionMatrix.analyzeSensitivity', () => {
+  const matrix = new DecisionMatrix();
+
+  it('finds the weight range within which the top stack stays on top', () => {
+    const report = matrix.analyzeSensitivity([BALANCED, SCALABLE]);
+
+    assert.equal(report.topStack, 'Scalable');
+    assert.equal(report.runnerUp, 'Balanced');
+    assert.equal(report.scoreGap, 1.6);
+
+    // Below 1/6, the balanced stack wins
+    const scalability = report.criteria.find(c => c.criterion === 'scalability')!;
+    assert.equal(scalability.min, 0.167);
+    assert.equal(scalability.max, 1);
+    assert.equal(scalability.overtakenBelow, 'Balanced');
+    assert.equal(scalability.margin, 0.033);
+    assert.equal(scalability.fragile, true);
+
+    // Above 1/3, the balanced stack wins
+    const maintainability = report.criteria.find(c => c.criterion === 'maintainability')!;
+    assert.equal(maintainability.max, 0.333);
+    assert.equal(maintainability.overtakenAbove, 'Balanced');
+    assert.equal(maintainability.fragile, false);
+
+    assert.equal(report.fragile, true);
+  });
+
+  it('uses the threshold to tell small from large weight changes', () => {
+    assert.equal(matrix.analyzeSensitivity([SCALABLE, BALANCED], 0.01).fragile, false);
+  });
+
+  it('is not fragile with a single stack', () => {
+    const report = matrix.analyzeSensitivity([SCALABLE]);
+
+    assert.equal(report.runnerUp, undefined);
+    assert.equal(report.scoreGap, 0);
+    assert.ok(report.criteria.every(c => c.min === 0 && c.max === 1 && !c.fragile));
+  });
+});
@@ -12,8 +12,16 @@
  * - Cost (10%): Infrastructure and licensing costs
  * - Team Fit (10%): Does it match team expertise?
  * - Timeline Fit (10%): Can we deliver on time?
+ *
+ * Technologies named in a stack are looked up in the StackKnowledgeBase
+ * (licence cost, hosting, ecosystem size, learning curve, languages,
+ * scalability, typing). Stacks with no known technology fall back to keyword
+ * heuristics over their pros/cons. Timeline fit always uses the stack's own
+ * estimate.
  */
 
+import { StackKnowledgeBase, type TechnologyProfile } from './stack-knowledge.js';
+
 /**
  * Stack option interface
  */
@@ -47,6 +55,10 @@ export interface ScoredStack extends StackOption {
   breakdown: ScoreBreakdown;
   ranking?: number;
   recommendation?: string;
+  // Technologies found in the knowledge base (none = scored with keyword heuristics)
+  knownTechnologies?: string[];
+  // Parts of the stack name not in the knowledge base (ignored when any part is known)
+  unknownTechnologies?: string[];
 }
 
 /**
@@ -74,6 +86,58 @@ export interface ScoringContext {
   budgetLevel: 'low' | 'medium' | 'high';
 }
 
+/**
+ * Weight range of one criterion within which the top stack stays on top
+ *
+ * The other weights scale proportionally as this one moves, so they keep
+ * summing to 1.
+ */
+export interface WeightSensitivity {
+  criterion: keyof CriteriaWeights;
+  weight: number;
+  min: number;
+  max: number;
+  // Stacks that take the top spot below min / above max
+  overtakenBelow?: string;
+  overtakenAbove?: string;
+  // Smallest change of this weight that changes the top stack (none if no weight in 0-1 does)
+  margin?: number;
+  fragile: boolean;
+}
+
+/**
+ * How much the weights can move before the top stack changes
+ */
+export interface SensitivityReport {
+  topStack: string;
+  runnerUp?: string;
+  // Score points between the top stack and the runner-up
+  scoreGap: number;
+  // A weight change of at most this much counts as small
+  threshold: number;
+  criteria: WeightSensitivity[];
+  // Some small weight change makes another stack the top one
+  fragile: boolean;
+}
+
+export const CRITERIA_LABELS: Record<keyof CriteriaWeights, string> = {
+  scalability: 'Scalability',
+  maintainability: 'Maintainability',
+  learning_curve: 'Learning Curve',
+  ecosystem: 'Ecosystem',
+  cost: 'Cost',
+  team_fit: 'Team Fit',
+  timeline_fit: 'Timeline Fit',
+};
+
+// Attribute levels as 0-100 scores
+const SCALABILITY_SCORES: Record<TechnologyProfile['scalability'], number> = { low: 35, medium: 60, high: 85 };
+const LEARNING_SCORES: Record<TechnologyProfile['learningCurve'], number> = { easy: 85, moderate: 60, steep: 30 };
+const ECOSYSTEM_SCORES: Record<TechnologyProfile['ecosystem'], number> = { small: 35, medium: 60, large: 85 };
+const LICENCE_SCORES: Record<TechnologyProfile['licenceCost'], number> = { free: 85, freemium: 65, paid: 30 };
+
+const DEFAULT_KNOWLEDGE = new StackKnowledgeBase();
+
 /**
  * Decision Matrix Class
  *
@@ -90,10 +154,13 @@ export class DecisionMatrix {
     timeline_fit: 0.1,
   };
 
+  private knowledge: StackKnowledgeBase;
+
   /**
-   * Constructor with optional custom weights
+   * Constructor with optional custom weights and knowledge base (default: built-in entries only)
    */
-  constructor(customWeights?: Partial<CriteriaWeights>) {
+  constructor(customWeights?: Partial<CriteriaWeights>, knowledge: StackKnowledgeBase = DEFAULT_KNOWLEDGE) {
+    this.knowledge = knowledge;
     if (customWeights) {
       this.weights = { ...this.weights, ...customWeights };
       this.normalizeWeights();
@@ -125,13 +192,16 @@ export class DecisionMatrix {
 
     // Score each stack
     const scoredStacks: ScoredStack[] = stacks.map((stack) => {
-      const breakdown = this.calculateBreakdown(stack, context);
+      const { technologies: known, unknown } = this.knowledge.lookup(stack.name);
+      const breakdown = this.calculateBreakdown(stack, context, known);
       const score = this.calculateWeightedScore(breakdown);
 
       return {
         ...stack,
         score,
         breakdown,
+        knownTechnologies: known.map((technology) => technology.name),
+        unknownTechnologies: unknown,
       };
     });
 
@@ -152,13 +222,16 @@ export class DecisionMatrix {
    */
   scoreWithContext(stacks: StackOption[], context: ScoringContext): ScoredStack[] {
     const scoredStacks: ScoredStack[] = stacks.map((stack) => {
-      const breakdown = this.calculateBreakdown(stack, context);
+      const { technologies: known, unknown } = this.knowledge.lookup(stack.name);
+      const breakdown = this.calculateBreakdown(stack, context, known);
       const score = this.calculateWeightedScore(breakdown);
 
       return {
         ...stack,
         score,
         breakdown,
+        knownTechnologies: known.map((technology) => technology.name),
+        unknownTechnologies: unknown,
       };
     });
 
@@ -174,8 +247,22 @@ export class DecisionMatrix {
 
   /**
    * Calculate score breakdown for a stack
+   *
+   * Uses the knowledge base entries of its technologies, or keyword heuristics if none is known.
    */
-  private calculateBreakdown(stack: StackOption, context: ScoringContext): ScoreBreakdown {
+  private calculateBreakdown(stack: StackOption, context: ScoringContext, known: TechnologyProfile[] = []): ScoreBreakdown {
+    if (known.length > 0) {
+      return {
+        scalability: this.scoreKnownScalability(stack, context, known),
+        maintainability: this.scoreKnownMaintainability(stack, known),
+        learning_curve: this.scoreKnownLearningCurve(context, known),
+        ecosystem: this.scoreKnownEcosystem(known),
+        cost: this.scoreKnownCost(context, known),
+        team_fit: this.scoreKnownTeamFit(context, known),
+        timeline_fit: this.scoreTimelineFit(stack, context),
+      };
+    }
+
     return {
       scalability: this.scoreScalability(stack, context),
       maintainability: this.scoreMaintainability(stack, context),
@@ -237,13 +324,7 @@ export class DecisionMatrix {
     }
 
     // Check requirements
-    const requiresHighScale = context.requirements.some((req) =>
-      req.toLowerCase().includes('scale') ||
-      req.toLowerCase().includes('performance') ||
-      req.toLowerCase().includes('high traffic')
-    );
-
-    if (requiresHighScale && score < 60) {
+    if (this.requiresHighScale(context) && score < 60) {
       score -= 10; // Penalty if requirements need scaling but stack is weak
     }
 
@@ -496,6 +577,131 @@ export class DecisionMatrix {
     return this.clampScore(score);
   }
 
+  /**
+   * Round a weight to 3 decimal places
+   */
+  private round(weight: number): number {
+    return Math.round(weight * 1000) / 1000;
+  }
+
+  /**
+   * Score scalability from known technologies (0-100)
+   */
+  private scoreKnownScalability(stack: StackOption, context: ScoringContext, known: TechnologyProfile[]): number {
+    let score = this.average(known.map((technology) => SCALABILITY_SCORES[technology.scalability]));
+
+    // The architecture still matters for how far the technologies scale
+    const architecture = stack.architecture.toLowerCase();
+    if (architecture.includes('microservices') || architecture.includes('serverless')) {
+      score += 10;
+    } else if (architecture.includes('monolith')) {
+      score -= 5;
+    }
+
+    if (this.requiresHighScale(context) && score < 60) {
+      score -= 10;
+    }
+
+    return this.clampScore(Math.round(score));
+  }
+
+  /**
+   * Score maintainability from known technologies (0-100)
+   */
+  private scoreKnownMaintainability(stack: StackOption, known: TechnologyProfile[]): number {
+    const typedShare = known.filter((technology) => technology.typed).length / known.length;
+    let score = 45 + 35 * typedShare;
+
+    if (stack.architecture.toLowerCase().includes('mvc')) {
+      score += 10;
+    }
+    if (stack.architecture.toLowerCase().includes('clean')) {
+      score += 15;
+    }
+
+    return this.clampScore(Math.round(score));
+  }
+
+  /**
+   * Score learning curve from known technologies (0-100, higher = easier)
+   */
+  private scoreKnownLearningCurve(context: ScoringContext, known: TechnologyProfile[]): number {
+    let score = this.average(known.map((technology) => LEARNING_SCORES[technology.learningCurve]));
+
+    // Every technology past the third is one more thing to learn
+    score -= Math.max(0, known.length - 3) * 5;
+
+    if (context.timelineMonths < 3 && score < 60) {
+      score -= 15;
+    }
+
+    return this.clampScore(Math.round(score));
+  }
+
+  /**
+   * Score ecosystem from known technologies (0-100)
+   */
+  private scoreKnownEcosystem(known: TechnologyProfile[]): number {
+    return this.clampScore(Math.round(this.average(known.map((technology) => ECOSYSTEM_SCORES[technology.ecosystem]))));
+  }
+
+  /**
+   * Score cost from known technologies (0-100, higher = lower cost)
+   */
+  private scoreKnownCost(context: ScoringContext, known: TechnologyProfile[]): number {
+    // One paid licence makes the whole stack paid
+    let score = Math.min(...known.map((technology) => LICENCE_SCORES[technology.licenceCost]));
+
+    // Managed and serverless platforms bill every month
+    if (known.some((technology) => technology.hosting === 'managed' || technology.hosting === 'serverless')) {
+      score -= 5;
+    }
+
+    if (context.budgetLevel === 'low' && score < 70) {
+      score -= 10;
+    }
+
+    return this.clampScore(score);
+  }
+
+  /**
+   * Score team fit from known technologies (0-100)
+   *
+   * Experience with a technology counts most; experience with one of its languages counts half.
+   */
+  private scoreKnownTeamFit(context: ScoringContext, known: TechnologyProfile[]): number {
+    let score = 50;
+    const experience = context.teamExperience.map((exp) => exp.toLowerCase().trim()).filter(Boolean);
+    const knowsTechnology = (technology: TechnologyProfile) =>
+      [technology.name, ...(technology.aliases ?? [])].some((name) => experience.includes(name.toLowerCase()));
+
+    if (known.some(knowsTechnology)) {
+      score += 30;
+    } else if (known.some((technology) => technology.languages.some((language) => experience.includes(language)))) {
+      score += 15;
+    }
+
+    // Steep technologies nobody on the team knows yet
+    score -= known.filter((technology) => technology.learningCurve === 'steep' && !knowsTechnology(technology)).length * 5;
+
+    return this.clampScore(score);
+  }
+
+  /**
+   * Whether the requirements ask for scale or performance
+   */
+  private requiresHighScale(context: ScoringContext): boolean {
+    return context.requirements.some((req) =>
+      req.toLowerCase().includes('scale') ||
+      req.toLowerCase().includes('performance') ||
+      req.toLowerCase().includes('high traffic')
+    );
+  }
+
+  private average(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0) / values.length;
+  }
+
   /**
    * Clamp score to 0-100 range
    */
@@ -541,6 +747,10 @@ export class DecisionMatrix {
       this.weights.team_fit +
       this.weights.timeline_fit;
 
+    if (!(sum > 0)) {
+      throw new Error('Criteria weights must not all be 0');
+    }
+
     if (sum !== 1.0) {
       // Normalize each weight
       this.weights.scalability /= sum;
@@ -584,6 +794,97 @@ export class DecisionMatrix {
     return header + '\n' + rows.join('\n');
   }
 
+  /**
+   * Weight ranges within which the top stack stays on top
+   *
+   * Each criterion's weight is moved from 0 to 1 on its own (the others
+   * scaled to keep the sum at 1). Scores are linear in the weight, so the
+   * range ends where another stack's score line crosses the top stack's.
+   *
+   * @param scoredStacks - Stacks with their breakdowns (any order)
+   * @param threshold - Weight change that counts as small (default 0.05 = 5 percentage points)
+   */
+  analyzeSensitivity(scoredStacks: ScoredStack[], threshold: number = 0.05): SensitivityReport {
+    const criteria = Object.keys(this.weights) as Array<keyof CriteriaWeights>;
+    const exactScore = (stack: ScoredStack) =>
+      criteria.reduce((total, criterion) => total + stack.breakdown[criterion] * this.weights[criterion], 0);
+    const ranked = [...scoredStacks].sort((a, b) => exactScore(b) - exactScore(a));
+    const [top, runnerUp] = ranked;
+
+    const sensitivities = criteria.map((criterion): WeightSensitivity => {
+      const weight = this.weights[criterion];
+      const sensitivity: WeightSensitivity = { criterion, weight: this.round(weight), min: 0, max: 1, fragile: false };
+      if (weight >= 1) {
+        return sensitivity;
+      }
+
+      // Score at weight t: t * b + (1 - t) * rest / (1 - weight)
+      const rest = (stack: ScoredStack) => (exactScore(stack) - weight * stack.breakdown[criterion]) / (1 - weight);
+      let min = 0;
+      let max = 1;
+
+      for (const other of ranked.slice(1)) {
+        const leadAtZero = rest(top) - rest(other);
+        const leadAtOne = top.breakdown[criterion] - other.breakdown[criterion];
+        if ((leadAtZero >= 0) === (leadAtOne >= 0)) {
+          continue;
+        }
+
+        const crossing = leadAtZero / (leadAtZero - leadAtOne);
+        if (leadAtOne < 0 && crossing < max) {
+          max = crossing;
+          sensitivity.overtakenAbove = other.name;
+        } else if (leadAtZero < 0 && crossing > min) {
+          min = crossing;
+          sensitivity.overtakenBelow = other.name;
+        }
+      }
+
+      const margins = [
+        sensitivity.overtakenBelow ? weight - min : undefined,
+        sensitivity.overtakenAbove ? max - weight : undefined,
+      ].filter((margin): margin is number => margin !== undefined);
+
+      sensitivity.min = this.round(min);
+      sensitivity.max = this.round(max);
+      if (margins.length > 0) {
+        sensitivity.margin = this.round(Math.min(...margins));
+        sensitivity.fragile = sensitivity.margin <= threshold;
+      }
+      return sensitivity;
+    });
+
+    return {
+      topStack: top?.name ?? '',
+      runnerUp: runnerUp?.name,
+      scoreGap: runnerUp ? Math.round((exactScore(top) - exactScore(runnerUp)) * 10) / 10 : 0,
+      threshold,
+      criteria: sensitivities,
+      fragile: sensitivities.some(sensitivity => sensitivity.fragile),
+    };
+  }
+
+  /**
+   * Generate sensitivity table (⚠️ = a small change of that weight changes the top stack)
+   */
+  generateSensitivityTable(report: SensitivityReport): string {
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    const header = `
+| Criterion | Weight | ${report.topStack} stays on top for | Margin | Overtaken by |
+|-----------|--------|${'-'.repeat(report.topStack.length + 19)}|--------|--------------|`;
+
+    const rows = report.criteria.map((sensitivity) => {
+      const overtakenBy = [
+        sensitivity.overtakenBelow ? `${sensitivity.overtakenBelow} (below)` : '',
+        sensitivity.overtakenAbove ? `${sensitivity.overtakenAbove} (above)` : '',
+      ].filter(Boolean).join(', ') || '–';
+      const margin = sensitivity.margin === undefined ? 'any' : `${Math.round(sensitivity.margin * 1000) / 10} pts`;
+      return `| ${sensitivity.fragile ? '⚠️ ' : ''}${CRITERIA_LABELS[sensitivity.criterion]} | ${percent(sensitivity.weight)} | ${percent(sensitivity.min)}–${percent(sensitivity.max)} | ${margin} | ${overtakenBy} |`;
+    });
+
+    return header + '\n' + rows.join('\n');
+  }
+
   /**
    * Generate detailed report for a stack
    */
@@ -0,0 +1,71 @@
+/**
+ * Error codes, hints and warnings (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AppCreatorError,
+  collectWarnings,
+  DEFAULT_HINTS,
+  getErrorCode,
+  phaseOrderViolation,
+  reportWarning,
+  toAppCreatorError,
+} from './errors.js';
+
+function errnoError(code: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`${code}: operation failed`), { code });
+}
+
+describe('AppCreatorError', () => {
+  it('uses the default hint of its code unless given one', () => {
+    assert.equal(new AppCreatorError('PROJECT_NOT_FOUND', 'No project').hint, DEFAULT_HINTS.PROJECT_NOT_FOUND);
+    assert.equal(new AppCreatorError('PROJECT_NOT_FOUND', 'No project', { hint: 'Try "shop"' }).hint, 'Try "shop"');
+  });
+
+  it('keeps code, hint and details when wrapped', () => {
+    const inner = new AppCreatorError('BUDGET_EXCEEDED', 'Budget used up', { hint: 'Raise it', details: { spent: 5 } });
+    const wrapped = AppCreatorError.wrap(inner, 'Failed to approve architecture');
+
+    assert.equal(wrapped.code, 'BUDGET_EXCEEDED');
+    assert.equal(wrapped.message, 'Failed to approve architecture: Budget used up');
+    assert.equal(wrapped.hint, 'Raise it');
+    assert.deepEqual(wrapped.details, { spent: 5 });
+    assert.equal(wrapped.cause, inner);
+  });
+
+  it('maps fs errors to FS_ERROR and anything else to the fallback code', () => {
+    assert.equal(AppCreatorError.wrap(errnoError('EACCES'), 'Failed to save').code, 'FS_ERROR');
+    assert.equal(AppCreatorError.wrap(new Error('boom'), 'Failed to parse', 'AI_PROVIDER_ERROR').code, 'AI_PROVIDER_ERROR');
+    assert.equal(getErrorCode(errnoError('ECONNRESET')), 'INTERNAL_ERROR');
+    assert.equal(toAppCreatorError('boom').message, 'boom');
+    assert.equal(toAppCreatorError(errnoError('ENOSPC')).code, 'FS_ERROR');
+  });
+
+  it('names the prerequisite tools of a phase order violation', () => {
+    const error = phaseOrderViolation('Too early', ['start_project', 'analyze_project_requirements']);
+
+    assert.equal(error.code, 'PHASE_ORDER_VIOLATION');
+    assert.equal(error.hint, 'Call "start_project" or "analyze_project_requirements" first.');
+    assert.deepEqual(error.details, { prerequisiteTools: ['start_project', 'analyze_project_requirements'] });
+  });
+});
+
+describe('collectWarnings', () => {
+  it('collects the warnings reported within its scope only', async () => {
+    reportWarning('PARSE_FALLBACK_USED', 'Outside any scope');
+
+    const { result, warnings } = await collectWarnings(async () => {
+      reportWarning('PARSE_FALLBACK_USED', 'Default tasks used', 'generateTasks');
+      await Promise.resolve();
+      reportWarning('AI_PROVIDER_FALLBACK', 'Fallback model used');
+      return 'done';
+    });
+
+    assert.equal(result, 'done');
+    assert.deepEqual(warnings.map(w => w.code), ['PARSE_FALLBACK_USED', 'AI_PROVIDER_FALLBACK']);
+    assert.equal(warnings[0].context, 'generateTasks');
+    assert.equal(warnings[0].hint, DEFAULT_HINTS.PARSE_FALLBACK_USED);
+  });
+});
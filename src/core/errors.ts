@@ -0,0 +1,170 @@
+/**
+ * Errors - Error taxonomy shared by adapters, modules and tools
+ *
+ * Every failure surfaced to an MCP client carries:
+ * - a stable code (PROJECT_NOT_FOUND, PHASE_ORDER_VIOLATION, ...)
+ * - a hint naming what to call next
+ *
+ * Non-fatal problems (e.g. an AI response that had to be replaced by
+ * defaults) are reported as warnings and attached to the tool result.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Stable error codes
+ */
+export type ErrorCode =
+  | 'PROJECT_NOT_FOUND'
+  | 'PHASE_ORDER_VIOLATION'
+  | 'INVALID_ARGUMENTS'
+  | 'INVALID_CONFIRMATION'
+  | 'AI_PROVIDER_ERROR'
+  | 'AI_PROVIDER_FALLBACK'
+  | 'BUDGET_EXCEEDED'
+  | 'REPLAY_FIXTURE_MISSING'
+  | 'PARSE_FALLBACK_USED'
+  | 'FS_ERROR'
+  | 'NOTEBOOKLM_UNAVAILABLE'
+  | 'GENERATION_CANCELLED'
+  | 'UNKNOWN_TOOL'
+  | 'INTERNAL_ERROR';
+
+/**
+ * What to do next, per code (used when a throw site gives no hint)
+ */
+export const DEFAULT_HINTS: Record<ErrorCode, string> = {
+  PROJECT_NOT_FOUND: 'Call "list_projects" to see known projects, or "start_project" / "analyze_project_requirements" to create one.',
+  PHASE_ORDER_VIOLATION: 'Call "get_workflow_status" to see the current phase and the next step.',
+  INVALID_ARGUMENTS: 'Fix the listed arguments and call the tool again.',
+  INVALID_CONFIRMATION: 'Call "delete_project" without confirmation_token to get a new token.',
+  AI_PROVIDER_ERROR: 'Check AI_PROVIDER, AI_API_KEY and AI_MODEL (or the provider status), then call the tool again.',
+  AI_PROVIDER_FALLBACK: 'A fallback model produced this output. Check the failing provider, or call the tool again once it is back.',
+  BUDGET_EXCEEDED: 'Check the spend with "get_workflow_status", raise AI_BUDGET_USD or switch AI_MODEL to a cheaper model, then call the tool again.',
+  REPLAY_FIXTURE_MISSING: 'The prompt changed or was never recorded. Re-record with AI_RECORD=true and a live AI_PROVIDER, using the same AI_FIXTURES_DIR.',
+  PARSE_FALLBACK_USED: 'Default content was used. Review the generated files, or call the tool again to regenerate them.',
+  FS_ERROR: 'Check that the projects root (APPCREATOR_PROJECTS_ROOT or output_dir) exists and is writable, then call the tool again.',
+  NOTEBOOKLM_UNAVAILABLE: 'Set NOTEBOOKLM_MCP_ENABLED=true, or use "start_project" / "analyze_project_requirements" without a notebook.',
+  GENERATION_CANCELLED: 'Call the same tool again with the same arguments to resume.',
+  UNKNOWN_TOOL: 'Call tools/list to see the available tools.',
+  INTERNAL_ERROR: 'Call "get_workflow_status" to check the project state, then try again.',
+};
+
+// Node.js system error codes raised by fs operations
+const FS_ERRNO_CODES = new Set([
+  'ENOENT', 'EACCES', 'EPERM', 'ENOSPC', 'ENAMETOOLONG', 'EEXIST', 'EISDIR', 'ENOTDIR', 'ENOTEMPTY', 'EROFS', 'EMFILE', 'EBUSY',
+]);
+
+/**
+ * AppCreatorError options
+ */
+export interface AppCreatorErrorOptions {
+  hint?: string;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * Error with a stable code and a hint for the caller
+ */
+export class AppCreatorError extends Error {
+  readonly code: ErrorCode;
+  readonly hint: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, options: AppCreatorErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'AppCreatorError';
+    this.code = code;
+    this.hint = options.hint ?? DEFAULT_HINTS[code];
+    this.details = options.details;
+  }
+
+  /**
+   * Re-throw helper for "Failed to ..." wrappers
+   *
+   * Keeps the code, hint and details of the underlying error, maps Node.js
+   * fs errors to FS_ERROR and uses the fallback code for anything else.
+   */
+  static wrap(error: unknown, message: string, fallbackCode: ErrorCode = 'INTERNAL_ERROR'): AppCreatorError {
+    const cause = error instanceof Error ? error.message : 'Unknown error';
+
+    if (error instanceof AppCreatorError) {
+      return new AppCreatorError(error.code, `${message}: ${cause}`, {
+        hint: error.hint,
+        details: error.details,
+        cause: error,
+      });
+    }
+
+    return new AppCreatorError(getErrorCode(error, fallbackCode), `${message}: ${cause}`, { cause: error });
+  }
+}
+
+/**
+ * Code of any thrown value
+ */
+export function getErrorCode(error: unknown, fallbackCode: ErrorCode = 'INTERNAL_ERROR'): ErrorCode {
+  if (error instanceof AppCreatorError) {
+    return error.code;
+  }
+
+  const errno = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (typeof errno === 'string' && FS_ERRNO_CODES.has(errno)) {
+    return 'FS_ERROR';
+  }
+
+  return fallbackCode;
+}
+
+/**
+ * Normalize any thrown value into an AppCreatorError
+ */
+export function toAppCreatorError(error: unknown): AppCreatorError {
+  if (error instanceof AppCreatorError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AppCreatorError(getErrorCode(error), message, { cause: error });
+}
+
+/**
+ * Non-fatal problem reported while a tool ran
+ */
+export interface AppCreatorWarning {
+  code: ErrorCode;
+  message: string;
+  hint: string;
+  context?: string;
+}
+
+const warningScope = new AsyncLocalStorage<AppCreatorWarning[]>();
+
+/**
+ * Run a function and collect the warnings reported during it
+ */
+export async function collectWarnings<T>(fn: () => Promise<T>): Promise<{ result: T; warnings: AppCreatorWarning[] }> {
+  const warnings: AppCreatorWarning[] = [];
+  const result = await warningScope.run(warnings, fn);
+  return { result, warnings };
+}
+
+/**
+ * Report a warning to the enclosing collectWarnings() call (no-op outside one)
+ */
+export function reportWarning(code: ErrorCode, message: string, context?: string): void {
+  warningScope.getStore()?.push({ code, message, hint: DEFAULT_HINTS[code], context });
+}
+
+/**
+ * A tool was called before the phase it depends on
+ *
+ * @param prerequisiteTools - Tools that complete the missing phase (any one of them)
+ */
+export function phaseOrderViolation(message: string, prerequisiteTools: string[]): AppCreatorError {
+  return new AppCreatorError('PHASE_ORDER_VIOLATION', message, {
+    hint: `Call ${prerequisiteTools.map(tool => `"${tool}"`).join(' or ')} first.`,
+    details: { prerequisiteTools },
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * Generation Run - Progress, cancellation and resumable steps
+ *
+ * Long-running tools (approve_architecture, create_project_from_analysis)
+ * chain many AI calls. Each call runs as a named step of a RunControl, which:
+ * - reports MCP progress after every step
+ * - refuses to start the next step once the request is cancelled or the
+ *   project's AI budget is used up (a step's AI calls get the signal through
+ *   the call options, so a cancelled step stops too)
+ * - records each step's output, so a cancelled or failed run continues
+ *   from the first unfinished step instead of restarting
+ */
+
+import { createHash } from 'crypto';
+import { AppCreatorError } from './errors.js';
+import { assertWithinBudget } from './usage.js';
+
+/**
+ * Persisted record of a (possibly unfinished) run
+ */
+export interface GenerationRun {
+  tool: string;
+  inputHash: string;
+  startedAt: string;
+  updatedAt: string;
+  completedSteps: string[];
+  outputs: Record<string, any>;
+}
+
+/**
+ * Receives progress after each step
+ */
+export type ProgressListener = (progress: number, total: number | undefined, message: string) => Promise<void>;
+
+/**
+ * Saves the run after each step
+ */
+export type RunPersister = (run: GenerationRun) => Promise<void>;
+
+/**
+ * RunControl options
+ */
+export interface RunControlOptions {
+  tool?: string;
+  inputs?: unknown;
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+  persist?: RunPersister;
+  previousRun?: GenerationRun;
+}
+
+/**
+ * Thrown when the request was cancelled before or during a step
+ */
+export class GenerationCancelledError extends AppCreatorError {
+  constructor(tool: string, completedSteps: string[]) {
+    super(
+      'GENERATION_CANCELLED',
+      `${tool} cancelled after ${completedSteps.length} completed step(s)` +
+      (completedSteps.length > 0 ? ` (${completedSteps.join(', ')})` : '') +
+      '.',
+      {
+        hint: `Call "${tool}" again with the same arguments to resume from the first unfinished step.`,
+        details: { completedSteps },
+      }
+    );
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Run Control Class
+ *
+ * Wraps the steps of a single tool call.
+ */
+export class RunControl {
+  private run: GenerationRun;
+  private signal?: AbortSignal;
+  private onProgress?: ProgressListener;
+  private persist?: RunPersister;
+  private progress: number;
+  private total?: number;
+  private saving: Promise<void>;
+
+  constructor(options: RunControlOptions = {}) {
+    const tool = options.tool ?? 'generation';
+    const inputHash = RunControl.hashInputs(options.inputs);
+    const previous = options.previousRun;
+    const now = new Date().toISOString();
+
+    // Only resume a run of the same tool with the same inputs
+    this.run = previous && previous.tool === tool && previous.inputHash === inputHash
+      ? previous
+      : { tool, inputHash, startedAt: now, updatedAt: now, completedSteps: [], outputs: {} };
+
+    this.signal = options.signal;
+    this.onProgress = options.onProgress;
+    this.persist = options.persist;
+    this.progress = 0;
+    this.saving = Promise.resolve();
+  }
+
+  /**
+   * Fingerprint the inputs a run was started with
+   */
+  static hashInputs(inputs: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify(inputs ?? null))
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  /**
+   * Declare the expected number of steps (used as progress total)
+   */
+  setTotal(total: number): void {
+    this.total = total;
+  }
+
+  /**
+   * Whether this run picked up outputs from an earlier attempt
+   */
+  isResumed(): boolean {
+    return this.run.completedSteps.length > 0;
+  }
+
+  /**
+   * Run a named step, or reuse its output from an earlier attempt
+   */
+  async step<T>(name: string, message: string, fn: () => Promise<T>): Promise<T> {
+    if (this.run.completedSteps.includes(name)) {
+      console.error(`   ↪ Reusing "${name}" from previous run`);
+      await this.advance(`${message} (resumed)`);
+      return this.run.outputs[name] as T;
+    }
+
+    this.throwIfCancelled();
+    assertWithinBudget();
+
+    let output: T;
+    try {
+      output = await fn();
+    } catch (error) {
+      // Cancelled mid-step: report it like a cancellation between steps
+      this.throwIfCancelled();
+      throw error;
+    }
+
+    this.run.outputs[name] = output;
+    this.run.completedSteps.push(name);
+    this.run.updatedAt = new Date().toISOString();
+    await this.save();
+
+    await this.advance(message);
+    return output;
+  }
+
+  /**
+   * Report progress for work that is not recorded as a step
+   */
+  async advance(message: string): Promise<void> {
+    this.progress++;
+
+    if (this.onProgress) {
+      try {
+        await this.onProgress(this.progress, this.total, message);
+      } catch (error) {
+        // Progress is best-effort, never fail the run over it
+        console.error('Error sending progress:', error);
+      }
+    }
+  }
+
+  /**
+   * Stop before starting more work if the request was cancelled
+   */
+  throwIfCancelled(): void {
+    if (this.signal?.aborted) {
+      throw new GenerationCancelledError(this.run.tool, this.run.completedSteps);
+    }
+  }
+
+  /**
+   * The run record (for persisting or clearing)
+   */
+  getRun(): GenerationRun {
+    return this.run;
+  }
+
+  /**
+   * Persist the run, serialized so parallel steps don't interleave writes
+   */
+  private async save(): Promise<void> {
+    if (!this.persist) {
+      return;
+    }
+
+    const persist = this.persist;
+    this.saving = this.saving.catch(() => undefined).then(() => persist(this.run));
+    await this.saving;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * McpHttpServer routing, auth and session lifetime (node:test)
+ *
+ * Sessions are plain SDK servers, wrapped to count how often they are closed.
+ */
+
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { HttpServerConfig, McpHttpServer, McpSession } from './http-server.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+class TestSession implements McpSession {
+  closed = 0;
+  private server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async close(): Promise<void> {
+    this.closed++;
+    await this.server.close();
+  }
+}
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer | undefined;
+  let sessions: TestSession[];
+  let baseUrl: string;
+
+  async function start(config: Partial<HttpServerConfig> = {}): Promise<void> {
+    sessions = [];
+    httpServer = new McpHttpServer(() => {
+      const session = new TestSession();
+      sessions.push(session);
+      return session;
+    }, { host: '127.0.0.1', port: 0, idleTimeoutMs: 0, ...config });
+    const { port } = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  async function initialize(headers: Record<string, string> = {}): Promise<Response> {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(INITIALIZE),
+    });
+    await response.text();
+    return response;
+  }
+
+  async function health(): Promise<{ status: string; sessions: number }> {
+    return await (await fetch(`${baseUrl}/health`)).json() as { status: string; sessions: number };
+  }
+
+  afterEach(async () => {
+    await httpServer?.stop();
+    httpServer = undefined;
+  });
+
+  it('reports status and session count on /health', async () => {
+    await start();
+
+    const before = await health();
+    assert.equal(before.status, 'ok');
+    assert.equal(before.sessions, 0);
+    await initialize();
+    assert.equal((await health()).sessions, 1);
+  });
+
+  it('accepts the bearer token and rejects a missing or wrong one', async () => {
+    await start({ authToken: 'secret' });
+
+    const missing = await initialize();
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+    assert.equal((await initialize({ authorization: 'Bearer wrong' })).status, 401);
+
+    const accepted = await initialize({ authorization: 'Bearer secret' });
+    assert.equal(accepted.status, 200);
+    assert.ok(accepted.headers.get('mcp-session-id'));
+    assert.equal((await health()).sessions, 1);
+  });
+
+  it('closes the session when initialize fails', async () => {
+    await start();
+
+    // The transport rejects clients that accept neither JSON nor SSE
+    const response = await initialize({ accept: 'text/plain' });
+
+    assert.equal(response.status, 406);
+    assert.equal(sessions.length, 1);
+    assert.equal(sessions[0].closed, 1);
+    assert.equal((await health()).sessions, 0);
+  });
+
+  it('closes sessions that stay idle for the idle timeout', async () => {
+    await start({ idleTimeoutMs: 50 });
+
+    const response = await initialize();
+    assert.equal((await health()).sessions, 1);
+    await new Promise(resolve => setTimeout(resolve, 250));
+
+    assert.equal((await health()).sessions, 0);
+    assert.equal(sessions[0].closed, 1);
+
+    const expired = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': response.headers.get('mcp-session-id')!,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }),
+    });
+    assert.equal(expired.status, 404);
+  });
+
+  it('reads the idle timeout in minutes from flags and environment', () => {
+    assert.equal(McpHttpServer.resolveConfig([], {}).idleTimeoutMs, 30 * 60 * 1000);
+    assert.equal(McpHttpServer.resolveConfig(['--idle-timeout', '5'], {}).idleTimeoutMs, 5 * 60 * 1000);
+    assert.equal(McpHttpServer.resolveConfig([], { APPCREATOR_HTTP_IDLE_TIMEOUT: '0' }).idleTimeoutMs, 0);
+    assert.throws(() => McpHttpServer.resolveConfig(['--idle-timeout=-1'], {}), /idle timeout/);
+  });
+});
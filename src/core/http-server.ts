@@ -0,0 +1,384 @@
+/**
+ * HTTP Server - Streamable HTTP transport for shared deployments
+ *
+ * Lets several MCP clients connect to one AppCreator instance:
+ * - POST/GET/DELETE /mcp  Streamable HTTP (JSON or SSE streams)
+ * - GET /health           liveness and session count (no auth)
+ *
+ * Every MCP session gets its own server instance, so resource subscriptions
+ * and progress never leak between clients. Workflow state is not kept per
+ * session: all sessions read and write the projects on disk.
+ *
+ * Sessions without requests (or open streams) for the idle timeout are
+ * closed, as are sessions whose initialize request fails.
+ *
+ * Mode selection (first match wins):
+ * 1. CLI: --http, --port <n>, --host <addr>, --idle-timeout <minutes>
+ * 2. Env: APPCREATOR_TRANSPORT=http, APPCREATOR_HTTP_PORT, APPCREATOR_HTTP_HOST,
+ *    APPCREATOR_HTTP_IDLE_TIMEOUT (minutes, 0 disables)
+ * Bearer auth is enabled when APPCREATOR_HTTP_TOKEN is set.
+ */
+
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Transport selection
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * HTTP listener configuration
+ */
+export interface HttpServerConfig {
+  host: string;
+  port: number;
+  authToken?: string;
+  // Close sessions idle for this long (0 = never)
+  idleTimeoutMs: number;
+}
+
+/**
+ * Server side of one MCP session
+ */
+export interface McpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * A live session and its activity
+ */
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  session: McpSession;
+  lastActiveAt: number;
+  // Requests (including open SSE streams) that have not finished yet
+  openRequests: number;
+}
+
+/**
+ * MCP HTTP Server Class
+ *
+ * Routes requests to per-session Streamable HTTP transports.
+ */
+export class McpHttpServer {
+  private createSession: () => McpSession;
+  private config: HttpServerConfig;
+  private sessions: Map<string, SessionEntry>;
+  private httpServer: NodeHttpServer;
+  private startedAt: number;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(createSession: () => McpSession, config: HttpServerConfig) {
+    this.createSession = createSession;
+    this.config = config;
+    this.sessions = new Map();
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Pick the transport from CLI flags and environment
+   */
+  static resolveMode(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): TransportMode {
+    if (argv.includes('--http')) {
+      return 'http';
+    }
+
+    const transportFlag = McpHttpServer.readFlag(argv, '--transport') ?? env.APPCREATOR_TRANSPORT;
+    if (transportFlag && transportFlag !== 'stdio' && transportFlag !== 'http') {
+      throw new Error(`Unknown transport "${transportFlag}". Use "stdio" or "http".`);
+    }
+
+    return (transportFlag as TransportMode | undefined) ?? 'stdio';
+  }
+
+  /**
+   * Read the HTTP listener configuration from CLI flags and environment
+   */
+  static resolveConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): HttpServerConfig {
+    const rawPort = McpHttpServer.readFlag(argv, '--port') ?? env.APPCREATOR_HTTP_PORT;
+    const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid HTTP port: ${rawPort}`);
+    }
+
+    const rawIdleTimeout = McpHttpServer.readFlag(argv, '--idle-timeout') ?? env.APPCREATOR_HTTP_IDLE_TIMEOUT;
+    const idleTimeoutMinutes = rawIdleTimeout ? Number(rawIdleTimeout) : DEFAULT_IDLE_TIMEOUT_MINUTES;
+
+    if (!Number.isFinite(idleTimeoutMinutes) || idleTimeoutMinutes < 0) {
+      throw new Error(`Invalid session idle timeout: ${rawIdleTimeout}`);
+    }
+
+    return {
+      host: McpHttpServer.readFlag(argv, '--host') ?? env.APPCREATOR_HTTP_HOST ?? DEFAULT_HOST,
+      port,
+      authToken: env.APPCREATOR_HTTP_TOKEN || undefined,
+      idleTimeoutMs: idleTimeoutMinutes * 60 * 1000,
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The bound address (useful with port 0)
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    if (this.config.idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(
+        () => this.closeIdleSessions(),
+        Math.min(this.config.idleTimeoutMs, MAX_SWEEP_INTERVAL_MS)
+      );
+      this.sweepTimer.unref();
+    }
+
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    return { host: this.config.host, port };
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    for (const { session } of [...this.sessions.values()]) {
+      await session.close();
+    }
+    this.sessions.clear();
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      this.sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      this.sendJson(res, 404, { error: `Not found. MCP endpoint is ${MCP_PATH}` });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await this.readJsonBody(req, res);
+      if (body === undefined) {
+        return;
+      }
+
+      if (existing) {
+        this.trackActivity(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        await this.openSession(req, res, body);
+        return;
+      }
+
+      this.sendJsonRpcError(res, sessionId === undefined ? 400 : 404, -32000,
+        sessionId === undefined ? 'Bad Request: no session. Send an initialize request first.' : 'Session not found');
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        this.sendJsonRpcError(res, sessionId === undefined ? 400 : 404, -32000,
+          sessionId === undefined ? 'Bad Request: missing Mcp-Session-Id header' : 'Session not found');
+        return;
+      }
+
+      this.trackActivity(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    this.sendJsonRpcError(res, 405, -32000, 'Method not allowed');
+  }
+
+  /**
+   * Create a transport and server instance for a new session
+   */
+  private async openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const session = this.createSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const entry: SessionEntry = { transport, session, lastActiveAt: Date.now(), openRequests: 0 };
+        this.sessions.set(id, entry);
+        this.trackActivity(entry, res);
+        console.error(`🔌 Session opened: ${id} (${this.sessions.size} active)`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        console.error(`🔌 Session closed: ${transport.sessionId} (${this.sessions.size} active)`);
+      }
+    };
+
+    try {
+      await session.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await this.closeSession(session, transport);
+      throw error;
+    }
+
+    // The transport rejected the initialize request: nobody can use this session
+    if (!transport.sessionId || !this.sessions.has(transport.sessionId) || res.statusCode >= 400) {
+      await this.closeSession(session, transport);
+    }
+  }
+
+  /**
+   * Keep a session alive while one of its requests or streams is open
+   */
+  private trackActivity(entry: SessionEntry, res: ServerResponse): void {
+    entry.openRequests++;
+    entry.lastActiveAt = Date.now();
+
+    res.once('close', () => {
+      entry.openRequests--;
+      entry.lastActiveAt = Date.now();
+    });
+  }
+
+  /**
+   * Close sessions that have been idle for longer than the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.config.idleTimeoutMs;
+
+    for (const [id, entry] of [...this.sessions]) {
+      if (entry.openRequests === 0 && entry.lastActiveAt < cutoff) {
+        console.error(`⏱️ Closing idle session: ${id} (${this.sessions.size - 1} active)`);
+        this.closeSession(entry.session, entry.transport).catch(error => {
+          console.error(`Error closing idle session ${id}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Close a session's server instance and forget it
+   */
+  private async closeSession(session: McpSession, transport: StreamableHTTPServerTransport): Promise<void> {
+    if (transport.sessionId) {
+      this.sessions.delete(transport.sessionId);
+    }
+    await session.close();
+  }
+
+  /**
+   * Check the bearer token (constant-time)
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.config.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.config.authToken);
+    const provided = Buffer.from(match[1].trim());
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Read and parse a JSON request body; responds with an error and returns undefined on failure
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32000, 'Request body too large');
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch (error) {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: invalid JSON');
+      return undefined;
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+
+  private static readFlag(argv: string[], flag: string): string | undefined {
+    const index = argv.findIndex(arg => arg === flag || arg.startsWith(`${flag}=`));
+    if (index === -1) {
+      return undefined;
+    }
+
+    const arg = argv[index];
+    return arg.includes('=') ? arg.slice(flag.length + 1) : argv[index + 1];
+  }
+}
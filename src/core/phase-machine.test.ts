@@ -0,0 +1,132 @@
+/**
+ * PhaseMachine transitions and reopen_phase (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PhaseMachine } from './phase-machine.js';
+import { AppCreatorError } from './errors.js';
+import type { WorkflowPhase, WorkflowState } from '../modules/master-orchestrator.js';
+import type { SpecKit } from '../modules/spec-kit.js';
+import type { POMLState } from '../modules/poml-orchestrator.js';
+
+function workflowState(currentPhase: WorkflowPhase, extra: Partial<WorkflowState> = {}): WorkflowState {
+  return {
+    projectName: 'shop',
+    currentPhase,
+    completedPhases: [],
+    requirements: [],
+    postmanGenerated: false,
+    frontendPromptGenerated: false,
+    bddTestsGenerated: false,
+    tasksCompleted: 0,
+    lastCheckpointTask: 0,
+    completedTaskIds: [],
+    issues: [],
+    a2uiGenerated: false,
+    ...extra,
+  };
+}
+
+const ARTIFACTS = {
+  decisionMatrix: { questions: [], answers: [] },
+  specKit: {} as SpecKit,
+  pomlState: {} as POMLState,
+};
+
+function phaseViolation(pattern: RegExp, prerequisiteTools?: string[]) {
+  return (error: unknown): true => {
+    assert.ok(error instanceof AppCreatorError);
+    assert.equal(error.code, 'PHASE_ORDER_VIOLATION');
+    assert.match(error.message, pattern);
+    if (prerequisiteTools) {
+      assert.deepEqual(error.details?.prerequisiteTools, prerequisiteTools);
+    }
+    return true;
+  };
+}
+
+describe('PhaseMachine', () => {
+  const machine = new PhaseMachine();
+
+  it('names the tools to call first when a tool runs too early', () => {
+    assert.throws(
+      () => machine.assertCanRun('generate_api_tests', undefined),
+      phaseViolation(/needs phase backend_dev/, ['start_project', 'start_project_with_notebook', 'analyze_project_requirements'])
+    );
+    assert.throws(
+      () => machine.assertCanRun('approve_architecture', workflowState('decision_matrix')),
+      phaseViolation(/needs the decision matrix/, ['start_project', 'start_project_with_notebook'])
+    );
+    assert.doesNotThrow(() => machine.assertCanRun('start_project', undefined));
+  });
+
+  it('points at reopen_phase for a phase that was already passed', () => {
+    assert.throws(
+      () => machine.assertCanRun('answer_followups', workflowState('backend_dev', ARTIFACTS)),
+      (error: unknown) => {
+        assert.ok(error instanceof AppCreatorError);
+        assert.equal(error.details?.reopenPhase, 'decision_matrix');
+        assert.match(error.hint!, /reopen_phase/);
+        return true;
+      }
+    );
+  });
+
+  it('enters the next phase and completes earlier ones, never moving backwards', () => {
+    const state = workflowState('decision_matrix', ARTIFACTS);
+
+    machine.apply('approve_architecture', state);
+    assert.equal(state.currentPhase, 'backend_dev');
+    assert.deepEqual(state.completedPhases, ['decision_matrix', 'spec_kit']);
+
+    machine.apply('generate_bdd_tests', state);
+    machine.apply('generate_api_tests', state);
+    assert.equal(state.currentPhase, 'bdd_testing');
+    assert.deepEqual(state.completedPhases, ['decision_matrix', 'spec_kit', 'frontend_integration', 'backend_dev']);
+  });
+
+  it('lists the tools that move the project forward', () => {
+    assert.deepEqual(machine.nextTools(workflowState('decision_matrix')), []);
+    assert.deepEqual(
+      machine.nextTools(workflowState('decision_matrix', ARTIFACTS)),
+      ['approve_architecture', 'approve_architecture_with_notebook']
+    );
+  });
+
+  it('reopens a phase, clears later output and regenerates it without the cache', () => {
+    const state = workflowState('bdd_testing', {
+      ...ARTIFACTS,
+      completedPhases: ['requirements', 'decision_matrix', 'spec_kit', 'backend_dev', 'api_testing', 'frontend_prompt'],
+      postmanGenerated: true,
+      frontendPromptGenerated: true,
+      bddTestsGenerated: true,
+      generationRun: { tool: 'generate_bdd_tests', inputHash: '', startedAt: '', updatedAt: '', completedSteps: [], outputs: {} },
+    });
+
+    const reopened = machine.reopen(state, 'api_testing');
+
+    assert.deepEqual(reopened, ['api_testing', 'frontend_prompt', 'frontend_integration', 'bdd_testing']);
+    assert.equal(state.currentPhase, 'api_testing');
+    assert.deepEqual(state.completedPhases, ['requirements', 'decision_matrix', 'spec_kit', 'backend_dev']);
+    assert.equal(state.postmanGenerated, false);
+    assert.equal(state.frontendPromptGenerated, false);
+    assert.equal(state.bddTestsGenerated, false);
+    assert.equal(state.generationRun, undefined);
+
+    assert.equal(machine.regeneratesReopened('generate_frontend_prompt', state), true);
+    assert.equal(machine.regeneratesReopened('not_a_phase_tool', state), false);
+
+    machine.apply('generate_frontend_prompt', state);
+    machine.apply('generate_a2ui_frontend', state);
+    machine.apply('generate_bdd_tests', state);
+    assert.equal(state.reopenedPhases, undefined);
+    assert.equal(machine.regeneratesReopened('generate_bdd_tests', state), false);
+  });
+
+  it('refuses to reopen a later phase or one no tool can continue from', () => {
+    assert.throws(() => machine.reopen(workflowState('backend_dev', ARTIFACTS), 'api_testing'), phaseViolation(/Cannot reopen phase api_testing/));
+    assert.throws(() => machine.reopen(workflowState('backend_dev', ARTIFACTS), 'complete'), phaseViolation(/Cannot reopen/));
+    assert.throws(() => machine.reopen(workflowState('backend_dev'), 'spec_kit'), phaseViolation(/no tool can continue/));
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Phase Machine - Transition table for WorkflowPhase
+ *
+ * Every tool that moves a project through its phases is listed once, with:
+ * - the phases it may run in
+ * - the artifacts it needs (decision matrix, Spec-Kit, POML state)
+ * - the phase it enters and the phases it marks complete
+ *
+ * The classic, NotebookLM and smart workflows all go through this table, so a
+ * tool called too early fails with the tool to call first, and a phase that was
+ * already passed has to be reopened explicitly with reopen_phase.
+ */
+
+import type { WorkflowPhase, WorkflowState } from '../modules/master-orchestrator.js';
+import { AppCreatorError, phaseOrderViolation } from './errors.js';
+
+/**
+ * Phases in workflow order
+ */
+export const PHASE_ORDER: readonly WorkflowPhase[] = [
+  'requirements',
+  'decision_matrix',
+  'spec_kit',
+  'backend_dev',
+  'api_testing',
+  'frontend_prompt',
+  'frontend_integration',
+  'bdd_testing',
+  'complete',
+];
+
+/**
+ * State fields a transition can depend on
+ */
+export type StateArtifact = 'decisionMatrix' | 'specKit' | 'pomlState';
+
+/**
+ * One row of the transition table
+ */
+export interface PhaseTransition {
+  /** Phases the tool may run in ("requirements" also covers projects without state) */
+  from: readonly WorkflowPhase[];
+  /** Artifacts that must exist on the state */
+  requires?: readonly StateArtifact[];
+  /** Phase entered afterwards (never moves a project backwards) */
+  to?: WorkflowPhase;
+  /** Phases marked complete afterwards */
+  completes?: readonly WorkflowPhase[];
+}
+
+const ARTIFACT_LABELS: Record<StateArtifact, string> = {
+  decisionMatrix: 'decision matrix',
+  specKit: 'Spec-Kit',
+  pomlState: 'POML state',
+};
+
+// Tools that produce each artifact
+const ARTIFACT_SOURCES: Record<StateArtifact, string[]> = {
+  decisionMatrix: ['start_project', 'start_project_with_notebook'],
+  specKit: ['approve_architecture', 'approve_architecture_with_notebook', 'create_project_from_analysis'],
+  pomlState: ['approve_architecture', 'approve_architecture_with_notebook', 'create_project_from_analysis'],
+};
+
+// Boolean flags owned by a phase, cleared when it is reopened
+const PHASE_FLAGS: Partial<Record<WorkflowPhase, 'postmanGenerated' | 'frontendPromptGenerated' | 'a2uiGenerated' | 'bddTestsGenerated'>> = {
+  api_testing: 'postmanGenerated',
+  frontend_prompt: 'frontendPromptGenerated',
+  frontend_integration: 'a2uiGenerated',
+  bdd_testing: 'bddTestsGenerated',
+};
+
+/**
+ * Phases from `first` to `last` (inclusive)
+ */
+function phaseRange(first: WorkflowPhase, last: WorkflowPhase = 'complete'): WorkflowPhase[] {
+  return PHASE_ORDER.slice(PHASE_ORDER.indexOf(first), PHASE_ORDER.indexOf(last) + 1);
+}
+
+/**
+ * Transition table shared by all workflows
+ */
+export const PHASE_TRANSITIONS = {
+  start_project: {
+    from: phaseRange('requirements', 'decision_matrix'),
+    to: 'decision_matrix',
+    completes: ['requirements'],
+  },
+  start_project_with_notebook: {
+    from: phaseRange('requirements', 'decision_matrix'),
+    to: 'decision_matrix',
+    completes: ['requirements'],
+  },
+  answer_followups: {
+    from: ['decision_matrix'],
+    requires: ['decisionMatrix'],
+  },
+  research_tech_stacks: {
+    from: ['decision_matrix'],
+    requires: ['decisionMatrix'],
+  },
+  approve_architecture: {
+    from: phaseRange('decision_matrix', 'spec_kit'),
+    requires: ['decisionMatrix'],
+    to: 'backend_dev',
+    completes: ['decision_matrix', 'spec_kit'],
+  },
+  approve_architecture_with_notebook: {
+    from: phaseRange('decision_matrix', 'spec_kit'),
+    requires: ['decisionMatrix'],
+    to: 'backend_dev',
+    completes: ['decision_matrix', 'spec_kit'],
+  },
+  create_project_from_analysis: {
+    from: ['requirements'],
+    to: 'complete',
+    completes: phaseRange('requirements', 'bdd_testing').filter(phase => phase !== 'frontend_integration'),
+  },
+  generate_api_tests: {
+    from: phaseRange('backend_dev'),
+    requires: ['specKit'],
+    to: 'api_testing',
+    completes: ['backend_dev'],
+  },
+  generate_frontend_prompt: {
+    from: phaseRange('backend_dev'),
+    requires: ['specKit'],
+    to: 'frontend_prompt',
+    completes: ['api_testing'],
+  },
+  generate_a2ui_frontend: {
+    from: phaseRange('backend_dev'),
+    requires: ['specKit'],
+    to: 'frontend_integration',
+    completes: ['frontend_prompt'],
+  },
+  generate_bdd_tests: {
+    from: phaseRange('backend_dev'),
+    requires: ['specKit'],
+    to: 'bdd_testing',
+    completes: ['frontend_integration'],
+  },
+  create_checkpoint: {
+    from: phaseRange('backend_dev'),
+    requires: ['pomlState'],
+  },
+  complete_task: {
+    from: phaseRange('backend_dev'),
+    requires: ['pomlState'],
+  },
+} as const satisfies Record<string, PhaseTransition>;
+
+/**
+ * Tool governed by the transition table
+ */
+export type PhaseTool = keyof typeof PHASE_TRANSITIONS;
+
+/**
+ * State type after a tool's required artifacts were checked
+ */
+export type StateFor<T extends PhaseTool> = WorkflowState & (
+  (typeof PHASE_TRANSITIONS)[T] extends { requires: readonly (infer A extends StateArtifact)[] }
+    ? { [K in A]-?: NonNullable<WorkflowState[K]> }
+    : unknown
+);
+
+/**
+ * Phase Machine Class
+ *
+ * Checks and applies transitions from PHASE_TRANSITIONS.
+ */
+export class PhaseMachine {
+  private transitions: Record<PhaseTool, PhaseTransition>;
+
+  constructor(transitions: Record<PhaseTool, PhaseTransition> = PHASE_TRANSITIONS) {
+    this.transitions = transitions;
+  }
+
+  /**
+   * Fail with PHASE_ORDER_VIOLATION unless the tool may run now
+   *
+   * @param state - Current state, or undefined for a project that has none yet
+   */
+  assertCanRun(tool: PhaseTool, state: WorkflowState | undefined): void {
+    const transition = this.transitions[tool];
+    const current = state?.currentPhase ?? 'requirements';
+    const projectName = state ? ` '${state.projectName}'` : '';
+
+    if (!transition.from.includes(current)) {
+      const earliest = transition.from[0];
+
+      if (PHASE_ORDER.indexOf(current) < PHASE_ORDER.indexOf(earliest)) {
+        throw phaseOrderViolation(
+          `"${tool}" needs phase ${earliest} or later, but project${projectName} is in phase ${current}.`,
+          state ? this.nextTools(state) : ['start_project', 'start_project_with_notebook', 'analyze_project_requirements']
+        );
+      }
+
+      throw new AppCreatorError(
+        'PHASE_ORDER_VIOLATION',
+        `"${tool}" runs in phase ${transition.from.join('/')}, but project${projectName} is already in phase ${current}.`,
+        {
+          hint: `Call "reopen_phase" with phase "${earliest}" to go back, then call "${tool}" again.`,
+          details: { prerequisiteTools: ['reopen_phase'], reopenPhase: earliest },
+        }
+      );
+    }
+
+    const missing = state ? (transition.requires ?? []).filter(artifact => !state[artifact]) : [];
+    if (missing.length > 0) {
+      throw phaseOrderViolation(
+        `"${tool}" needs the ${missing.map(a => ARTIFACT_LABELS[a]).join(' and ')}, which project${projectName} does not have yet.`,
+        [...new Set(missing.flatMap(a => ARTIFACT_SOURCES[a]))]
+      );
+    }
+  }
+
+  /**
+   * Check a tool against an existing state and return it with the required artifacts typed as present
+   */
+  require<T extends PhaseTool>(tool: T, state: WorkflowState): StateFor<T> {
+    this.assertCanRun(tool, state);
+    return state as StateFor<T>;
+  }
+
+  /**
+   * Record a finished tool: enter its phase and mark phases complete
+   */
+  apply(tool: PhaseTool, state: WorkflowState): void {
+    const transition = this.transitions[tool];
+
+    if (transition.to && PHASE_ORDER.indexOf(transition.to) > PHASE_ORDER.indexOf(state.currentPhase)) {
+      state.currentPhase = transition.to;
+    }
+
+    for (const phase of transition.completes ?? []) {
+      if (!state.completedPhases.includes(phase)) {
+        state.completedPhases.push(phase);
+      }
+    }
+
+    if (state.reopenedPhases) {
+      state.reopenedPhases = state.reopenedPhases.filter(phase => phase !== transition.to && !transition.completes?.includes(phase));
+      if (state.reopenedPhases.length === 0) {
+        delete state.reopenedPhases;
+      }
+    }
+  }
+
+  /**
+   * Whether a tool regenerates output of a phase reopened with reopen_phase
+   *
+   * Its AI calls then skip the response cache, so a rerun does not return the
+   * output that made the user go back.
+   */
+  regeneratesReopened(tool: string, state: WorkflowState | undefined): boolean {
+    if (!state?.reopenedPhases?.length || !Object.prototype.hasOwnProperty.call(this.transitions, tool)) {
+      return false;
+    }
+
+    const transition = this.transitions[tool as PhaseTool];
+    return [state.currentPhase, transition.to, ...(transition.completes ?? [])]
+      .some(phase => phase !== undefined && state.reopenedPhases!.includes(phase));
+  }
+
+  /**
+   * Tools that can move the project forward from its current phase
+   */
+  nextTools(state: WorkflowState): PhaseTool[] {
+    const current = PHASE_ORDER.indexOf(state.currentPhase);
+
+    return (Object.keys(this.transitions) as PhaseTool[]).filter(tool => {
+      const transition = this.transitions[tool];
+      return transition.to !== undefined
+        && PHASE_ORDER.indexOf(transition.to) > current
+        && transition.from.includes(state.currentPhase)
+        && (transition.requires ?? []).every(artifact => state[artifact]);
+    });
+  }
+
+  /**
+   * Go back to an earlier (or the current) phase
+   *
+   * Later phases are removed from completedPhases, their generated flags are
+   * cleared and any unfinished generation run is dropped. The reopened phases
+   * are remembered until a tool regenerates them.
+   *
+   * @returns Phases that were reopened
+   */
+  reopen(state: WorkflowState, phase: WorkflowPhase): WorkflowPhase[] {
+    const target = PHASE_ORDER.indexOf(phase);
+    const current = PHASE_ORDER.indexOf(state.currentPhase);
+
+    if (phase === 'complete' || target > current) {
+      throw new AppCreatorError(
+        'PHASE_ORDER_VIOLATION',
+        `Cannot reopen phase ${phase}: project '${state.projectName}' is in phase ${state.currentPhase}.`,
+        { hint: `Reopen one of: ${PHASE_ORDER.slice(0, Math.min(current + 1, PHASE_ORDER.length - 1)).join(', ')}.` }
+      );
+    }
+
+    if (this.nextTools({ ...state, currentPhase: phase }).length === 0) {
+      throw new AppCreatorError(
+        'PHASE_ORDER_VIOLATION',
+        `Cannot reopen phase ${phase}: no tool can continue from it for project '${state.projectName}'.`,
+        { hint: 'Reopen an earlier phase (e.g. "requirements") instead.' }
+      );
+    }
+
+    const reopened = PHASE_ORDER.slice(target, current + 1);
+
+    state.currentPhase = phase;
+    state.completedPhases = state.completedPhases.filter(p => PHASE_ORDER.indexOf(p) < target);
+    for (const reopenedPhase of reopened) {
+      const flag = PHASE_FLAGS[reopenedPhase];
+      if (flag) {
+        state[flag] = false;
+      }
+    }
+    delete state.generationRun;
+    state.reopenedPhases = [...new Set([...(state.reopenedPhases ?? []), ...reopened])];
+
+    return reopened;
+  }
+}
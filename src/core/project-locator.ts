@@ -0,0 +1,136 @@
+/**
+ * Project Locator - Where generated projects live on disk
+ *
+ * Single source of truth for project locations. The projects root is
+ * resolved in this order:
+ * 1. Per-call `output_dir` argument
+ * 2. APPCREATOR_PROJECTS_ROOT environment variable
+ * 3. `projectsRoot` in the config file (APPCREATOR_CONFIG or ~/.appcreator/config.json)
+ * 4. ~/appcreator-projects
+ *
+ * Project names are validated so they can never escape the root.
+ */
+
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { AppCreatorError } from './errors.js';
+import type { RoutingConfig } from '../adapters/routing-adapter.js';
+import type { AILogConfig } from './ai-audit-log.js';
+
+/**
+ * Contents of the AppCreator config file
+ */
+export interface AppCreatorConfig {
+  projectsRoot?: string;
+  // Per-module/task-class models and the provider fallback chain
+  ai?: RoutingConfig;
+  // Redaction and rotation of the AI audit log
+  aiLog?: AILogConfig;
+  // JSON or YAML file with extra stack knowledge base entries
+  stackKnowledgeFile?: string;
+}
+
+/**
+ * Allowed project name characters (no separators, no leading dot)
+ */
+const PROJECT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Project Locator Class
+ *
+ * Resolves project directories under a configurable root.
+ */
+export class ProjectLocator {
+  private projectsRoot: string;
+
+  constructor(projectsRoot: string) {
+    this.projectsRoot = resolve(projectsRoot);
+  }
+
+  /**
+   * Create a locator from environment variables and the config file
+   */
+  static fromEnvironment(env: NodeJS.ProcessEnv = process.env): ProjectLocator {
+    if (env.APPCREATOR_PROJECTS_ROOT) {
+      return new ProjectLocator(env.APPCREATOR_PROJECTS_ROOT);
+    }
+
+    const config = ProjectLocator.readConfig(env);
+    if (config.projectsRoot) {
+      return new ProjectLocator(config.projectsRoot);
+    }
+
+    return new ProjectLocator(join(homedir(), 'appcreator-projects'));
+  }
+
+  /**
+   * Read the config file (missing file means empty config)
+   */
+  static readConfig(env: NodeJS.ProcessEnv = process.env): AppCreatorConfig {
+    const configPath = env.APPCREATOR_CONFIG || join(homedir(), '.appcreator', 'config.json');
+    let raw: string;
+    try {
+      raw = readFileSync(configPath, 'utf-8');
+    } catch (error) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      throw new Error(
+        `Invalid AppCreator config file ${configPath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get the configured projects root
+   */
+  getProjectsRoot(): string {
+    return this.projectsRoot;
+  }
+
+  /**
+   * Resolve the directory of a project
+   *
+   * @param projectName - Project name (validated)
+   * @param outputDir - Optional per-call root overriding the configured one
+   */
+  resolveProjectPath(projectName: string, outputDir?: string): string {
+    ProjectLocator.validateProjectName(projectName);
+
+    const root = outputDir ? resolve(outputDir) : this.projectsRoot;
+    const projectPath = join(root, projectName);
+
+    const rel = relative(root, projectPath);
+    if (rel === '' || rel.startsWith('..') || isAbsolute(rel)) {
+      throw new AppCreatorError('INVALID_ARGUMENTS', `Project "${projectName}" resolves outside of ${root}`);
+    }
+
+    return projectPath;
+  }
+
+  /**
+   * Validate a project name
+   *
+   * Rejects empty names, absolute paths, path separators and "." / ".." segments.
+   */
+  static validateProjectName(projectName: string): void {
+    if (typeof projectName !== 'string' || projectName.trim() === '') {
+      throw new AppCreatorError('INVALID_ARGUMENTS', 'Project name is required');
+    }
+
+    if (isAbsolute(projectName) || projectName.includes('/') || projectName.includes('\\')) {
+      throw new AppCreatorError('INVALID_ARGUMENTS', `Invalid project name "${projectName}": must not contain path separators`);
+    }
+
+    if (projectName === '.' || projectName === '..' || !PROJECT_NAME_PATTERN.test(projectName)) {
+      throw new AppCreatorError(
+        'INVALID_ARGUMENTS',
+        `Invalid project name "${projectName}": use letters, digits, ".", "_" or "-" and start with a letter or digit`
+      );
+    }
+  }
+}
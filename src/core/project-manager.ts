@@ -0,0 +1,236 @@
+/**
+ * Project Manager - Discover, archive and delete generated projects
+ *
+ * Works on top of the WorkflowStateStore registry and the projects root:
+ * - list: every known project with phase, progress and last checkpoint
+ * - archive: snapshot a project into <projectsRoot>/.appcreator/archive/*.tar.gz
+ * - delete: two-step removal guarded by a short-lived confirmation token
+ */
+
+import { promises as fs } from 'fs';
+import { join, dirname, basename } from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { randomBytes } from 'crypto';
+import { ProjectLocator } from './project-locator.js';
+import { WorkflowStateStore } from './workflow-store.js';
+import { AppCreatorError } from './errors.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Summary of a project for listing
+ */
+export interface ProjectSummary {
+  projectName: string;
+  projectPath: string;
+  currentPhase: string;
+  progress: number;
+  tasksCompleted: number;
+  totalTasks: number;
+  lastCheckpointAt: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Pending deletion awaiting confirmation
+ */
+export interface DeletionRequest {
+  projectName: string;
+  projectPath: string;
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Project Manager Class
+ *
+ * Lifecycle operations for projects under the projects root.
+ */
+export class ProjectManager {
+  private projectLocator: ProjectLocator;
+  private workflowStore: WorkflowStateStore;
+  private pendingDeletions: Map<string, DeletionRequest> = new Map();
+
+  // Confirmation tokens expire after 5 minutes
+  private readonly DELETION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+  constructor(projectLocator: ProjectLocator, workflowStore: WorkflowStateStore) {
+    this.projectLocator = projectLocator;
+    this.workflowStore = workflowStore;
+  }
+
+  /**
+   * List all projects in the registry and under the projects root
+   */
+  async listProjects(): Promise<ProjectSummary[]> {
+    const registry = await this.workflowStore.loadRegistry();
+    const names = new Set(Object.keys(registry.projects));
+
+    // Pick up projects that exist on disk but were never registered (e.g. created before the registry)
+    const root = this.projectLocator.getProjectsRoot();
+    try {
+      const entries = await fs.readdir(root, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isDirectory() && this.isValidProjectName(entry.name)) {
+          if (await this.isProjectDirectory(join(root, entry.name))) {
+            names.add(entry.name);
+          }
+        }
+      }
+    } catch (error) {
+      // Projects root doesn't exist yet, nothing on disk
+    }
+
+    const summaries: ProjectSummary[] = [];
+    for (const projectName of [...names].sort()) {
+      summaries.push(await this.summarize(projectName, registry.projects[projectName]?.updatedAt ?? null));
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Archive a project into a gzipped tarball
+   *
+   * @returns Path of the created archive
+   */
+  async archiveProject(projectName: string): Promise<string> {
+    const projectPath = await this.requireProjectPath(projectName);
+
+    const archiveDir = join(this.projectLocator.getProjectsRoot(), '.appcreator', 'archive');
+    await fs.mkdir(archiveDir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archivePath = join(archiveDir, `${projectName}-${timestamp}.tar.gz`);
+
+    try {
+      await execFileAsync('tar', ['-czf', archivePath, '-C', dirname(projectPath), basename(projectPath)]);
+    } catch (error) {
+      console.error(`Error archiving project "${projectName}":`, error);
+      throw AppCreatorError.wrap(error, `Failed to archive project "${projectName}"`, 'FS_ERROR');
+    }
+
+    return archivePath;
+  }
+
+  /**
+   * Step 1 of deletion: issue a confirmation token
+   */
+  async requestDeletion(projectName: string): Promise<DeletionRequest> {
+    const projectPath = await this.requireProjectPath(projectName);
+
+    const request: DeletionRequest = {
+      projectName,
+      projectPath,
+      token: randomBytes(4).toString('hex'),
+      expiresAt: new Date(Date.now() + this.DELETION_TOKEN_TTL_MS).toISOString(),
+    };
+
+    this.pendingDeletions.set(projectName, request);
+    return request;
+  }
+
+  /**
+   * Step 2 of deletion: remove the project if the token matches
+   *
+   * @returns Path of the deleted project directory
+   */
+  async confirmDeletion(projectName: string, token: string): Promise<string> {
+    const request = this.pendingDeletions.get(projectName);
+
+    if (!request || request.token !== token) {
+      throw new AppCreatorError('INVALID_CONFIRMATION', `Invalid confirmation token for "${projectName}".`);
+    }
+
+    if (Date.parse(request.expiresAt) < Date.now()) {
+      this.pendingDeletions.delete(projectName);
+      throw new AppCreatorError('INVALID_CONFIRMATION', `Confirmation token for "${projectName}" expired.`);
+    }
+
+    this.pendingDeletions.delete(projectName);
+
+    // Under the project lock: waits for tool calls running on the project, later ones find it gone
+    await this.workflowStore.update(projectName, async draft => {
+      try {
+        await fs.rm(request.projectPath, { recursive: true, force: true });
+        await this.workflowStore.unregister(projectName);
+      } catch (error) {
+        console.error(`Error deleting project "${projectName}":`, error);
+        throw AppCreatorError.wrap(error, `Failed to delete project "${projectName}"`, 'FS_ERROR');
+      }
+
+      delete draft.workflowState;
+      delete draft.analysis;
+    });
+
+    return request.projectPath;
+  }
+
+  /**
+   * Build a listing summary from the persisted state
+   */
+  private async summarize(projectName: string, updatedAt: string | null): Promise<ProjectSummary> {
+    const projectPath = await this.workflowStore.getProjectPath(projectName);
+
+    let persisted = null;
+    try {
+      persisted = await this.workflowStore.load(projectName);
+    } catch (error) {
+      // Unreadable state: still list the project so it can be archived or deleted
+    }
+
+    const state = persisted?.workflowState;
+    const pomlState = state?.pomlState;
+
+    return {
+      projectName,
+      projectPath,
+      currentPhase: state?.currentPhase ?? (persisted?.analysis ? 'analysis' : 'unknown'),
+      progress: pomlState?.overallProgress ?? 0,
+      tasksCompleted: state?.tasksCompleted ?? 0,
+      totalTasks: state?.specKit?.tasks.length ?? 0,
+      lastCheckpointAt: pomlState?.currentCheckpoint?.timestamp ?? null,
+      updatedAt: persisted?.savedAt ?? updatedAt,
+    };
+  }
+
+  /**
+   * Resolve a project's directory and make sure it exists
+   */
+  private async requireProjectPath(projectName: string): Promise<string> {
+    const projectPath = await this.workflowStore.getProjectPath(projectName);
+
+    if (!(await this.isProjectDirectory(projectPath))) {
+      throw new AppCreatorError('PROJECT_NOT_FOUND', `Project '${projectName}' not found at ${projectPath}`, {
+        hint: 'Call "list_projects" to see known projects.',
+      });
+    }
+
+    return projectPath;
+  }
+
+  /**
+   * Check a directory name without throwing
+   */
+  private isValidProjectName(name: string): boolean {
+    try {
+      ProjectLocator.validateProjectName(name);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * A directory is a project if it holds AppCreator state
+   */
+  private async isProjectDirectory(dirPath: string): Promise<boolean> {
+    try {
+      const stat = await fs.stat(join(dirPath, '.appcreator'));
+      return stat.isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Project Prompts - Resume and kickoff prompts exposed as MCP prompts
+ *
+ * Renders the POML refresh-context and checkpoint-review templates live
+ * from a project's current POML state, so a client can pick them from its
+ * prompt menu instead of digging up .appcreator/continuation-prompt.txt:
+ *
+ *   resume_project     → context refresh after context loss
+ *   start_next_task    → kickoff for the next pending task
+ *   review_checkpoint  → quality review of the work since the last checkpoint
+ */
+
+import { WorkflowState } from '../modules/master-orchestrator.js';
+import { POMLState } from '../modules/poml-orchestrator.js';
+import { Task } from '../modules/spec-kit.js';
+import { ProjectResources } from './project-resources.js';
+import {
+  renderRefreshContextPOML,
+  formatNextTasksList,
+  createDefaultMemoryAnchors,
+} from '../templates/poml/refresh-context.poml.js';
+import {
+  renderCheckpointReviewPOML,
+  createDefaultProjectChecks,
+  type CheckpointReviewPOMLContext,
+} from '../templates/poml/checkpoint-review.poml.js';
+
+/**
+ * Prompt definition as listed to MCP clients
+ */
+export interface ProjectPromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: {
+    name: string;
+    description: string;
+    required: boolean;
+  }[];
+}
+
+/**
+ * A rendered prompt
+ */
+export interface RenderedProjectPrompt {
+  description: string;
+  messages: {
+    role: 'user';
+    content: { type: 'text'; text: string };
+  }[];
+}
+
+const PROJECT_NAME_ARGUMENT = {
+  name: 'project_name',
+  description: 'Name of the project',
+  required: true,
+};
+
+/**
+ * Prompts exposed per project
+ */
+export const PROJECT_PROMPTS: ProjectPromptDefinition[] = [
+  {
+    name: 'resume_project',
+    title: 'Resume Project',
+    description: 'Reload project context after context loss and continue where the last session stopped',
+    arguments: [PROJECT_NAME_ARGUMENT],
+  },
+  {
+    name: 'start_next_task',
+    title: 'Start Next Task',
+    description: 'Kick off the next pending task with its acceptance criteria and project constraints',
+    arguments: [PROJECT_NAME_ARGUMENT],
+  },
+  {
+    name: 'review_checkpoint',
+    title: 'Review Checkpoint',
+    description: 'Review the work done since the last checkpoint against the constitution',
+    arguments: [PROJECT_NAME_ARGUMENT],
+  },
+];
+
+// Same cadence as complete_task's auto-checkpoint
+const CHECKPOINT_INTERVAL = 20;
+
+const POML_PHASES = ['planning', 'setup', 'development', 'testing', 'deployment', 'complete'];
+
+/**
+ * Project Prompts Class
+ *
+ * Lists prompt definitions and renders them from workflow state.
+ */
+export class ProjectPrompts {
+  /**
+   * List available prompts
+   */
+  listPrompts(): ProjectPromptDefinition[] {
+    return PROJECT_PROMPTS;
+  }
+
+  /**
+   * Render a prompt for a project
+   */
+  getPrompt(name: string, state: WorkflowState): RenderedProjectPrompt {
+    const pomlState = state.pomlState;
+
+    if (!pomlState) {
+      throw new Error(
+        `Project '${state.projectName}' has no POML state yet. Run approve_architecture (or create_project_from_analysis) first.`
+      );
+    }
+
+    switch (name) {
+      case 'resume_project':
+        return this.toPrompt(`Resume ${state.projectName}`, this.renderResume(state, pomlState));
+      case 'start_next_task':
+        return this.toPrompt(`Next task for ${state.projectName}`, this.renderNextTask(state, pomlState));
+      case 'review_checkpoint':
+        return this.toPrompt(`Checkpoint review for ${state.projectName}`, this.renderReview(state, pomlState));
+      default:
+        throw new Error(`Unknown prompt: ${name}. Available: ${PROJECT_PROMPTS.map(p => p.name).join(', ')}`);
+    }
+  }
+
+  /**
+   * Context refresh prompt
+   */
+  private renderResume(state: WorkflowState, pomlState: POMLState): string {
+    const checkpoint = pomlState.currentCheckpoint;
+    const tasks = pomlState.specKit.tasks;
+    const completedIds = this.getCompletedTaskIds(state, pomlState);
+    const lastCompletedId = state.completedTaskIds[state.completedTaskIds.length - 1]
+      ?? checkpoint.completedTasks[checkpoint.completedTasks.length - 1];
+    const currentTask = this.findNextTask(state, pomlState);
+    const completed = state.tasksCompleted;
+    const constitution = pomlState.specKit.constitution;
+
+    const memoryAnchors = [...constitution.principles, ...constitution.constraints];
+    const warnings = [...checkpoint.issuesEncountered, ...state.issues];
+
+    const poml = renderRefreshContextPOML({
+      projectName: state.projectName,
+      currentTaskNumber: completed + 1,
+      totalTasks: tasks.length,
+      completedTasks: completed,
+      completionPercentage: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
+      remainingTasks: Math.max(0, tasks.length - completed),
+      tasksSinceRefresh: completed - state.lastCheckpointTask,
+      currentPhase: String(POML_PHASES.indexOf(checkpoint.phase) + 1),
+      totalPhases: POML_PHASES.length,
+      phaseProgress: Math.round(pomlState.overallProgress),
+      currentFeature: currentTask ? currentTask.title : 'None',
+      lastCompletedTask: lastCompletedId ? this.describeTask(pomlState, lastCompletedId) : 'None',
+      currentTask: currentTask ? `${currentTask.id}: ${currentTask.title}` : 'None',
+      memoryAnchors: memoryAnchors.length > 0
+        ? memoryAnchors
+        : createDefaultMemoryAnchors(this.getProjectType(state), this.getTechStack(pomlState)),
+      nextTasksList: formatNextTasksList(
+        tasks
+          .filter(t => !completedIds.has(t.id))
+          .sort((a, b) => a.priority - b.priority)
+          .slice(0, 5)
+          .map(t => ({ id: t.id, title: t.title, priority: `P${t.priority}` }))
+      ) || '    All tasks completed.',
+      warnings: warnings.length > 0 ? warnings.map(w => `    - ${w}`).join('\n') : 'No warnings or blockers detected.',
+      lastCheckpoint: state.lastCheckpointTask,
+      nextCheckpoint: state.lastCheckpointTask + CHECKPOINT_INTERVAL,
+      tasksUntilCheckpoint: Math.max(0, state.lastCheckpointTask + CHECKPOINT_INTERVAL - completed),
+      nextTaskNumber: completed + 1,
+    });
+
+    return `${poml}
+
+## Live Project State
+
+- **Workflow Phase:** ${state.currentPhase}
+- **POML Phase:** ${checkpoint.phase}
+- **Last Checkpoint:** ${checkpoint.id} (${checkpoint.timestamp})
+- **Estimated Completion:** ${pomlState.estimatedCompletion}
+
+### Last Checkpoint Summary
+${checkpoint.contextSummary}
+
+${this.renderDocumentLinks(state.projectName)}`;
+  }
+
+  /**
+   * Kickoff prompt for the next pending task
+   */
+  private renderNextTask(state: WorkflowState, pomlState: POMLState): string {
+    const task = this.findNextTask(state, pomlState);
+    const { constitution, technicalPlan } = pomlState.specKit;
+
+    if (!task) {
+      return `All ${pomlState.specKit.tasks.length} tasks of ${state.projectName} are completed. Run review_checkpoint for a final quality review.`;
+    }
+
+    const list = (items: string[] | undefined) =>
+      items && items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None';
+
+    return `# 🚀 ${state.projectName} - Task ${task.id}: ${task.title}
+
+You are continuing development of **${state.projectName}**.
+Architecture: ${technicalPlan.architecture.pattern}
+Tech stack: ${this.getTechStack(pomlState)}
+
+## Task
+**Type:** ${task.type} | **Priority:** P${task.priority} | **Estimate:** ${task.estimatedHours}h
+
+${task.description}
+
+### Dependencies
+${list(task.dependencies.map(id => this.describeTask(pomlState, id)))}
+
+### Subtasks
+${list(task.subtasks)}
+
+### Acceptance Criteria
+${list(task.acceptanceCriteria)}
+
+### Test Criteria
+${list(task.testCriteria)}
+
+## Constraints (from the constitution)
+${list(constitution.constraints)}
+
+### Code Standards
+${list(constitution.qualityStandards.code)}
+
+### Testing Standards
+${list(constitution.qualityStandards.testing)}
+
+## When Done
+Call \`complete_task\` with project_name "${state.projectName}" and task_id "${task.id}".
+
+${this.renderDocumentLinks(state.projectName)}`;
+  }
+
+  /**
+   * Checkpoint review prompt
+   */
+  private renderReview(state: WorkflowState, pomlState: POMLState): string {
+    const checkpoint = pomlState.currentCheckpoint;
+    const completed = state.tasksCompleted;
+    const startTask = state.lastCheckpointTask < completed ? state.lastCheckpointTask + 1 : Math.max(1, completed - CHECKPOINT_INTERVAL + 1);
+    const checks = createDefaultProjectChecks(this.getProjectType(state));
+    const coverageTarget = pomlState.specKit.technicalPlan.testingStrategy.coverage;
+    const toAssess = '(to assess)';
+
+    const nextCheckpointTask = state.lastCheckpointTask + CHECKPOINT_INTERVAL;
+
+    // Scores and verdicts are left out: the reviewer fills them in
+    const context: Partial<CheckpointReviewPOMLContext> = {
+      checkpointTaskNumber: completed,
+      startTask,
+      endTask: completed,
+      tasksReviewed: Math.max(0, completed - startTask + 1),
+      checkpointNumber: pomlState.checkpoints.length,
+      testCoverage: checkpoint.codeMetrics.coveragePercent,
+      languageNotes: '',
+      typescriptNotes: '',
+      testNotes: `Target coverage: ${coverageTarget}%`,
+      auditNotes: '',
+      projectSpecificChecks: checks.map(c => `- ${c.description} [${c.priority}]`).join('\n       '),
+      projectSpecificResults: checks.map(c => `    - ${c.description}: ${toAssess}`).join('\n'),
+      totalCheckpoints: pomlState.checkpoints.length,
+      issuesFound: checkpoint.issuesEncountered.length,
+      nextCheckpointTask,
+      tasksUntilNext: Math.max(0, nextCheckpointTask - completed),
+    };
+
+    const poml = renderCheckpointReviewPOML(context, toAssess);
+
+    // Tasks completed after the checkpoint, or the checkpoint's own if there are none yet
+    const checkpointed = new Set(pomlState.checkpoints.flatMap(cp => cp.completedTasks));
+    const sinceCheckpoint = state.completedTaskIds.filter(id => !checkpointed.has(id));
+    const reviewed = (sinceCheckpoint.length > 0 ? sinceCheckpoint : checkpoint.completedTasks).slice(-CHECKPOINT_INTERVAL);
+
+    return `${poml}
+
+## Live Project State
+
+### Tasks Completed Since Checkpoint ${checkpoint.id}
+${reviewed.length > 0 ? reviewed.map(id => `- ${this.describeTask(pomlState, id)}`).join('\n') : '- None recorded yet'}
+
+### Issues Encountered
+${checkpoint.issuesEncountered.length > 0 ? checkpoint.issuesEncountered.map(i => `- ${i}`).join('\n') : '- None'}
+
+Fill in every "${toAssess}" field of the report from the actual code.
+
+${this.renderDocumentLinks(state.projectName)}`;
+  }
+
+  /**
+   * Wrap text into a single user message
+   */
+  private toPrompt(description: string, text: string): RenderedProjectPrompt {
+    return {
+      description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+
+  /**
+   * Pointers to the project's artifacts as resources
+   */
+  private renderDocumentLinks(projectName: string): string {
+    return `## 📚 Project Documents
+- Constitution: ${ProjectResources.buildUri(projectName, 'constitution')}
+- Specification: ${ProjectResources.buildUri(projectName, 'spec')}
+- Technical Plan: ${ProjectResources.buildUri(projectName, 'plan')}
+- Tasks: ${ProjectResources.buildUri(projectName, 'tasks')}`;
+  }
+
+  /**
+   * Task IDs recorded by complete_task or included in a checkpoint
+   */
+  private getCompletedTaskIds(state: WorkflowState, pomlState: POMLState): Set<string> {
+    return new Set([...state.completedTaskIds, ...pomlState.checkpoints.flatMap(cp => cp.completedTasks)]);
+  }
+
+  /**
+   * Current task if still open, otherwise the highest-priority pending task
+   * whose dependencies are done
+   */
+  private findNextTask(state: WorkflowState, pomlState: POMLState): Task | undefined {
+    const completedIds = this.getCompletedTaskIds(state, pomlState);
+    const pending = pomlState.specKit.tasks
+      .filter(t => !completedIds.has(t.id))
+      .sort((a, b) => a.priority - b.priority);
+
+    const currentId = pomlState.currentCheckpoint.currentTask;
+    const current = pending.find(t => t.id === currentId);
+    if (current) {
+      return current;
+    }
+
+    return pending.find(t => t.dependencies.every(dep => completedIds.has(dep))) ?? pending[0];
+  }
+
+  private describeTask(pomlState: POMLState, taskId: string): string {
+    const task = pomlState.specKit.tasks.find(t => t.id === taskId);
+    return task ? `${task.id}: ${task.title}` : taskId;
+  }
+
+  private getProjectType(state: WorkflowState): string {
+    return state.decisionMatrix?.projectType ?? 'web';
+  }
+
+  private getTechStack(pomlState: POMLState): string {
+    return pomlState.specKit.technicalPlan.technologyStack.map(t => t.technology).join(', ') || 'Not specified';
+  }
+}
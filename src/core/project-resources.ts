@@ -0,0 +1,213 @@
+/**
+ * Project Resources - Generated artifacts exposed as MCP resources
+ *
+ * Maps each project's artifacts to stable URIs so clients can attach
+ * project context directly:
+ *
+ *   appcreator://<project>/constitution  → docs/CONSTITUTION.md
+ *   appcreator://<project>/spec          → docs/SPECIFICATION.md
+ *   appcreator://<project>/plan          → docs/TECHNICAL_PLAN.md
+ *   appcreator://<project>/tasks         → docs/TASKS.md
+ *   appcreator://<project>/poml-state    → .appcreator/state.json
+ *   appcreator://<project>/postman       → postman/collection.json
+ *   appcreator://<project>/a2ui          → frontend/a2ui-spec.json
+ *
+ * Only artifacts that exist on disk are listed.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ProjectManager } from './project-manager.js';
+import { WorkflowStateStore } from './workflow-store.js';
+
+/**
+ * Artifact definition
+ */
+export interface ArtifactDefinition {
+  key: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  pathSegments: string[];
+}
+
+/**
+ * A resource entry as listed to MCP clients
+ */
+export interface ProjectResource {
+  uri: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * Contents of a read resource
+ */
+export interface ProjectResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Artifacts exposed per project
+ */
+export const PROJECT_ARTIFACTS: ArtifactDefinition[] = [
+  {
+    key: 'constitution',
+    title: 'Constitution',
+    description: 'Project vision, principles and constraints',
+    mimeType: 'text/markdown',
+    pathSegments: ['docs', 'CONSTITUTION.md'],
+  },
+  {
+    key: 'spec',
+    title: 'Specification',
+    description: 'Functional requirements and acceptance criteria',
+    mimeType: 'text/markdown',
+    pathSegments: ['docs', 'SPECIFICATION.md'],
+  },
+  {
+    key: 'plan',
+    title: 'Technical Plan',
+    description: 'Architecture pattern and layers',
+    mimeType: 'text/markdown',
+    pathSegments: ['docs', 'TECHNICAL_PLAN.md'],
+  },
+  {
+    key: 'tasks',
+    title: 'Tasks',
+    description: 'Task breakdown with priorities and estimates',
+    mimeType: 'text/markdown',
+    pathSegments: ['docs', 'TASKS.md'],
+  },
+  {
+    key: 'poml-state',
+    title: 'POML State',
+    description: 'Checkpoints, progress and context summary',
+    mimeType: 'application/json',
+    pathSegments: ['.appcreator', 'state.json'],
+  },
+  {
+    key: 'postman',
+    title: 'Postman Collection',
+    description: 'API test collection',
+    mimeType: 'application/json',
+    pathSegments: ['postman', 'collection.json'],
+  },
+  {
+    key: 'a2ui',
+    title: 'A2UI Spec',
+    description: 'Declarative UI specification',
+    mimeType: 'application/json',
+    pathSegments: ['frontend', 'a2ui-spec.json'],
+  },
+];
+
+const URI_PATTERN = /^appcreator:\/\/([^/]+)\/([a-z0-9-]+)$/;
+
+/**
+ * Project Resources Class
+ *
+ * Lists, reads and fingerprints project artifacts.
+ */
+export class ProjectResources {
+  private projectManager: ProjectManager;
+  private workflowStore: WorkflowStateStore;
+
+  constructor(projectManager: ProjectManager, workflowStore: WorkflowStateStore) {
+    this.projectManager = projectManager;
+    this.workflowStore = workflowStore;
+  }
+
+  /**
+   * Build the URI of a project artifact
+   */
+  static buildUri(projectName: string, key: string): string {
+    return `appcreator://${projectName}/${key}`;
+  }
+
+  /**
+   * Split a URI into project name and artifact
+   */
+  static parseUri(uri: string): { projectName: string; artifact: ArtifactDefinition } {
+    const match = uri.match(URI_PATTERN);
+    const artifact = match ? PROJECT_ARTIFACTS.find(a => a.key === match[2]) : undefined;
+
+    if (!match || !artifact) {
+      throw new Error(
+        `Unknown resource URI: ${uri}. Expected appcreator://<project>/<${PROJECT_ARTIFACTS.map(a => a.key).join('|')}>`
+      );
+    }
+
+    return { projectName: decodeURIComponent(match[1]), artifact };
+  }
+
+  /**
+   * List all existing artifacts across all projects
+   */
+  async listResources(): Promise<ProjectResource[]> {
+    const resources: ProjectResource[] = [];
+
+    for (const project of await this.projectManager.listProjects()) {
+      for (const artifact of PROJECT_ARTIFACTS) {
+        if (await this.exists(join(project.projectPath, ...artifact.pathSegments))) {
+          resources.push({
+            uri: ProjectResources.buildUri(project.projectName, artifact.key),
+            name: `${project.projectName}/${artifact.key}`,
+            title: `${project.projectName} – ${artifact.title}`,
+            description: artifact.description,
+            mimeType: artifact.mimeType,
+          });
+        }
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * Read an artifact by URI
+   */
+  async readResource(uri: string): Promise<ProjectResourceContents> {
+    const { projectName, artifact } = ProjectResources.parseUri(uri);
+    const filePath = join(await this.workflowStore.getProjectPath(projectName), ...artifact.pathSegments);
+
+    try {
+      const text = await fs.readFile(filePath, 'utf-8');
+      return { uri, mimeType: artifact.mimeType, text };
+    } catch (error) {
+      throw new Error(`Resource ${uri} not available yet (${filePath} does not exist)`);
+    }
+  }
+
+  /**
+   * Fingerprint a project's artifacts (URI → mtime) for change detection
+   */
+  async snapshot(projectName: string): Promise<Map<string, number>> {
+    const fingerprints = new Map<string, number>();
+    const projectPath = await this.workflowStore.getProjectPath(projectName);
+
+    for (const artifact of PROJECT_ARTIFACTS) {
+      try {
+        const stat = await fs.stat(join(projectPath, ...artifact.pathSegments));
+        fingerprints.set(ProjectResources.buildUri(projectName, artifact.key), stat.mtimeMs);
+      } catch (error) {
+        // Artifact not generated yet
+      }
+    }
+
+    return fingerprints;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
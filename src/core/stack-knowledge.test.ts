@@ -0,0 +1,100 @@
+/**
+ * Stack knowledge lookup and user entries (node:test)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BUILT_IN_TECHNOLOGIES, STACK_KNOWLEDGE_VERSION, StackKnowledgeBase, TechnologyProfile } from './stack-knowledge.js';
+
+const HASURA: TechnologyProfile = {
+  id: 'hasura',
+  name: 'Hasura',
+  aliases: ['hasura graphql'],
+  category: 'backend',
+  licenceCost: 'freemium',
+  hosting: 'managed',
+  ecosystem: 'medium',
+  learningCurve: 'easy',
+  languages: ['graphql'],
+  scalability: 'high',
+  typed: true,
+};
+
+const ids = (lookup: { technologies: TechnologyProfile[] }) => lookup.technologies.map(t => t.id);
+
+describe('StackKnowledgeBase.lookup', () => {
+  const knowledge = new StackKnowledgeBase();
+
+  it('finds technologies by name or alias', () => {
+    const lookup = knowledge.lookup('ReactJS + Node + Postgres');
+
+    assert.deepEqual(ids(lookup).sort(), ['nodejs', 'postgresql', 'react']);
+    assert.deepEqual(lookup.unknown, []);
+  });
+
+  it('matches the longest name first', () => {
+    assert.deepEqual(ids(knowledge.lookup('React Native with Node.js')), ['react-native', 'nodejs']);
+  });
+
+  it('reports the parts no entry matches', () => {
+    const lookup = knowledge.lookup('Rust / Frobnicator & Widgets');
+
+    assert.deepEqual(ids(lookup), ['rust']);
+    assert.deepEqual(lookup.unknown, ['Frobnicator', 'Widgets']);
+  });
+});
+
+describe('StackKnowledgeBase entries', () => {
+  let root: string;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'appcreator-knowledge-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('adds and replaces entries, versioned next to the built-in ones', () => {
+    const knowledge = new StackKnowledgeBase([HASURA, { ...HASURA, id: 'react', name: 'React', aliases: [], licenceCost: 'paid' }], 'acme-3');
+
+    assert.equal(new StackKnowledgeBase().getVersion(), STACK_KNOWLEDGE_VERSION);
+    assert.equal(knowledge.getVersion(), `${STACK_KNOWLEDGE_VERSION}+acme-3`);
+    assert.equal(knowledge.getTechnologies().length, BUILT_IN_TECHNOLOGIES.length + 1);
+    assert.deepEqual(ids(knowledge.lookup('Hasura GraphQL + React')), ['hasura', 'react']);
+    assert.equal(knowledge.lookup('React').technologies[0].licenceCost, 'paid');
+  });
+
+  it('reads entries from a YAML file', async () => {
+    const path = join(root, 'stacks.yml');
+    await writeFile(path, [
+      'version: acme-3',
+      'technologies:',
+      '  - id: hasura',
+      '    name: Hasura',
+      '    category: backend',
+      '    licenceCost: freemium',
+      '    hosting: managed',
+      '    ecosystem: medium',
+      '    learningCurve: easy',
+      '    languages: [graphql]',
+      '    scalability: high',
+      '    typed: true',
+    ].join('\n'));
+
+    const knowledge = StackKnowledgeBase.fromFile(path);
+
+    assert.equal(knowledge.getVersion(), `${STACK_KNOWLEDGE_VERSION}+acme-3`);
+    assert.deepEqual(ids(knowledge.lookup('Hasura')), ['hasura']);
+  });
+
+  it('rejects files with invalid entries', async () => {
+    const path = join(root, 'stacks.json');
+    await writeFile(path, JSON.stringify({ technologies: [{ ...HASURA, hosting: 'cloud' }] }));
+
+    assert.throws(() => StackKnowledgeBase.fromFile(path), /Invalid stack knowledge file .*technologies\.0\.hosting/);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Stack Knowledge Base - Curated facts about technologies for stack scoring
+ *
+ * The DecisionMatrix scorers read structured attributes from here instead of
+ * counting keywords in the free-text pros/cons of a stack:
+ * - licence cost (free, freemium, paid)
+ * - hosting model (self-hosted, managed, serverless, client, any)
+ * - ecosystem size and learning curve
+ * - supported languages, scalability and static typing
+ *
+ * Technologies are found in a stack name by name or alias
+ * ("React + Node.js + PostgreSQL" → React, Node.js, PostgreSQL). Stacks with
+ * no known technology are scored with the keyword heuristics.
+ *
+ * Users add or override entries (same id) with a JSON or YAML file:
+ *
+ *   version: acme-3
+ *   technologies:
+ *     - id: hasura
+ *       name: Hasura
+ *       aliases: [hasura graphql]
+ *       category: backend
+ *       licenceCost: freemium
+ *       hosting: managed
+ *       ecosystem: medium
+ *       learningCurve: easy
+ *       languages: [graphql]
+ *       scalability: high
+ *       typed: true
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Version of the built-in entries (bump when an entry changes)
+ */
+export const STACK_KNOWLEDGE_VERSION = '1.0.0';
+
+export type TechnologyCategory = 'language' | 'frontend' | 'backend' | 'database' | 'mobile' | 'desktop' | 'platform' | 'tooling';
+export type LicenceCost = 'free' | 'freemium' | 'paid';
+export type HostingModel = 'self-hosted' | 'managed' | 'serverless' | 'client' | 'any';
+export type Level = 'low' | 'medium' | 'high';
+
+/**
+ * Curated attributes of one technology
+ */
+export interface TechnologyProfile {
+  id: string;
+  name: string;
+  // Other names it appears under in stack names (matched case-insensitively)
+  aliases?: string[];
+  category: TechnologyCategory;
+  licenceCost: LicenceCost;
+  hosting: HostingModel;
+  ecosystem: 'small' | 'medium' | 'large';
+  learningCurve: 'easy' | 'moderate' | 'steep';
+  languages: string[];
+  scalability: Level;
+  // Statically typed (or typed by default)
+  typed: boolean;
+}
+
+/**
+ * Technologies found in a stack name
+ */
+export interface StackLookup {
+  technologies: TechnologyProfile[];
+  // Parts of the name no entry matched
+  unknown: string[];
+}
+
+const technologySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)).optional(),
+  category: z.enum(['language', 'frontend', 'backend', 'database', 'mobile', 'desktop', 'platform', 'tooling']),
+  licenceCost: z.enum(['free', 'freemium', 'paid']),
+  hosting: z.enum(['self-hosted', 'managed', 'serverless', 'client', 'any']),
+  ecosystem: z.enum(['small', 'medium', 'large']),
+  learningCurve: z.enum(['easy', 'moderate', 'steep']),
+  languages: z.array(z.string().min(1)),
+  scalability: z.enum(['low', 'medium', 'high']),
+  typed: z.boolean(),
+}).strict();
+
+const knowledgeFileSchema = z.object({
+  version: z.union([z.string(), z.number()]).transform(String).optional(),
+  technologies: z.array(technologySchema),
+}).strict();
+
+type Entry = [id: string, name: string, aliases: string[], category: TechnologyCategory, licenceCost: LicenceCost,
+  hosting: HostingModel, ecosystem: TechnologyProfile['ecosystem'], learningCurve: TechnologyProfile['learningCurve'],
+  languages: string[], scalability: Level, typed: boolean];
+
+// Compact rows, expanded below
+const BUILT_IN_ENTRIES: Entry[] = [
+  // Languages
+  ['typescript', 'TypeScript', ['ts'], 'language', 'free', 'any', 'large', 'moderate', ['typescript', 'javascript'], 'medium', true],
+  ['javascript', 'JavaScript', ['js'], 'language', 'free', 'any', 'large', 'easy', ['javascript'], 'medium', false],
+  ['python', 'Python', [], 'language', 'free', 'any', 'large', 'easy', ['python'], 'medium', false],
+  ['go', 'Go', ['golang'], 'language', 'free', 'any', 'medium', 'easy', ['go'], 'high', true],
+  ['rust', 'Rust', [], 'language', 'free', 'any', 'medium', 'steep', ['rust'], 'high', true],
+  ['java', 'Java', [], 'language', 'free', 'any', 'large', 'moderate', ['java'], 'high', true],
+  ['kotlin', 'Kotlin', [], 'language', 'free', 'any', 'large', 'moderate', ['kotlin', 'java'], 'high', true],
+  ['swift', 'Swift', ['swiftui'], 'language', 'free', 'client', 'medium', 'moderate', ['swift'], 'medium', true],
+  ['csharp', 'C#', ['c sharp', 'csharp'], 'language', 'free', 'any', 'large', 'moderate', ['c#'], 'high', true],
+  ['php', 'PHP', [], 'language', 'free', 'any', 'large', 'easy', ['php'], 'medium', false],
+  ['ruby', 'Ruby', [], 'language', 'free', 'any', 'medium', 'easy', ['ruby'], 'medium', false],
+  ['dart', 'Dart', [], 'language', 'free', 'any', 'small', 'easy', ['dart'], 'medium', true],
+  ['elixir', 'Elixir', [], 'language', 'free', 'any', 'small', 'moderate', ['elixir'], 'high', false],
+
+  // Frontend
+  ['react', 'React', ['reactjs', 'react.js'], 'frontend', 'free', 'client', 'large', 'moderate', ['javascript', 'typescript'], 'medium', false],
+  ['nextjs', 'Next.js', ['next', 'nextjs'], 'frontend', 'free', 'serverless', 'large', 'moderate', ['javascript', 'typescript'], 'high', false],
+  ['vue', 'Vue', ['vue.js', 'vuejs'], 'frontend', 'free', 'client', 'large', 'easy', ['javascript', 'typescript'], 'medium', false],
+  ['nuxt', 'Nuxt', ['nuxt.js', 'nuxtjs'], 'frontend', 'free', 'serverless', 'medium', 'moderate', ['javascript', 'typescript'], 'high', false],
+  ['angular', 'Angular', [], 'frontend', 'free', 'client', 'large', 'steep', ['typescript'], 'medium', true],
+  ['svelte', 'Svelte', ['sveltekit'], 'frontend', 'free', 'client', 'medium', 'easy', ['javascript', 'typescript'], 'medium', false],
+  ['htmx', 'HTMX', [], 'frontend', 'free', 'client', 'small', 'easy', ['html'], 'medium', false],
+
+  // Backend
+  ['nodejs', 'Node.js', ['node', 'nodejs'], 'backend', 'free', 'self-hosted', 'large', 'easy', ['javascript', 'typescript'], 'high', false],
+  ['express', 'Express', ['express.js', 'expressjs'], 'backend', 'free', 'self-hosted', 'large', 'easy', ['javascript', 'typescript'], 'medium', false],
+  ['fastify', 'Fastify', [], 'backend', 'free', 'self-hosted', 'medium', 'easy', ['javascript', 'typescript'], 'high', false],
+  ['nestjs', 'NestJS', ['nest', 'nest.js'], 'backend', 'free', 'self-hosted', 'large', 'moderate', ['typescript'], 'high', true],
+  ['django', 'Django', [], 'backend', 'free', 'self-hosted', 'large', 'moderate', ['python'], 'medium', false],
+  ['flask', 'Flask', [], 'backend', 'free', 'self-hosted', 'large', 'easy', ['python'], 'medium', false],
+  ['fastapi', 'FastAPI', [], 'backend', 'free', 'self-hosted', 'medium', 'easy', ['python'], 'high', true],
+  ['rails', 'Ruby on Rails', ['rails', 'ror'], 'backend', 'free', 'self-hosted', 'large', 'moderate', ['ruby'], 'medium', false],
+  ['laravel', 'Laravel', [], 'backend', 'free', 'self-hosted', 'large', 'easy', ['php'], 'medium', false],
+  ['spring-boot', 'Spring Boot', ['spring'], 'backend', 'free', 'self-hosted', 'large', 'steep', ['java', 'kotlin'], 'high', true],
+  ['aspnet-core', 'ASP.NET Core', ['asp.net', '.net', 'dotnet'], 'backend', 'free', 'self-hosted', 'large', 'moderate', ['c#'], 'high', true],
+  ['phoenix', 'Phoenix', [], 'backend', 'free', 'self-hosted', 'small', 'moderate', ['elixir'], 'high', false],
+  ['grpc', 'gRPC', [], 'backend', 'free', 'any', 'medium', 'moderate', ['go', 'java', 'python', 'typescript', 'c#'], 'high', true],
+  ['graphql', 'GraphQL', ['apollo'], 'backend', 'free', 'any', 'large', 'moderate', ['javascript', 'typescript'], 'medium', true],
+
+  // Data
+  ['postgresql', 'PostgreSQL', ['postgres', 'postgresql'], 'database', 'free', 'self-hosted', 'large', 'moderate', ['sql'], 'high', true],
+  ['mysql', 'MySQL', ['mariadb'], 'database', 'free', 'self-hosted', 'large', 'easy', ['sql'], 'medium', true],
+  ['sqlite', 'SQLite', [], 'database', 'free', 'client', 'large', 'easy', ['sql'], 'low', true],
+  ['mongodb', 'MongoDB', ['mongo'], 'database', 'freemium', 'self-hosted', 'large', 'easy', ['javascript'], 'high', false],
+  ['redis', 'Redis', [], 'database', 'freemium', 'self-hosted', 'large', 'easy', [], 'high', false],
+  ['dynamodb', 'DynamoDB', ['dynamo'], 'database', 'paid', 'serverless', 'medium', 'moderate', [], 'high', false],
+  ['oracle-db', 'Oracle Database', ['oracle'], 'database', 'paid', 'self-hosted', 'medium', 'steep', ['sql', 'pl/sql'], 'high', true],
+  ['sql-server', 'SQL Server', ['mssql', 'microsoft sql server'], 'database', 'paid', 'self-hosted', 'medium', 'moderate', ['sql', 't-sql'], 'high', true],
+  ['firebase', 'Firebase', ['firestore'], 'platform', 'freemium', 'serverless', 'large', 'easy', ['javascript', 'typescript', 'dart'], 'high', false],
+  ['supabase', 'Supabase', [], 'platform', 'freemium', 'managed', 'medium', 'easy', ['sql', 'typescript'], 'high', true],
+  ['prisma', 'Prisma', [], 'tooling', 'free', 'any', 'large', 'easy', ['typescript'], 'medium', true],
+
+  // Mobile and desktop
+  ['react-native', 'React Native', [], 'mobile', 'free', 'client', 'large', 'moderate', ['javascript', 'typescript'], 'medium', false],
+  ['expo', 'Expo', [], 'mobile', 'freemium', 'client', 'medium', 'easy', ['javascript', 'typescript'], 'medium', false],
+  ['flutter', 'Flutter', [], 'mobile', 'free', 'client', 'large', 'moderate', ['dart'], 'medium', true],
+  ['electron', 'Electron', [], 'desktop', 'free', 'client', 'large', 'easy', ['javascript', 'typescript'], 'low', false],
+  ['tauri', 'Tauri', [], 'desktop', 'free', 'client', 'small', 'steep', ['rust', 'javascript', 'typescript'], 'medium', true],
+  ['dotnet-maui', '.NET MAUI', ['maui'], 'desktop', 'free', 'client', 'medium', 'steep', ['c#'], 'medium', true],
+
+  // Platforms and tooling
+  ['aws-lambda', 'AWS Lambda', ['lambda'], 'platform', 'paid', 'serverless', 'large', 'moderate', ['javascript', 'typescript', 'python', 'go', 'java'], 'high', false],
+  ['vercel', 'Vercel', [], 'platform', 'freemium', 'serverless', 'medium', 'easy', ['javascript', 'typescript'], 'high', false],
+  ['kubernetes', 'Kubernetes', ['k8s'], 'platform', 'free', 'self-hosted', 'large', 'steep', [], 'high', false],
+  ['docker', 'Docker', [], 'tooling', 'free', 'any', 'large', 'easy', [], 'medium', false],
+  ['commander', 'Commander', ['commander.js'], 'tooling', 'free', 'client', 'large', 'easy', ['javascript', 'typescript'], 'low', false],
+  ['cobra', 'Cobra', [], 'tooling', 'free', 'client', 'medium', 'easy', ['go'], 'low', true],
+  ['clap', 'Clap', [], 'tooling', 'free', 'client', 'medium', 'moderate', ['rust'], 'low', true],
+  ['tsup', 'tsup', [], 'tooling', 'free', 'any', 'medium', 'easy', ['typescript'], 'low', true],
+  ['vitest', 'Vitest', [], 'tooling', 'free', 'any', 'medium', 'easy', ['javascript', 'typescript'], 'low', false],
+  ['poetry', 'Poetry', [], 'tooling', 'free', 'any', 'medium', 'easy', ['python'], 'low', false],
+  ['pytest', 'pytest', [], 'tooling', 'free', 'any', 'large', 'easy', ['python'], 'low', false],
+  ['cargo', 'Cargo', [], 'tooling', 'free', 'any', 'medium', 'easy', ['rust'], 'low', true],
+];
+
+export const BUILT_IN_TECHNOLOGIES: TechnologyProfile[] = BUILT_IN_ENTRIES.map(
+  ([id, name, aliases, category, licenceCost, hosting, ecosystem, learningCurve, languages, scalability, typed]) =>
+    ({ id, name, aliases, category, licenceCost, hosting, ecosystem, learningCurve, languages, scalability, typed })
+);
+
+/**
+ * Stack Knowledge Base Class
+ *
+ * Built-in technologies plus user entries, looked up by name or alias.
+ */
+export class StackKnowledgeBase {
+  private technologies: Map<string, TechnologyProfile>;
+  private version: string;
+
+  /**
+   * @param extra - Entries added to (or replacing, by id) the built-in ones
+   * @param extraVersion - Version of the extra entries, shown next to the built-in version
+   */
+  constructor(extra: TechnologyProfile[] = [], extraVersion?: string) {
+    this.technologies = new Map([...BUILT_IN_TECHNOLOGIES, ...extra].map(technology => [technology.id, technology]));
+    this.version = extra.length > 0
+      ? `${STACK_KNOWLEDGE_VERSION}+${extraVersion ?? 'custom'}`
+      : STACK_KNOWLEDGE_VERSION;
+  }
+
+  /**
+   * Built-in entries plus those in a JSON or YAML file (.yaml/.yml are read as YAML)
+   *
+   * @throws Error if the file can't be read or has invalid entries
+   */
+  static fromFile(path: string): StackKnowledgeBase {
+    const raw = readFileSync(path, 'utf-8');
+    let parsed: unknown;
+    try {
+      parsed = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(raw) : JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid stack knowledge file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const result = knowledgeFileSchema.safeParse(parsed);
+    if (!result.success) {
+      const problems = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`Invalid stack knowledge file ${path}: ${problems.join('; ')}`);
+    }
+
+    return new StackKnowledgeBase(result.data.technologies, result.data.version);
+  }
+
+  /**
+   * Built-in version, plus "+<file version>" when user entries are loaded
+   */
+  getVersion(): string {
+    return this.version;
+  }
+
+  getTechnologies(): TechnologyProfile[] {
+    return [...this.technologies.values()];
+  }
+
+  /**
+   * Technologies named in a stack name
+   *
+   * The name is split on "+" (not in "C++"), ",", "/", "&", "and" and "with"; in each part the
+   * longest names and aliases are matched first, so "React Native" is not also
+   * counted as React.
+   */
+  lookup(stackName: string): StackLookup {
+    const terms = this.getTechnologies()
+      .flatMap(technology => [technology.name, ...(technology.aliases ?? [])].map(term => ({ term: term.toLowerCase(), technology })))
+      .sort((a, b) => b.term.length - a.term.length);
+    const found = new Map<string, TechnologyProfile>();
+    const unknown: string[] = [];
+
+    for (const part of stackName.split(/\s*\+\s*(?=[a-z.])|,|\/|\s&\s|\band\b|\bwith\b/i).map(part => part.trim()).filter(Boolean)) {
+      let rest = ` ${part.toLowerCase()} `;
+      let matched = false;
+
+      for (const { term, technology } of terms) {
+        const index = findTerm(rest, term);
+        if (index >= 0) {
+          found.set(technology.id, technology);
+          rest = rest.substring(0, index) + ' '.repeat(term.length) + rest.substring(index + term.length);
+          matched = true;
+        }
+      }
+
+      if (!matched) {
+        unknown.push(part);
+      }
+    }
+
+    return { technologies: [...found.values()], unknown };
+  }
+}
+
+/**
+ * Position of a term standing on its own in a text, or -1
+ */
+function findTerm(text: string, term: string): number {
+  let index = text.indexOf(term);
+  while (index >= 0) {
+    const before = text[index - 1] ?? ' ';
+    const after = text[index + term.length] ?? ' ';
+    if (!/[a-z0-9]/.test(before) && !/[a-z0-9+#]/.test(after)) {
+      return index;
+    }
+    index = text.indexOf(term, index + 1);
+  }
+  return -1;
+}
@@ -0,0 +1,65 @@
+/**
+ * Stream Forwarding - Live AI output during a tool call
+ *
+ * Technical plans, component files and other long generations take minutes
+ * to complete. While a tool call runs inside forwardStreams():
+ * - module AI calls are streamed instead of waiting for the full completion
+ * - every text delta is passed to the listener, tagged with the module and
+ *   the stream it belongs to
+ *
+ * The server turns the deltas into MCP log messages. Outside a scope, calls
+ * are not streamed.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AIStream } from '../adapters/ai-adapter.interface.js';
+import { tapStream } from '../adapters/streaming.js';
+
+/**
+ * A delta of one AI call (`done` marks the end of the call's stream)
+ */
+export interface StreamEvent {
+  streamId: number;
+  module: string;
+  delta: string;
+  done: boolean;
+}
+
+/**
+ * Receives the deltas of a tool call's AI calls (must not throw)
+ */
+export type StreamListener = (event: StreamEvent) => void;
+
+const streamListener = new AsyncLocalStorage<StreamListener>();
+let nextStreamId = 1;
+
+/**
+ * Run a function, streaming its AI calls to `listener`
+ */
+export async function forwardStreams<T>(listener: StreamListener, fn: () => Promise<T>): Promise<T> {
+  return await streamListener.run(listener, fn);
+}
+
+/**
+ * Whether AI calls should be streamed (inside a forwardStreams() scope)
+ */
+export function isForwardingStreams(): boolean {
+  return streamListener.getStore() !== undefined;
+}
+
+/**
+ * Report a module's stream to the enclosing forwardStreams() scope (pass-through outside one)
+ */
+export async function* forwardDeltas(module: string, stream: AIStream): AIStream {
+  const listener = streamListener.getStore();
+  if (!listener) {
+    return yield* stream;
+  }
+
+  const streamId = nextStreamId++;
+  try {
+    return yield* tapStream(stream, delta => listener({ streamId, module, delta, done: false }));
+  } finally {
+    listener({ streamId, module, delta: '', done: true });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Tool argument validation (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { listToolDefinitions, parseToolArguments, TOOL_SCHEMAS, toolProjectName, ToolArgumentsError } from './tool-schemas.js';
+
+describe('parseToolArguments', () => {
+  it('returns the typed input with defaults filled in', () => {
+    const input = parseToolArguments('start_project', {
+      project_name: 'shop',
+      project_type: 'web',
+      description: 'An online shop',
+      requirements: ['cart'],
+    });
+
+    assert.equal(input.max_rounds, 3);
+    assert.equal(input.bypass_cache, false);
+    assert.equal(input.output_dir, undefined);
+  });
+
+  it('lists every invalid field', () => {
+    assert.throws(
+      () => parseToolArguments('start_project', { project_type: 'game', description: '', requirements: 'cart' }),
+      (error: unknown) => {
+        assert.ok(error instanceof ToolArgumentsError);
+        assert.equal(error.code, 'INVALID_ARGUMENTS');
+        assert.equal(error.toolName, 'start_project');
+        assert.deepEqual(error.invalidFields.map(f => f.field), ['project_name', 'project_type', 'description', 'requirements']);
+        assert.equal(error.invalidFields[0].message, 'is required');
+        return true;
+      }
+    );
+    assert.throws(() => parseToolArguments('get_workflow_status', undefined), /project_name is required/);
+  });
+
+  it('checks what-if weights', () => {
+    assert.deepEqual(parseToolArguments('what_if_weights', { project_name: 'shop' }).weights, {});
+    assert.throws(() => parseToolArguments('what_if_weights', { project_name: 'shop', weights: { cost: 0.7, scalability: 0.5 } }), /sum to at most 1/);
+    assert.throws(() => parseToolArguments('what_if_weights', { project_name: 'shop', weights: { price: 0.2 } }), /weights/);
+  });
+});
+
+describe('tool definitions', () => {
+  it('publish a JSON schema with the required fields for every tool', () => {
+    const tools = listToolDefinitions();
+    const startProject = tools.find(tool => tool.name === 'start_project')!;
+
+    assert.deepEqual(tools.map(tool => tool.name), Object.keys(TOOL_SCHEMAS));
+    assert.equal(startProject.inputSchema.type, 'object');
+    assert.deepEqual(startProject.inputSchema.required, ['project_name', 'project_type', 'description', 'requirements']);
+  });
+
+  it('read a valid project_name even when other arguments are invalid', () => {
+    assert.equal(toolProjectName('generate_api_tests', { project_name: 'shop', bypass_cache: 'yes' }), 'shop');
+    assert.equal(toolProjectName('generate_api_tests', { project_name: '' }), undefined);
+    assert.equal(toolProjectName('no_such_tool', { project_name: 'shop' }), undefined);
+  });
+});
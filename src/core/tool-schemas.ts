@@ -0,0 +1,381 @@
+/**
+ * Tool Schemas - Single source of truth for MCP tool arguments
+ *
+ * Each tool's arguments are declared once as a zod schema, which provides:
+ * - the JSON `inputSchema` advertised by tools/list
+ * - runtime validation of incoming arguments (including enums)
+ * - the static input type of the tool's handler
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AppCreatorError } from './errors.js';
+
+/**
+ * Tool definition
+ */
+export interface ToolDefinition {
+  description: string;
+  input: z.ZodObject<z.ZodRawShape>;
+}
+
+/**
+ * A single invalid argument
+ */
+export interface InvalidField {
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when tool arguments fail validation
+ */
+export class ToolArgumentsError extends AppCreatorError {
+  readonly toolName: string;
+  readonly invalidFields: InvalidField[];
+
+  constructor(toolName: string, invalidFields: InvalidField[]) {
+    super(
+      'INVALID_ARGUMENTS',
+      `Invalid arguments for "${toolName}": ` +
+      invalidFields.map(f => `${f.field} ${f.message}`).join('; '),
+      { details: { invalidFields } }
+    );
+    this.name = 'ToolArgumentsError';
+    this.toolName = toolName;
+    this.invalidFields = invalidFields;
+  }
+}
+
+// Shared fields
+const projectName = z.string().min(1).describe('Name of the project');
+const projectType = z.enum(['web', 'api', 'cli', 'desktop', 'mobile', 'library']).describe('Project type');
+const criterionWeight = z.number().min(0).max(1).optional();
+const outputDir = z.string().min(1).optional().describe(
+  'Optional: Directory to create the project in. Defaults to APPCREATOR_PROJECTS_ROOT or the configured projects root.'
+);
+const bypassCache = z.boolean().default(false).describe(
+  'Skip the AI response cache and generate fresh output (the new responses replace the cached ones)'
+);
+const workflowPhase = z.enum([
+  'requirements',
+  'decision_matrix',
+  'spec_kit',
+  'backend_dev',
+  'api_testing',
+  'frontend_prompt',
+  'frontend_integration',
+  'bdd_testing',
+]);
+const decisionMatrixAnswers = z.array(
+  z.object({
+    questionId: z.string().min(1),
+    answer: z.union([z.string(), z.array(z.string())]),
+  })
+).describe("User's answers to decision matrix questions");
+const approvedAnswers = decisionMatrixAnswers.default([]).describe(
+  "User's answers to decision matrix questions (answers already given through answer_followups are kept)"
+);
+
+/**
+ * All tools exposed by the server
+ */
+export const TOOL_SCHEMAS = {
+  start_project: {
+    description: "PHASE 1: Start new project - gathers requirements and generates decision matrix with architecture options. User must review and answer questions before proceeding.",
+    input: z.object({
+      project_name: z.string().min(1).describe("Project name (e.g., 'task-manager-app')"),
+      project_type: projectType,
+      description: z.string().min(1).describe('Detailed project description explaining what the app should do'),
+      requirements: z.array(z.string()).describe('List of user requirements/features'),
+      output_dir: outputDir,
+      max_rounds: z.number().int().min(1).max(5).default(3).describe(
+        'Question rounds including the initial batch. answer_followups asks follow-up questions until no issues are left or this limit is reached (1 = no follow-ups)'
+      ),
+      bypass_cache: bypassCache,
+    }),
+  },
+  answer_followups: {
+    description: "PHASE 1 (multi-round): Submit answers to the open decision matrix questions. Once a round is fully answered, contradictions (e.g. Serverless + Self-hosted) and missing information are detected and targeted follow-up questions are asked, up to the project's round limit. Returns the issues, the new questions and the full Q&A tree. Call approve_architecture when no questions are open.",
+    input: z.object({
+      project_name: projectName,
+      answers: decisionMatrixAnswers,
+      bypass_cache: bypassCache,
+    }),
+  },
+  research_tech_stacks: {
+    description: "PHASE 1b (optional): Research 4-5 candidate tech stacks for a started project with the configured AI provider, score and rank them with the decision matrix criteria (scalability, maintainability, learning curve, ecosystem, cost, team fit, timeline fit). The ranking is saved with the decision matrix and guides approve_architecture.",
+    input: z.object({
+      project_name: projectName,
+      constraints: z.array(z.string()).default([]).describe('Constraints the stacks must respect (e.g. "Must run on AWS", "No paid licenses")'),
+      team_experience: z.array(z.string()).optional().describe('Technologies the team knows (e.g. ["react", "node"])'),
+      timeline_months: z.number().int().positive().optional().describe('Planned timeline in months (default 6)'),
+      budget_level: z.enum(['low', 'medium', 'high']).optional().describe('Budget level (default medium)'),
+      bypass_cache: bypassCache,
+    }),
+  },
+  what_if_weights: {
+    description: "Re-score a project's ranked tech stacks with other criteria weights (e.g. cost 0.4) and show how robust the top stack is: for each criterion, the weight range within which it stays on top, flagging criteria where a small weight change makes another stack the top one. Returns a Markdown report and the same data as JSON. Nothing is saved.",
+    input: z.object({
+      project_name: projectName,
+      weights: z.object({
+        scalability: criterionWeight,
+        maintainability: criterionWeight,
+        learning_curve: criterionWeight,
+        ecosystem: criterionWeight,
+        cost: criterionWeight,
+        team_fit: criterionWeight,
+        timeline_fit: criterionWeight,
+      }).strict().default({})
+        .refine(
+          weights => Object.keys(weights).length < 7 || Object.values(weights).some(weight => (weight ?? 0) > 0),
+          { message: 'At least one weight must be greater than 0' }
+        )
+        .refine(
+          weights => Object.keys(weights).length === 7 || Object.values(weights).reduce<number>((sum, weight) => sum + (weight ?? 0), 0) <= 1,
+          { message: 'The weights given must sum to at most 1 (the other criteria share the rest)' }
+        )
+        .describe('Weights to change, used as given (cost 0.4 = 40%); the other criteria share the rest in their current proportions. If all seven are given they are normalized to sum to 1. Empty = analyze the current weights'),
+      flip_threshold: z.number().min(0.01).max(0.5).default(0.05).describe('Weight change that counts as small when flagging fragile rankings (0.05 = 5 percentage points)'),
+    }),
+  },
+  approve_architecture: {
+    description: "PHASE 2: After user answers decision matrix questions and approves architecture choice. Generates complete Spec-Kit (Constitution, Specification, Technical Plan, Tasks) and POML files with context preservation system.",
+    input: z.object({
+      project_name: projectName,
+      decision_matrix_answers: approvedAnswers,
+      bypass_cache: bypassCache,
+    }),
+  },
+  generate_api_tests: {
+    description: "PHASE 3: Generate Postman collection and environments for API testing. Creates collection.json, dev/staging/prod environments, and Newman CLI test commands. User can test APIs manually in Postman or automatically with Newman CLI.",
+    input: z.object({
+      project_name: projectName,
+      bypass_cache: bypassCache,
+    }),
+  },
+  ask_frontend_questions: {
+    description: "PHASE 4a: Ask user questions about frontend preferences before generating prompt. Asks about platform (Google Stitch/Lovable/v0/Bolt), design style, colors, features needed.",
+    input: z.object({
+      project_name: projectName,
+    }),
+  },
+  generate_frontend_prompt: {
+    description: "PHASE 4b: Generate comprehensive frontend prompt for no-code platforms (Google Stitch, Lovable, v0.dev, Bolt.new). Creates detailed prompt with component breakdown, design system, API integration, and user flows. User can copy this prompt to their chosen platform.",
+    input: z.object({
+      project_name: projectName,
+      frontend_answers: z.record(z.string(), z.any()).describe(
+        "User's answers to frontend questions (platform, designStyle, colorScheme, primaryColor, features, uiFramework)"
+      ),
+      bypass_cache: bypassCache,
+    }),
+  },
+  generate_bdd_tests: {
+    description: "PHASE 5: Generate BDD/Cucumber/Gherkin tests for human-readable behavior specifications. Creates feature files, step definitions, and test configuration. Tests can be run with npm run test:bdd.",
+    input: z.object({
+      project_name: projectName,
+      bypass_cache: bypassCache,
+    }),
+  },
+  create_checkpoint: {
+    description: "CONTEXT PRESERVATION: Create checkpoint to prevent context loss. Call this every 20-25 completed tasks or when switching between major phases. Saves state to POML, generates continuation prompt for resuming after context loss.",
+    input: z.object({
+      project_name: projectName,
+      completed_task_ids: z.array(z.string()).describe(
+        "IDs of tasks completed since last checkpoint (e.g., ['T001', 'T002', 'T003'])"
+      ),
+      current_task_id: z.string().nullable().default(null).describe(
+        'ID of current task being worked on (or null if none)'
+      ),
+      issues_encountered: z.array(z.string()).default([]).describe('Any issues encountered since last checkpoint'),
+    }),
+  },
+  get_workflow_status: {
+    description: "Get complete workflow status including current phase, progress, completed tasks, next steps, and whether checkpoint is needed.",
+    input: z.object({
+      project_name: projectName,
+    }),
+  },
+  get_ai_log: {
+    description: "Show a project's AI audit log: the prompt sent to the model, the raw response, how it was parsed, latency, tokens and model of each AI call (secrets and personal data redacted). Newest calls first, optionally only those of one workflow phase or module.",
+    input: z.object({
+      project_name: projectName,
+      phase: workflowPhase.optional().describe('Only calls made for this workflow phase'),
+      module: z.string().min(1).optional().describe("Only calls made by this module (e.g. 'spec-kit', 'decision-matrix')"),
+      limit: z.number().int().min(1).max(200).default(20).describe('Maximum number of calls to return'),
+      include_content: z.boolean().default(false).describe('Return full prompts and responses instead of the first 500 characters'),
+    }),
+  },
+  complete_task: {
+    description: "Mark a task as complete and automatically create checkpoint if 20-25 tasks have been completed since last checkpoint. Updates progress tracking.",
+    input: z.object({
+      project_name: projectName,
+      task_id: z.string().min(1).describe("ID of completed task (e.g., 'T001')"),
+    }),
+  },
+  reopen_phase: {
+    description: "Go back to an earlier workflow phase, e.g. 'decision_matrix' to re-answer the decision matrix and approve again, or 'requirements' to start over. Later phases are marked incomplete; generated files are kept until they are regenerated.",
+    input: z.object({
+      project_name: projectName,
+      phase: workflowPhase.describe('Phase to reopen (must not be later than the current phase)'),
+    }),
+  },
+  start_project_with_notebook: {
+    description: "PHASE 1 (NotebookLM): Start new project using NotebookLM documentation as source. Alternative to start_project when you have pre-existing documentation. Fetches documentation from NotebookLM and generates decision matrix enriched with notebook content.",
+    input: z.object({
+      project_name: z.string().min(1).describe("Project name (e.g., 'real-estate-management')"),
+      project_type: projectType,
+      notebook_name: z.string().min(1).describe('Name of NotebookLM notebook to use as documentation source'),
+      additional_requirements: z.array(z.string()).default([]).describe('Optional additional requirements not in notebook'),
+      output_dir: outputDir,
+      bypass_cache: bypassCache,
+    }),
+  },
+  approve_architecture_with_notebook: {
+    description: "PHASE 2 (NotebookLM): After user answers decision matrix, generate Spec-Kit enriched with NotebookLM documentation. Combines notebook content with AI research for complete specifications.",
+    input: z.object({
+      project_name: projectName,
+      notebook_name: z.string().min(1).describe('Name of NotebookLM notebook used'),
+      decision_matrix_answers: approvedAnswers,
+      additional_requirements: z.array(z.string()).default([]).describe('Additional requirements'),
+      bypass_cache: bypassCache,
+    }),
+  },
+  generate_a2ui_frontend: {
+    description: "PHASE 4 (A2UI): Generate AI-powered frontend using Google's A2UI standard. Creates declarative UI spec, implementation code (React/Vue/etc.), and Google Stitch-compatible prompt. More advanced than traditional frontend_prompt.",
+    input: z.object({
+      project_name: projectName,
+      platform: z.enum(['web', 'mobile', 'desktop']).describe('Target platform'),
+      framework: z.enum(['react', 'vue', 'angular', 'native']).describe('Frontend framework'),
+      ui_library: z.enum(['material-ui', 'tailwind', 'chakra', 'ant-design', 'custom']).describe('UI component library'),
+      design_style: z.enum(['modern', 'minimal', 'professional', 'playful']).describe('Design aesthetic'),
+      color_scheme: z.enum(['light', 'dark', 'auto']).describe('Color scheme preference'),
+      primary_color: z.string().min(1).describe("Primary brand color (e.g., 'blue', 'green', '#3B82F6')"),
+      features: z.array(z.string()).default(['responsive', 'accessible']).describe(
+        "UI features (e.g., 'dark-mode-toggle', 'responsive', 'animations')"
+      ),
+      bypass_cache: bypassCache,
+    }),
+  },
+  analyze_project_requirements: {
+    description: "SMART WORKFLOW STEP 1: Analyze project requirements and get AI-driven recommendations. Automatically detects project scale, checks NotebookLM availability (graceful fallback), and generates technical recommendations (database, architecture, auth, frontend) with detailed rationale. User receives a comprehensive summary for single approval. NO technical decisions required from user - AI recommends optimal choices based on project needs.",
+    input: z.object({
+      project_name: z.string().min(1).describe("Project name (e.g., 'real-estate-tracker')"),
+      project_type: projectType,
+      description: z.string().min(1).describe('Detailed project description explaining what the app should do'),
+      features: z.array(z.string()).describe('List of required features'),
+      notebook_name: z.string().optional().describe(
+        'Optional: NotebookLM notebook name for documentation-based generation. If not available or not provided, system gracefully falls back to standard AI generation.'
+      ),
+      expected_users: z.number().int().nonnegative().optional().describe(
+        'Optional: Expected number of concurrent users (helps with scale detection). If not provided, AI will infer from description.'
+      ),
+      data_volume: z.enum(['small', 'medium', 'large', 'massive']).optional().describe(
+        'Optional: Expected data volume. If not provided, AI will infer from description.'
+      ),
+      branches: z.array(z.string()).default([]).describe(
+        'Optional: Geographic branches/locations (helps determine if distributed architecture needed)'
+      ),
+      output_dir: outputDir,
+      bypass_cache: bypassCache,
+    }),
+  },
+  create_project_from_analysis: {
+    description: "SMART WORKFLOW STEP 2: Execute project creation after user approves AI recommendations. Generates complete Spec-Kit with recommended architecture, implements all phases (backend, API tests, A2UI frontend, BDD tests), and preserves context. Call this after analyze_project_requirements and user approval.",
+    input: z.object({
+      project_name: z.string().min(1).describe(
+        'Name of the project (must match the one from analyze_project_requirements)'
+      ),
+      approved: z.boolean().describe('User approval confirmation (true to proceed, false to cancel)'),
+      bypass_cache: bypassCache,
+    }),
+  },
+  list_projects: {
+    description: "PROJECT MANAGEMENT: List all projects known to the server (registry + projects root) with current phase, progress percentage and last checkpoint time.",
+    input: z.object({}),
+  },
+  archive_project: {
+    description: "PROJECT MANAGEMENT: Archive a project into a .tar.gz snapshot under <projects root>/.appcreator/archive. The project itself is left untouched.",
+    input: z.object({
+      project_name: projectName,
+    }),
+  },
+  delete_project: {
+    description: "PROJECT MANAGEMENT: Permanently delete a project directory. Call once without confirmation_token to receive a token, then call again with the token (valid 5 minutes) to delete. Consider archive_project first.",
+    input: z.object({
+      project_name: projectName,
+      confirmation_token: z.string().optional().describe('Token returned by the first delete_project call'),
+    }),
+  },
+} satisfies Record<string, ToolDefinition>;
+
+/**
+ * Name of a registered tool
+ */
+export type ToolName = keyof typeof TOOL_SCHEMAS;
+
+/**
+ * Validated input of a tool handler
+ */
+export type ToolInput<K extends ToolName> = z.output<(typeof TOOL_SCHEMAS)[K]['input']>;
+
+/**
+ * Tool list for tools/list, with JSON schemas generated from the zod schemas
+ */
+export function listToolDefinitions(): Tool[] {
+  return (Object.keys(TOOL_SCHEMAS) as ToolName[]).map(name => {
+    const { $schema, ...inputSchema } = zodToJsonSchema(TOOL_SCHEMAS[name].input, {
+      $refStrategy: 'none',
+    }) as Record<string, unknown>;
+
+    return {
+      name,
+      description: TOOL_SCHEMAS[name].description,
+      inputSchema: inputSchema as Tool['inputSchema'],
+    };
+  });
+}
+
+/**
+ * Validate tool arguments and return the typed input
+ *
+ * @throws ToolArgumentsError listing every invalid field
+ */
+export function parseToolArguments<K extends ToolName>(name: K, args: unknown): ToolInput<K> {
+  const result = TOOL_SCHEMAS[name].input.safeParse(args ?? {});
+
+  if (!result.success) {
+    throw new ToolArgumentsError(name, result.error.issues.map(issue => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : '(arguments)',
+      message: issue.code === 'invalid_type' && issue.received === 'undefined'
+        ? 'is required'
+        : issue.message,
+    })));
+  }
+
+  return result.data as ToolInput<K>;
+}
+
+/**
+ * Validated value of one tool call argument
+ *
+ * @returns undefined if the tool has no such argument or the value is invalid
+ */
+export function toolArgument(name: string, args: unknown, field: string): unknown {
+  if (!Object.prototype.hasOwnProperty.call(TOOL_SCHEMAS, name)) {
+    return undefined;
+  }
+
+  const schema = (TOOL_SCHEMAS[name as ToolName].input as z.AnyZodObject).shape[field] as z.ZodTypeAny | undefined;
+  const result = schema?.safeParse((args as Record<string, unknown> | undefined)?.[field]);
+  return result?.success ? result.data : undefined;
+}
+
+/**
+ * Validated project_name argument of a tool call
+ */
+export function toolProjectName(name: string, args: unknown): string | undefined {
+  const projectName = toolArgument(name, args, 'project_name');
+  return typeof projectName === 'string' ? projectName : undefined;
+}
@@ -0,0 +1,83 @@
+/**
+ * Usage ledgers, prices and the AI budget (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertWithinBudget, createUsageLedger, formatUsd, mergeUsageLedgers, PriceTable, recordUsage, trackUsage, UsageScope } from './usage.js';
+import { AppCreatorError } from './errors.js';
+
+function scope(extra: Partial<UsageScope> = {}): UsageScope {
+  return { projectName: 'shop', prices: new PriceTable(), ledger: createUsageLedger(), spentUsd: 0, ...extra };
+}
+
+describe('PriceTable', () => {
+  it('matches the longest model-name prefix and bills nothing for local models', () => {
+    const prices = new PriceTable({ 'my-model': { input: 1, output: 2 } });
+
+    assert.deepEqual(prices.lookup('openai', 'gpt-4o-mini-2024-07-18'), { input: 0.15, output: 0.6 });
+    assert.deepEqual(prices.lookup('anthropic', 'claude-sonnet-4-20250514'), { input: 3, output: 15 });
+    assert.deepEqual(prices.lookup('openai', 'my-model-v2'), { input: 1, output: 2 });
+    assert.deepEqual(prices.lookup('local', 'llama3.1'), { input: 0, output: 0 });
+    assert.equal(prices.lookup('openai', 'unknown-model'), undefined);
+  });
+});
+
+describe('recordUsage', () => {
+  it('accounts calls by phase and module within a trackUsage scope', async () => {
+    const usage = scope();
+    recordUsage({ module: 'spec-kit', phase: 'spec_kit', provider: 'openai', model: 'gpt-4o', usage: { inputTokens: 1, outputTokens: 1 } });
+
+    await trackUsage(usage, async () => {
+      recordUsage({ module: 'spec-kit', phase: 'spec_kit', provider: 'openai', model: 'gpt-4o', usage: { inputTokens: 1_000_000, outputTokens: 100_000 } });
+      recordUsage({ module: 'bdd-generator', phase: 'bdd_testing', provider: 'openai', model: 'gpt-4o', usage: { inputTokens: 0, outputTokens: 0 }, cached: true });
+      recordUsage({ module: 'bdd-generator', phase: 'bdd_testing', provider: 'custom', model: 'mystery', usage: { inputTokens: 10, outputTokens: 10 } });
+    });
+
+    const { total, byPhase, byModule, unpricedModels, models } = usage.ledger;
+    assert.deepEqual(total, { calls: 3, cacheHits: 1, inputTokens: 1_000_010, outputTokens: 100_010, costUsd: 3.5 });
+    assert.equal(byPhase.spec_kit?.costUsd, 3.5);
+    assert.equal(byModule['bdd-generator'].calls, 2);
+    assert.deepEqual(unpricedModels, ['custom/mystery']);
+    assert.deepEqual(models['bdd-generator'], ['openai/gpt-4o', 'custom/mystery']);
+  });
+
+  it('adds ledgers, replacing the models recorded for a module', () => {
+    const earlier = scope();
+    const later = scope();
+    earlier.ledger.total.calls = 2;
+    earlier.ledger.models = { 'spec-kit': ['openai/gpt-4o'], research: ['openai/gpt-4o'] };
+    later.ledger.total.calls = 1;
+    later.ledger.models = { 'spec-kit': ['local/llama3.1'] };
+
+    const merged = mergeUsageLedgers(earlier.ledger, later.ledger);
+
+    assert.equal(merged.total.calls, 3);
+    assert.deepEqual(merged.models, { 'spec-kit': ['local/llama3.1'], research: ['openai/gpt-4o'] });
+  });
+});
+
+describe('assertWithinBudget', () => {
+  it('fails once the earlier and current spend reach the budget', async () => {
+    assert.doesNotThrow(() => assertWithinBudget());
+    await trackUsage(scope({ spentUsd: 100 }), async () => assertWithinBudget());
+
+    const usage = scope({ spentUsd: 0.9, budgetUsd: 1 });
+    await trackUsage(usage, async () => {
+      assertWithinBudget();
+      usage.ledger.total.costUsd = 0.1;
+      assert.throws(() => assertWithinBudget(), (error: unknown) => {
+        assert.ok(error instanceof AppCreatorError);
+        assert.equal(error.code, 'BUDGET_EXCEEDED');
+        assert.match(error.message, /\$1\.00 for project 'shop'/);
+        return true;
+      });
+    });
+  });
+
+  it('formats sub-cent amounts with four decimals', () => {
+    assert.equal(formatUsd(12.345), '$12.35');
+    assert.equal(formatUsd(0.0042), '$0.0042');
+    assert.equal(formatUsd(0), '$0.00');
+  });
+});
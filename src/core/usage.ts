@@ -0,0 +1,240 @@
+/**
+ * Usage - Token and cost accounting for AI calls
+ *
+ * Every AI call made by a module is reported with:
+ * - the module that made it (spec-kit, bdd-generator, ...)
+ * - the workflow phase its output belongs to
+ * - the input/output tokens returned by the provider
+ * - the provider/model that actually answered (after routing and fallback)
+ *
+ * Calls are priced from a per-model table and added to a ledger that the
+ * server keeps per project. Responses served from the cache count as calls
+ * (and cache hits) without tokens. A budget (AI_BUDGET_USD) stops further calls
+ * once the project's spend reaches it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AppCreatorError } from './errors.js';
+import type { TokenUsage } from '../adapters/ai-adapter.interface.js';
+import type { WorkflowPhase } from '../modules/master-orchestrator.js';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices, matched by longest model-name prefix
+ * (so "claude-sonnet-4-20250514" uses "claude-sonnet-4")
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+// Providers that never bill (local servers, recorded fixtures)
+const FREE_PROVIDERS = new Set(['local', 'replay']);
+
+/**
+ * Price Table Class
+ *
+ * Default list prices plus overrides (AI_PRICES) for other models.
+ */
+export class PriceTable {
+  private prices: Record<string, ModelPrice>;
+
+  constructor(overrides: Record<string, ModelPrice> = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  }
+
+  /**
+   * Price of a model, or undefined if it is not in the table
+   */
+  lookup(provider: string, model: string): ModelPrice | undefined {
+    if (FREE_PROVIDERS.has(provider)) {
+      return { input: 0, output: 0 };
+    }
+
+    const name = model.toLowerCase();
+    const match = Object.keys(this.prices)
+      .filter(prefix => name.startsWith(prefix.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return match ? this.prices[match] : undefined;
+  }
+}
+
+/**
+ * Accumulated calls, tokens and cost
+ */
+export interface UsageTotals {
+  calls: number;
+  // Calls served from the response cache
+  cacheHits: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * A project's usage, in total and broken down by phase and module
+ */
+export interface UsageLedger {
+  total: UsageTotals;
+  byPhase: Partial<Record<WorkflowPhase, UsageTotals>>;
+  byModule: Record<string, UsageTotals>;
+  // Models without a price (their calls count as $0)
+  unpricedModels: string[];
+  // "provider/model" that produced each module's latest output
+  models: Record<string, string[]>;
+}
+
+/**
+ * One metered AI call
+ */
+export interface UsageRecord {
+  module: string;
+  phase: WorkflowPhase;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  cached?: boolean;
+}
+
+/**
+ * Where the calls of one tool call are accounted
+ */
+export interface UsageScope {
+  projectName: string;
+  prices: PriceTable;
+  // Usage of this tool call
+  ledger: UsageLedger;
+  // Spend recorded for the project before this tool call
+  spentUsd: number;
+  // No limit when undefined or 0
+  budgetUsd?: number;
+}
+
+/**
+ * Empty ledger
+ */
+export function createUsageLedger(): UsageLedger {
+  return { total: emptyTotals(), byPhase: {}, byModule: {}, unpricedModels: [], models: {} };
+}
+
+/**
+ * Add one ledger into another (module models are replaced, not added)
+ */
+export function mergeUsageLedgers(target: UsageLedger, source: UsageLedger): UsageLedger {
+  addTotals(target.total, source.total);
+
+  for (const [phase, totals] of Object.entries(source.byPhase) as [WorkflowPhase, UsageTotals][]) {
+    addTotals(target.byPhase[phase] ??= emptyTotals(), totals);
+  }
+  for (const [module, totals] of Object.entries(source.byModule)) {
+    addTotals(target.byModule[module] ??= emptyTotals(), totals);
+  }
+  target.unpricedModels = [...new Set([...target.unpricedModels, ...source.unpricedModels])];
+  // A module's latest tool call replaces the models recorded for it
+  target.models = { ...target.models, ...source.models };
+
+  return target;
+}
+
+const usageScope = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Run a function and account the AI calls made during it in `scope.ledger`
+ *
+ * The ledger is filled as calls finish, so it is complete even if fn throws.
+ */
+export async function trackUsage<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+  return await usageScope.run(scope, fn);
+}
+
+/**
+ * Account a finished AI call in the enclosing trackUsage() scope (no-op outside one)
+ */
+export function recordUsage(record: UsageRecord): void {
+  const scope = usageScope.getStore();
+  if (!scope) {
+    return;
+  }
+
+  const label = `${record.provider}/${record.model}`;
+  const price = scope.prices.lookup(record.provider, record.model);
+  const totals: UsageTotals = {
+    calls: 1,
+    cacheHits: record.cached ? 1 : 0,
+    inputTokens: record.usage.inputTokens,
+    outputTokens: record.usage.outputTokens,
+    costUsd: price
+      ? (record.usage.inputTokens * price.input + record.usage.outputTokens * price.output) / 1_000_000
+      : 0,
+  };
+
+  mergeUsageLedgers(scope.ledger, {
+    total: totals,
+    byPhase: { [record.phase]: totals },
+    byModule: { [record.module]: totals },
+    unpricedModels: price ? [] : [label],
+    models: { [record.module]: [...new Set([...(scope.ledger.models[record.module] ?? []), label])] },
+  });
+}
+
+/**
+ * Fail with BUDGET_EXCEEDED if the project's spend has reached its budget
+ *
+ * Checked before every AI call and before every generation step.
+ */
+export function assertWithinBudget(): void {
+  const scope = usageScope.getStore();
+  if (!scope?.budgetUsd) {
+    return;
+  }
+
+  const spentUsd = scope.spentUsd + scope.ledger.total.costUsd;
+  if (spentUsd >= scope.budgetUsd) {
+    throw new AppCreatorError(
+      'BUDGET_EXCEEDED',
+      `AI budget of ${formatUsd(scope.budgetUsd)} for project '${scope.projectName}' is used up (spent ${formatUsd(spentUsd)}).`,
+      { details: { budgetUsd: scope.budgetUsd, spentUsd } }
+    );
+  }
+}
+
+/**
+ * Format a USD amount (sub-cent amounts keep 4 decimals)
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount > 0 && amount < 0.01 ? 4 : 2)}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, cacheHits: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.calls += source.calls;
+  target.cacheHits += source.cacheHits;
+  target.inputTokens += source.inputTokens;
+  target.outputTokens += source.outputTokens;
+  target.costUsd += source.costUsd;
+}
@@ -0,0 +1,141 @@
+/**
+ * WorkflowStateStore locking and migrations (node:test)
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ProjectLocator } from './project-locator.js';
+import { WorkflowStateStore, WORKFLOW_STATE_SCHEMA_VERSION } from './workflow-store.js';
+import { createUsageLedger } from './usage.js';
+import type { WorkflowState } from '../modules/master-orchestrator.js';
+
+function workflowState(root: string, projectName: string): WorkflowState {
+  return {
+    projectName,
+    projectPath: join(root, projectName),
+    currentPhase: 'backend_dev',
+    completedPhases: [],
+    requirements: [],
+    postmanGenerated: false,
+    frontendPromptGenerated: false,
+    bddTestsGenerated: false,
+    tasksCompleted: 0,
+    lastCheckpointTask: 0,
+    completedTaskIds: [],
+    issues: [],
+    a2uiGenerated: false,
+  };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('WorkflowStateStore', () => {
+  let root: string;
+  let store: WorkflowStateStore;
+
+  before(async () => {
+    root = await mkdtemp(join(tmpdir(), 'appcreator-store-'));
+    store = new WorkflowStateStore(new ProjectLocator(root));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('runs overlapping updates of a project one after the other', async () => {
+    await store.save('shop', { workflowState: workflowState(root, 'shop') });
+
+    await Promise.all(['task-1', 'task-2', 'task-3'].map(taskId =>
+      store.update('shop', async draft => {
+        const state = draft.workflowState!;
+        await tick();
+        state.completedTaskIds = [...state.completedTaskIds, taskId];
+        state.tasksCompleted++;
+      })
+    ));
+
+    const state = (await store.load('shop'))?.workflowState;
+    assert.equal(state?.tasksCompleted, 3);
+    assert.deepEqual([...state!.completedTaskIds].sort(), ['task-1', 'task-2', 'task-3']);
+  });
+
+  it('lets a save within an update write right away', async () => {
+    await store.save('blog', { workflowState: workflowState(root, 'blog') });
+
+    await store.update('blog', async draft => {
+      draft.workflowState!.currentPhase = 'api_testing';
+      await store.save('blog', { workflowState: draft.workflowState });
+      assert.equal((await store.load('blog'))?.workflowState?.currentPhase, 'api_testing');
+    });
+  });
+
+  it('saves nothing when the mutator throws or empties the draft', async () => {
+    await store.save('wiki', { workflowState: workflowState(root, 'wiki') });
+
+    await assert.rejects(store.update('wiki', async draft => {
+      draft.workflowState!.tasksCompleted = 99;
+      throw new Error('generation failed');
+    }));
+    assert.equal((await store.load('wiki'))?.workflowState?.tasksCompleted, 0);
+
+    const saved = await store.update('unknown', async draft => draft.workflowState);
+    assert.equal(saved, undefined);
+    assert.equal(await store.load('unknown'), null);
+  });
+
+  it('keeps concurrent usage and registry updates', async () => {
+    await Promise.all([...Array(10)].map(() => {
+      const ledger = createUsageLedger();
+      ledger.total.calls = 1;
+      return store.addUsage('shop', ledger);
+    }));
+    await Promise.all(['a', 'b', 'c'].map(name => store.save(name, { workflowState: workflowState(root, name) })));
+
+    assert.equal((await store.load('shop'))?.usage?.total.calls, 10);
+    assert.deepEqual(
+      Object.keys((await store.loadRegistry()).projects).sort(),
+      ['a', 'b', 'blog', 'c', 'shop', 'wiki']
+    );
+  });
+
+  it('migrates a v1 state file to the current schema', async () => {
+    const { completedTaskIds, ...state } = workflowState(root, 'legacy');
+    const run = { tool: 'approve_architecture', inputHash: 'abc', startedAt: '', updatedAt: '', completedSteps: ['spec'], outputs: {} };
+    await mkdir(join(root, 'legacy', '.appcreator'), { recursive: true });
+    await writeFile(join(root, 'legacy', '.appcreator', 'workflow-state.json'), JSON.stringify({
+      schemaVersion: 1,
+      projectName: 'legacy',
+      savedAt: '2025-01-01T00:00:00.000Z',
+      workflowState: {
+        ...state,
+        decisionMatrix: { projectType: 'web', questions: [{ id: 'q1' }, { id: 'q2' }], answers: [], recommendations: [] },
+        pomlState: { checkpoints: [{ completedTasks: ['T001', 'T002'] }, { completedTasks: ['T002', 'T003'] }] },
+        generationRun: run,
+      },
+      analysis: { generationRun: { ...run, tool: 'create_project_from_analysis', version: 2 } },
+      usage: { ...createUsageLedger(), total: { calls: 2, inputTokens: 10, outputTokens: 20, costUsd: 0 } },
+    }));
+
+    const migrated = (await store.load('legacy'))!;
+    assert.equal(migrated.schemaVersion, WORKFLOW_STATE_SCHEMA_VERSION);
+    assert.deepEqual(migrated.workflowState?.completedTaskIds, ['T001', 'T002', 'T003']);
+    assert.deepEqual(migrated.workflowState?.decisionMatrix.rounds, [{ round: 1, questionIds: ['q1', 'q2'], issues: [] }]);
+    assert.equal(migrated.workflowState?.decisionMatrix.maxRounds, 3);
+    assert.equal(migrated.usage?.total.cacheHits, 0);
+    // Runs that recorded bare AI data are dropped, JSONResult runs are kept
+    assert.equal(migrated.workflowState?.generationRun, undefined);
+    assert.deepEqual(migrated.analysis?.generationRun?.completedSteps, ['spec']);
+    assert.equal(migrated.analysis?.generationRun && 'version' in migrated.analysis.generationRun, false);
+  });
+
+  it('rejects files without or with a newer schema version', async () => {
+    for (const [name, schemaVersion] of [['unversioned', undefined], ['future', WORKFLOW_STATE_SCHEMA_VERSION + 1]] as const) {
+      await mkdir(join(root, name, '.appcreator'), { recursive: true });
+      await writeFile(join(root, name, '.appcreator', 'workflow-state.json'), JSON.stringify({ schemaVersion, projectName: name }));
+      await assert.rejects(store.load(name), /schema version|newer than supported/);
+    }
+  });
+});
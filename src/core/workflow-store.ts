@@ -0,0 +1,436 @@
+/**
+ * Workflow State Store - Durable project state
+ *
+ * Persists the MCP server's per-project workflow state so that a server
+ * restart does not lose the decision matrix, Spec-Kit or task counters.
+ *
+ * Layout:
+ * - <projectPath>/.appcreator/workflow-state.json   (one per project)
+ * - <projectsRoot>/.appcreator/projects.json        (registry of known projects)
+ *
+ * Projects created with a per-call output_dir live outside the projects
+ * root; the registry records their path so they can still be reloaded.
+ *
+ * Every state file carries a schema version. Older files are migrated
+ * step by step when they are loaded.
+ *
+ * All sessions (and overlapping calls of one client) share one store, so
+ * changes to a project run one at a time: update() holds the project's lock
+ * from load to save. Registry writes have a lock of their own.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ProjectLocator } from './project-locator.js';
+import { AppCreatorError } from './errors.js';
+import type { WorkflowState } from '../modules/master-orchestrator.js';
+import type { SmartProjectRequirements, SmartRecommendations } from '../modules/smart-workflow.js';
+import type { GenerationRun } from './generation-run.js';
+import { createUsageLedger, mergeUsageLedgers, UsageLedger } from './usage.js';
+import { DEFAULT_MAX_ROUNDS } from '../modules/decision-matrix.js';
+
+/**
+ * Current schema version of workflow-state.json; bump when the persisted shape changes
+ *
+ * 2: completed task IDs and decision matrix follow-up rounds
+ * 3: cache hits in the usage ledger
+ * 4: generation runs record a JSONResult for AI steps
+ */
+export const WORKFLOW_STATE_SCHEMA_VERSION = 4;
+
+/**
+ * Current schema version of projects.json
+ */
+export const REGISTRY_SCHEMA_VERSION = 1;
+
+/**
+ * Smart workflow analysis kept between analyze/create calls
+ */
+export interface ProjectAnalysis {
+  requirements: SmartProjectRequirements;
+  recommendations: SmartRecommendations;
+  // Unfinished create_project_from_analysis run
+  generationRun?: GenerationRun;
+}
+
+/**
+ * On-disk format of a project's workflow-state.json
+ */
+export interface PersistedProjectState {
+  schemaVersion: number;
+  projectName: string;
+  savedAt: string;
+  workflowState?: WorkflowState;
+  analysis?: ProjectAnalysis;
+  // AI tokens and cost spent on the project
+  usage?: UsageLedger;
+}
+
+/**
+ * The parts of a project's state an update() mutator changes in place
+ */
+export interface ProjectDraft {
+  workflowState?: WorkflowState;
+  analysis?: ProjectAnalysis;
+  // Directory of a project saved for the first time (defaults to workflowState.projectPath)
+  projectPath?: string;
+}
+
+/**
+ * Registry entry for a known project
+ */
+export interface ProjectRegistryEntry {
+  projectName: string;
+  projectPath: string;
+  currentPhase: string;
+  updatedAt: string;
+}
+
+/**
+ * Registry of all projects the server has seen
+ */
+export interface ProjectRegistry {
+  schemaVersion: number;
+  projects: Record<string, ProjectRegistryEntry>;
+}
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each step returns data in the next version's format.
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  // v1: task IDs were only recorded in POML checkpoints, matrices had a single round
+  1: (data: any) => {
+    const state = data.workflowState;
+    if (state) {
+      state.completedTaskIds ??= [
+        ...new Set<string>((state.pomlState?.checkpoints ?? []).flatMap((cp: any) => cp.completedTasks ?? [])),
+      ];
+      const matrix = state.decisionMatrix;
+      if (matrix && !matrix.rounds) {
+        matrix.rounds = [{ round: 1, questionIds: (matrix.questions ?? []).map((q: any) => q.id), issues: [] }];
+        matrix.maxRounds ??= DEFAULT_MAX_ROUNDS;
+      }
+    }
+    return { ...data, schemaVersion: 2 };
+  },
+  // v2: usage totals had no cache hits
+  2: (data: any) => {
+    const usage = data.usage;
+    if (usage) {
+      for (const totals of [usage.total, ...Object.values(usage.byPhase ?? {}), ...Object.values(usage.byModule ?? {})]) {
+        (totals as any).cacheHits ??= 0;
+      }
+    }
+    return { ...data, schemaVersion: 3 };
+  },
+  // v3: AI steps recorded the bare parsed data; only runs marked version 2 hold JSONResults
+  3: (data: any) => {
+    for (const holder of [data.workflowState, data.analysis]) {
+      if (!holder?.generationRun) {
+        continue;
+      }
+      if (holder.generationRun.version === 2) {
+        delete holder.generationRun.version;
+      } else {
+        console.error(`   ♻️  Discarding unfinished ${holder.generationRun.tool} run recorded by an older version`);
+        delete holder.generationRun;
+      }
+    }
+    return { ...data, schemaVersion: 4 };
+  },
+};
+
+/**
+ * Lock key of the project registry (project names never contain slashes)
+ */
+const REGISTRY_LOCK = '/registry';
+
+/**
+ * Workflow State Store Class
+ *
+ * Reads and writes per-project workflow state and keeps the project registry in sync.
+ */
+export class WorkflowStateStore {
+  private projectLocator: ProjectLocator;
+  private registryPath: string;
+  // Usage of projects that have no state file yet, written with their first save
+  private pendingUsage: Map<string, UsageLedger>;
+  // Tail of the queued writes per project name / REGISTRY_LOCK
+  private locks: Map<string, Promise<void>>;
+  // Locks held by the current async context, so nested writes don't wait for themselves
+  private heldLocks: AsyncLocalStorage<Set<string>>;
+
+  constructor(projectLocator: ProjectLocator) {
+    this.projectLocator = projectLocator;
+    this.registryPath = join(projectLocator.getProjectsRoot(), '.appcreator', 'projects.json');
+    this.pendingUsage = new Map();
+    this.locks = new Map();
+    this.heldLocks = new AsyncLocalStorage();
+  }
+
+  /**
+   * Get the on-disk directory of a project
+   *
+   * Uses the path recorded in the registry, falling back to the projects root.
+   */
+  async getProjectPath(projectName: string): Promise<string> {
+    const registry = await this.loadRegistry();
+    return registry.projects[projectName]?.projectPath
+      ?? this.projectLocator.resolveProjectPath(projectName);
+  }
+
+  /**
+   * Load a project's persisted state, migrating it if needed
+   *
+   * @returns The persisted state, or null if the project has never been saved
+   */
+  async load(projectName: string): Promise<PersistedProjectState | null> {
+    const statePath = join(await this.getProjectPath(projectName), '.appcreator', 'workflow-state.json');
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(statePath, 'utf-8');
+    } catch (error) {
+      // File doesn't exist, project unknown
+      return null;
+    }
+
+    try {
+      const migrated = this.migrate(JSON.parse(raw));
+      return migrated;
+    } catch (error) {
+      console.error(`Error loading workflow state for "${projectName}":`, error);
+      throw AppCreatorError.wrap(error, `Failed to load workflow state for "${projectName}"`, 'FS_ERROR');
+    }
+  }
+
+  /**
+   * Save a project's workflow state and/or smart workflow analysis
+   *
+   * Fields that are not provided keep their previously persisted value.
+   *
+   * @param projectPath - Project directory; defaults to the registered or root-relative path
+   */
+  async save(
+    projectName: string,
+    update: { workflowState?: WorkflowState; analysis?: ProjectAnalysis; usage?: UsageLedger },
+    projectPath?: string
+  ): Promise<void> {
+    await this.withLock(projectName, () => this.write(projectName, update, projectPath));
+  }
+
+  /**
+   * Load, change and save a project's state as one step under the project lock
+   *
+   * The mutator changes the draft in place and it is saved when the mutator
+   * returns; a draft left empty is not saved. Nothing is saved if the mutator
+   * throws. save() calls from within the mutator (partial outputs of a
+   * generation run) write right away instead of waiting for the lock.
+   *
+   * @returns What the mutator returns
+   */
+  async update<T>(projectName: string, mutator: (draft: ProjectDraft) => Promise<T>): Promise<T> {
+    return await this.withLock(projectName, async () => {
+      const existing = await this.load(projectName);
+      const draft: ProjectDraft = { workflowState: existing?.workflowState, analysis: existing?.analysis };
+
+      const result = await mutator(draft);
+
+      if (draft.workflowState || draft.analysis) {
+        await this.write(
+          projectName,
+          { workflowState: draft.workflowState, analysis: draft.analysis },
+          draft.projectPath ?? draft.workflowState?.projectPath
+        );
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Add the usage of a tool call to the project's ledger
+   *
+   * Usage of a project without a state file is kept in memory and written
+   * with the project's first save, into the directory that save chooses.
+   *
+   * @returns The project's updated ledger
+   */
+  async addUsage(projectName: string, usage: UsageLedger): Promise<UsageLedger> {
+    return await this.withLock(projectName, async () => {
+      const existing = await this.load(projectName);
+      if (!existing) {
+        // No project to attach it to (yet): a failed start_project must not create one
+        const ledger = mergeUsageLedgers(this.pendingUsage.get(projectName) ?? createUsageLedger(), usage);
+        this.pendingUsage.set(projectName, ledger);
+        return ledger;
+      }
+
+      const ledger = mergeUsageLedgers(existing.usage ?? createUsageLedger(), usage);
+      await this.write(projectName, { usage: ledger });
+      return ledger;
+    });
+  }
+
+  /**
+   * A project's ledger, including usage not written yet
+   */
+  async getUsage(projectName: string): Promise<UsageLedger | undefined> {
+    const persisted = (await this.load(projectName))?.usage;
+    const pending = this.pendingUsage.get(projectName);
+    if (!pending) {
+      return persisted;
+    }
+    return mergeUsageLedgers(persisted ?? createUsageLedger(), pending);
+  }
+
+  /**
+   * Load the project registry
+   */
+  async loadRegistry(): Promise<ProjectRegistry> {
+    try {
+      const data = await fs.readFile(this.registryPath, 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      // File doesn't exist, start with empty registry
+      return { schemaVersion: REGISTRY_SCHEMA_VERSION, projects: {} };
+    }
+  }
+
+  /**
+   * Remove a project from the registry
+   */
+  async unregister(projectName: string): Promise<void> {
+    await this.withLock(REGISTRY_LOCK, async () => {
+      const registry = await this.loadRegistry();
+      if (!registry.projects[projectName]) {
+        return;
+      }
+
+      delete registry.projects[projectName];
+      await this.writeAtomic(this.registryPath, JSON.stringify(registry, null, 2));
+    });
+  }
+
+  /**
+   * Merge an update into the persisted state; callers hold the project's lock
+   */
+  private async write(
+    projectName: string,
+    update: { workflowState?: WorkflowState; analysis?: ProjectAnalysis; usage?: UsageLedger },
+    projectPath?: string
+  ): Promise<void> {
+    try {
+      const existing = await this.load(projectName);
+
+      const persisted: PersistedProjectState = {
+        schemaVersion: WORKFLOW_STATE_SCHEMA_VERSION,
+        projectName,
+        savedAt: new Date().toISOString(),
+        workflowState: update.workflowState ?? existing?.workflowState,
+        analysis: update.analysis ?? existing?.analysis,
+        usage: update.usage ?? existing?.usage,
+      };
+      const pending = this.pendingUsage.get(projectName);
+      if (pending) {
+        persisted.usage = mergeUsageLedgers(persisted.usage ?? createUsageLedger(), pending);
+      }
+
+      const targetPath = projectPath ?? await this.getProjectPath(projectName);
+      await fs.mkdir(join(targetPath, '.appcreator'), { recursive: true });
+      await this.writeAtomic(
+        join(targetPath, '.appcreator', 'workflow-state.json'),
+        JSON.stringify(persisted, null, 2)
+      );
+
+      await this.updateRegistry({
+        projectName,
+        projectPath: targetPath,
+        currentPhase: persisted.workflowState?.currentPhase || 'requirements',
+        updatedAt: persisted.savedAt,
+      });
+      this.pendingUsage.delete(projectName);
+    } catch (error) {
+      console.error(`Error saving workflow state for "${projectName}":`, error);
+      throw AppCreatorError.wrap(error, `Failed to save workflow state for "${projectName}"`, 'FS_ERROR');
+    }
+  }
+
+  /**
+   * Add or update a project in the registry
+   */
+  private async updateRegistry(entry: ProjectRegistryEntry): Promise<void> {
+    await this.withLock(REGISTRY_LOCK, async () => {
+      const registry = await this.loadRegistry();
+      registry.projects[entry.projectName] = entry;
+
+      await fs.mkdir(join(this.projectLocator.getProjectsRoot(), '.appcreator'), { recursive: true });
+      await this.writeAtomic(this.registryPath, JSON.stringify(registry, null, 2));
+    });
+  }
+
+  /**
+   * Run a read-modify-write after the earlier ones on the same key have finished
+   *
+   * Re-entrant: within fn, further calls for the same key run directly.
+   */
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const held = this.heldLocks.getStore();
+    if (held?.has(key)) {
+      return await fn();
+    }
+
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const result = previous.then(() => this.heldLocks.run(new Set([...(held ?? []), key]), fn));
+    const tail = result.then(() => undefined, () => undefined);
+    this.locks.set(key, tail);
+
+    try {
+      return await result;
+    } finally {
+      // Drop the entry once nothing is queued behind this write
+      if (this.locks.get(key) === tail) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Bring persisted data up to the current schema version
+   */
+  private migrate(data: any): PersistedProjectState {
+    if (typeof data?.schemaVersion !== 'number') {
+      throw new AppCreatorError('FS_ERROR', 'State file has no schema version');
+    }
+    let version: number = data.schemaVersion;
+
+    if (version > WORKFLOW_STATE_SCHEMA_VERSION) {
+      throw new AppCreatorError(
+        'FS_ERROR',
+        `State file schema v${version} is newer than supported v${WORKFLOW_STATE_SCHEMA_VERSION}`,
+        { hint: 'Upgrade the AppCreator server to open this project.' }
+      );
+    }
+
+    while (version < WORKFLOW_STATE_SCHEMA_VERSION) {
+      const step = MIGRATIONS[version];
+      if (!step) {
+        throw new AppCreatorError('FS_ERROR', `No migration available from schema v${version}`);
+      }
+      data = step(data);
+      version = data.schemaVersion;
+    }
+
+    return data;
+  }
+
+  /**
+   * Write via a temp file so a crash never leaves a half-written state file
+   */
+  private async writeAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+}
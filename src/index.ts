@@ -14,51 +14,233 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  Tool,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ServerRequest,
+  ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
 import { AdapterFactory, AIProvider } from './adapters/adapter-factory.js';
+import { LocalAdapter } from './adapters/local-adapter.js';
+import { ModelTarget, RoutingConfig, RoutingAdapter } from './adapters/routing-adapter.js';
 import { MasterOrchestrator } from './modules/master-orchestrator.js';
 import { WorkflowState } from './modules/master-orchestrator.js';
 import { A2UIDesignPreferences } from './modules/a2ui-generator.js';
+import { DecisionMatrix, MatrixAnswer, MatrixQuestion, QANode, mergeAnswers } from './modules/decision-matrix.js';
+import { AnswerValidator, AnswerReport } from './modules/answer-validator.js';
+import { StackScoring } from './modules/stack-scoring.js';
+import { DecisionMatrix as ScoringMatrix, CriteriaWeights, CRITERIA_LABELS } from './core/decision-matrix.js';
+import { StackKnowledgeBase } from './core/stack-knowledge.js';
 import { AutoWorkflowModule, AutoWorkflowConfig } from './modules/auto-workflow.js';
 import { SmartWorkflowModule, SmartProjectRequirements, SmartRecommendations } from './modules/smart-workflow.js';
+import { WorkflowStateStore, ProjectAnalysis } from './core/workflow-store.js';
+import { ProjectLocator } from './core/project-locator.js';
+import { ProjectManager } from './core/project-manager.js';
+import { ProjectResources, PROJECT_ARTIFACTS } from './core/project-resources.js';
+import { ProjectPrompts } from './core/project-prompts.js';
+import { RunControl, GenerationRun } from './core/generation-run.js';
+import { McpHttpServer } from './core/http-server.js';
+import { listToolDefinitions, parseToolArguments, toolArgument, toolProjectName, ToolInput, ToolArgumentsError } from './core/tool-schemas.js';
+import { AppCreatorError, AppCreatorWarning, collectWarnings, phaseOrderViolation, toAppCreatorError } from './core/errors.js';
+import { PhaseMachine, StateFor } from './core/phase-machine.js';
+import { PriceTable, ModelPrice, UsageLedger, createUsageLedger, trackUsage, formatUsd } from './core/usage.js';
+import { forwardStreams } from './core/stream-forwarding.js';
+import { withCallOptions } from './core/call-options.js';
+import { AIAuditLog, AILogConfig, AuditScope, auditAICalls } from './core/ai-audit-log.js';
+import { join, relative } from 'path';
 
 // AI Provider Configuration
 const aiProvider = (process.env.AI_PROVIDER || 'claude') as AIProvider;
 const aiApiKey = process.env.AI_API_KEY || process.env.ANTHROPIC_API_KEY || '';
 const aiModel = process.env.AI_MODEL;
+const aiBaseUrl = process.env.AI_BASE_URL;
 
-if (!aiApiKey) {
+if (!aiApiKey && AdapterFactory.requiresApiKey(aiProvider)) {
   console.error('❌ Error: AI_API_KEY or ANTHROPIC_API_KEY not provided');
   process.exit(1);
 }
 
+// Project locations (APPCREATOR_PROJECTS_ROOT / config file / per-call output_dir)
+const projectLocator = ProjectLocator.fromEnvironment();
+
+// Record/replay fixtures (AI_PROVIDER=replay serves them, AI_RECORD=true writes them)
+const aiFixturesDir = process.env.AI_FIXTURES_DIR
+  || join(projectLocator.getProjectsRoot(), '.appcreator', 'ai-fixtures');
+const aiRecord = process.env.AI_RECORD === 'true' || process.env.AI_RECORD === '1';
+
+// Numeric setting from the environment (undefined when unset or invalid)
+const envNumber = (name: string): number | undefined => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+// Cost accounting: per-project budget and extra model prices (USD per million tokens)
+const aiBudgetUsd = envNumber('AI_BUDGET_USD');
+let aiPriceOverrides: Record<string, ModelPrice> = {};
+try {
+  aiPriceOverrides = process.env.AI_PRICES ? JSON.parse(process.env.AI_PRICES) : {};
+} catch (error) {
+  console.error('❌ Error: AI_PRICES must be JSON like {"my-model": {"input": 1, "output": 2}}');
+  process.exit(1);
+}
+const priceTable = new PriceTable(aiPriceOverrides);
+
+// Live AI output as MCP log messages (AI_STREAM=false waits for full completions)
+const aiStream = process.env.AI_STREAM !== 'false' && process.env.AI_STREAM !== '0';
+
+// Response cache for repeated calls (AI_CACHE=false disables it)
+const aiCache = process.env.AI_CACHE !== 'false' && process.env.AI_CACHE !== '0';
+const aiCacheDir = process.env.AI_CACHE_DIR
+  || join(projectLocator.getProjectsRoot(), '.appcreator', 'ai-cache');
+const aiCacheTtlHours = envNumber('AI_CACHE_TTL_HOURS') ?? 24;
+
+// Per-module/task-class routing and fallback chain ("ai" in the config file)
+const providerKeyEnv: Partial<Record<AIProvider, string>> = {
+  claude: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+};
+const resolveTarget = (target: ModelTarget): ModelTarget => ({
+  ...target,
+  apiKey: target.apiKey
+    ?? (target.provider === aiProvider ? aiApiKey : process.env[providerKeyEnv[target.provider] ?? ''] ?? ''),
+  baseUrl: target.baseUrl ?? (target.provider === aiProvider ? aiBaseUrl : undefined),
+});
+const aiRoutingConfig: RoutingConfig = ProjectLocator.readConfig().ai ?? {};
+const aiRouting: RoutingConfig = {
+  tiers: Object.fromEntries(Object.entries(aiRoutingConfig.tiers ?? {}).map(([taskClass, target]) => [taskClass, resolveTarget(target)])),
+  modules: Object.fromEntries(Object.entries(aiRoutingConfig.modules ?? {}).map(
+    ([module, route]) => [module, typeof route === 'string' ? route : resolveTarget(route)]
+  )),
+  fallback: (aiRoutingConfig.fallback ?? []).map(resolveTarget),
+};
+const aiRoutingTargets = [
+  ...Object.values(aiRouting.tiers ?? {}),
+  ...Object.values(aiRouting.modules ?? {}).filter((route): route is ModelTarget => typeof route !== 'string'),
+  ...(aiRouting.fallback ?? []),
+];
+for (const target of aiRoutingTargets) {
+  try {
+    AdapterFactory.validateConfig({ provider: target.provider, apiKey: target.apiKey ?? '' });
+  } catch (error) {
+    const keyEnv = providerKeyEnv[target.provider];
+    console.error(
+      `❌ Error: invalid AI routing target ${RoutingAdapter.describe(target)}: ${error instanceof Error ? error.message : error}` +
+      (keyEnv ? ` (set ${keyEnv} or "apiKey" in the config file)` : '')
+    );
+    process.exit(1);
+  }
+}
+
+// Prompt/response audit log per project ("aiLog" in the config file, AI_LOG=false disables it)
+const aiLogConfig: AILogConfig = ProjectLocator.readConfig().aiLog ?? {};
+const aiLogEnabled = aiLogConfig.enabled !== false && process.env.AI_LOG !== 'false' && process.env.AI_LOG !== '0';
+let aiAuditLog: AIAuditLog;
+try {
+  aiAuditLog = new AIAuditLog(aiLogConfig);
+} catch (error) {
+  console.error(`❌ Error: invalid "aiLog" config: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Curated technology data for stack scoring (STACK_KNOWLEDGE_FILE / "stackKnowledgeFile" adds entries)
+const stackKnowledgeFile = process.env.STACK_KNOWLEDGE_FILE || ProjectLocator.readConfig().stackKnowledgeFile;
+let stackKnowledge: StackKnowledgeBase;
+try {
+  stackKnowledge = stackKnowledgeFile ? StackKnowledgeBase.fromFile(stackKnowledgeFile) : new StackKnowledgeBase();
+} catch (error) {
+  console.error(`❌ Error: could not load the stack knowledge base: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
 // Create AI Adapter
-const aiAdapter = AdapterFactory.createAdapter({
+const aiAdapter = AdapterFactory.createRoutingAdapter({
   provider: aiProvider,
   apiKey: aiApiKey,
   model: aiModel,
-});
+  baseUrl: aiBaseUrl,
+  fixturesDir: aiFixturesDir,
+  record: aiRecord,
+  cache: aiCache ? { dir: aiCacheDir, ttlMs: aiCacheTtlHours * 60 * 60 * 1000 } : undefined,
+  retry: {
+    maxRetries: envNumber('AI_MAX_RETRIES'),
+    timeoutMs: envNumber('AI_TIMEOUT_MS'),
+  },
+  rateLimit: {
+    maxConcurrent: envNumber('AI_MAX_CONCURRENCY'),
+    tokensPerMinute: envNumber('AI_TOKENS_PER_MINUTE'),
+  },
+}, aiRouting);
 
 // Create Master Orchestrator
-const masterOrchestrator = new MasterOrchestrator(aiAdapter);
+const masterOrchestrator = new MasterOrchestrator(aiAdapter, stackKnowledge);
 
 // Create Smart Workflow Module (NEW!)
-const smartWorkflow = new SmartWorkflowModule(aiAdapter);
+const smartWorkflow = new SmartWorkflowModule(aiAdapter, projectLocator);
+
+// Durable workflow state (survives server restarts)
+const workflowStore = new WorkflowStateStore(projectLocator);
+
+// Project listing, archiving and deletion
+const projectManager = new ProjectManager(projectLocator, workflowStore);
+
+// Generated artifacts exposed as MCP resources (appcreator://<project>/<artifact>)
+const projectResources = new ProjectResources(projectManager, workflowStore);
+
+// Initialize resume/kickoff prompts
+const projectPrompts = new ProjectPrompts();
+
+// Phase transitions shared by the classic, NotebookLM and smart workflows
+const phaseMachine = new PhaseMachine();
+
+// Decision matrix answers checked against their questions before use
+const answerValidator = new AnswerValidator();
 
 console.error(`🤖 AppCreator MCP Server - Complete AI Software Factory`);
 console.error(`📡 AI Provider: ${aiProvider}`);
 console.error(`🎯 Model: ${aiModel || AdapterFactory.getDefaultModel(aiProvider)}`);
+if (aiProvider === 'local') {
+  console.error(`🏠 Local endpoint: ${aiBaseUrl || LocalAdapter.DEFAULT_BASE_URL}`);
+}
+if (aiProvider === 'replay' || aiRecord) {
+  console.error(`📼 AI fixtures (${aiProvider === 'replay' ? 'replaying' : 'recording'}): ${aiFixturesDir}`);
+}
+if (aiRoutingTargets.length > 0 && aiProvider !== 'replay') {
+  const fallback = (aiRouting.fallback ?? []).map(RoutingAdapter.describe);
+  console.error(`🔀 AI routing: ${aiRoutingTargets.length - fallback.length} route(s)${fallback.length > 0 ? `, fallback ${fallback.join(' → ')}` : ''}`);
+}
+if (aiBudgetUsd) {
+  console.error(`💰 AI budget per project: ${formatUsd(aiBudgetUsd)}`);
+}
+if (!aiLogEnabled) {
+  console.error(`📝 AI audit log: disabled`);
+}
+if (stackKnowledgeFile) {
+  console.error(`📚 Stack knowledge base: ${stackKnowledge.getVersion()} (${stackKnowledge.getTechnologies().length} technologies, extra entries from ${stackKnowledgeFile})`);
+}
+if (aiCache && aiProvider !== 'replay') {
+  console.error(`🗄️ AI response cache (${aiCacheTtlHours}h): ${aiCacheDir}`);
+}
+console.error(`📁 Projects Root: ${projectLocator.getProjectsRoot()}`);
 console.error(`✨ Features: Decision Matrix, Spec-Kit, POML, API Testing, BDD, Context Preservation`);
 
+// Per-request context (abort signal, progress token, notifications)
+type ToolCallExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 // AppCreator Server - Complete Workflow Manager
 class AppCreatorServer {
   private server: Server;
-  private workflowStates: Map<string, WorkflowState> = new Map();
-  private projectAnalyses: Map<string, { requirements: SmartProjectRequirements; recommendations: SmartRecommendations }> = new Map();
+  private resourceSubscriptions: Set<string> = new Set();
+  private resourceFingerprints: Map<string, Map<string, number>> = new Map();
 
   constructor() {
     this.server = new Server(
@@ -69,6 +251,12 @@ class AppCreatorServer {
       {
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
+          prompts: {},
+          logging: {},
         },
       }
     );
@@ -79,478 +267,756 @@ class AppCreatorServer {
   private setupHandlers() {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.getTools(),
+      tools: listToolDefinitions(),
+    }));
+
+    // List generated artifacts as resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await projectResources.listResources(),
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: PROJECT_ARTIFACTS.map(artifact => ({
+        uriTemplate: `appcreator://{project}/${artifact.key}`,
+        name: artifact.key,
+        title: artifact.title,
+        description: artifact.description,
+        mimeType: artifact.mimeType,
+      })),
     }));
 
+    // Read a generated artifact
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: [await projectResources.readResource(request.params.uri)],
+    }));
+
+    // Resource change subscriptions
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { projectName } = ProjectResources.parseUri(request.params.uri);
+      this.resourceSubscriptions.add(request.params.uri);
+      if (!this.resourceFingerprints.has(projectName)) {
+        this.resourceFingerprints.set(projectName, await projectResources.snapshot(projectName));
+      }
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    // List resume/kickoff prompts
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: projectPrompts.listPrompts(),
+    }));
+
+    // Render a prompt from the project's current POML state
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const projectName = request.params.arguments?.project_name;
+      if (!projectName) {
+        throw new Error(`Prompt '${request.params.name}' requires the project_name argument`);
+      }
+
+      const state = await this.getWorkflowState(projectName);
+      if (!state) {
+        throw new AppCreatorError('PROJECT_NOT_FOUND', `Project '${projectName}' not found`);
+      }
+
+      const prompt = projectPrompts.getPrompt(request.params.name, state);
+      return { description: prompt.description, messages: prompt.messages };
+    });
+
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
-        switch (name) {
-          case "start_project":
-            return await this.startProject(args);
-          case "approve_architecture":
-            return await this.approveArchitecture(args);
-          case "generate_api_tests":
-            return await this.generateAPITests(args);
-          case "ask_frontend_questions":
-            return await this.askFrontendQuestions(args);
-          case "generate_frontend_prompt":
-            return await this.generateFrontendPrompt(args);
-          case "generate_bdd_tests":
-            return await this.generateBDDTests(args);
-          case "create_checkpoint":
-            return await this.createCheckpoint(args);
-          case "get_workflow_status":
-            return await this.getWorkflowStatus(args);
-          case "complete_task":
-            return await this.completeTask(args);
-          case "start_project_with_notebook":
-            return await this.startProjectWithNotebook(args);
-          case "approve_architecture_with_notebook":
-            return await this.approveArchitectureWithNotebook(args);
-          case "generate_a2ui_frontend":
-            return await this.generateA2UIFrontend(args);
-          case "analyze_project_requirements":
-            return await this.analyzeProjectRequirements(args);
-          case "create_project_from_analysis":
-            return await this.createProjectFromAnalysis(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
+        const projectName = toolProjectName(name, args);
+        const callOptions = { bypassCache: await this.bypassesCache(name, args, projectName), signal: extra.signal };
+        const usage = createUsageLedger();
+        const { result, warnings } = await this.withUsageTracking(
+          projectName,
+          usage,
+          () => this.withAuditLog(projectName, name, () =>
+            this.withStreamForwarding(extra, () => collectWarnings(() =>
+              withCallOptions(callOptions, () => this.dispatchTool(name, args, extra))
+            ))
+          )
+        );
+        await this.notifyResourceChanges(projectName);
+        return this.withWarnings(this.withUsageSummary(result, usage), warnings);
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return this.toErrorResult(error);
       }
     });
   }
 
-  private getTools(): Tool[] {
-    return [
-      {
-        name: "start_project",
-        description: "PHASE 1: Start new project - gathers requirements and generates decision matrix with architecture options. User must review and answer questions before proceeding.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Project name (e.g., 'task-manager-app')",
-            },
-            project_type: {
-              type: "string",
-              description: "Project type",
-              enum: ["web", "api", "cli", "desktop", "mobile", "library"],
-            },
-            description: {
-              type: "string",
-              description: "Detailed project description explaining what the app should do",
-            },
-            requirements: {
-              type: "array",
-              items: { type: "string" },
-              description: "List of user requirements/features",
-            },
-          },
-          required: ["project_name", "project_type", "description", "requirements"],
-        },
-      },
-      {
-        name: "approve_architecture",
-        description: "PHASE 2: After user answers decision matrix questions and approves architecture choice. Generates complete Spec-Kit (Constitution, Specification, Technical Plan, Tasks) and POML files with context preservation system.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            decision_matrix_answers: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  questionId: { type: "string" },
-                  answer: { type: "string" },
-                },
-              },
-              description: "User's answers to decision matrix questions",
-            },
-          },
-          required: ["project_name", "decision_matrix_answers"],
-        },
-      },
-      {
-        name: "generate_api_tests",
-        description: "PHASE 3: Generate Postman collection and environments for API testing. Creates collection.json, dev/staging/prod environments, and Newman CLI test commands. User can test APIs manually in Postman or automatically with Newman CLI.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-          },
-          required: ["project_name"],
-        },
-      },
-      {
-        name: "ask_frontend_questions",
-        description: "PHASE 4a: Ask user questions about frontend preferences before generating prompt. Asks about platform (Google Stitch/Lovable/v0/Bolt), design style, colors, features needed.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-          },
-          required: ["project_name"],
-        },
-      },
-      {
-        name: "generate_frontend_prompt",
-        description: "PHASE 4b: Generate comprehensive frontend prompt for no-code platforms (Google Stitch, Lovable, v0.dev, Bolt.new). Creates detailed prompt with component breakdown, design system, API integration, and user flows. User can copy this prompt to their chosen platform.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            frontend_answers: {
-              type: "object",
-              description: "User's answers to frontend questions (platform, designStyle, colorScheme, primaryColor, features, uiFramework)",
-            },
-          },
-          required: ["project_name", "frontend_answers"],
-        },
-      },
-      {
-        name: "generate_bdd_tests",
-        description: "PHASE 5: Generate BDD/Cucumber/Gherkin tests for human-readable behavior specifications. Creates feature files, step definitions, and test configuration. Tests can be run with npm run test:bdd.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-          },
-          required: ["project_name"],
-        },
-      },
-      {
-        name: "create_checkpoint",
-        description: "CONTEXT PRESERVATION: Create checkpoint to prevent context loss. Call this every 20-25 completed tasks or when switching between major phases. Saves state to POML, generates continuation prompt for resuming after context loss.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            completed_task_ids: {
-              type: "array",
-              items: { type: "string" },
-              description: "IDs of tasks completed since last checkpoint (e.g., ['T001', 'T002', 'T003'])",
-            },
-            current_task_id: {
-              type: "string",
-              description: "ID of current task being worked on (or null if none)",
-            },
-            issues_encountered: {
-              type: "array",
-              items: { type: "string" },
-              description: "Any issues encountered since last checkpoint",
-              default: [],
-            },
-          },
-          required: ["project_name", "completed_task_ids"],
-        },
-      },
-      {
-        name: "get_workflow_status",
-        description: "Get complete workflow status including current phase, progress, completed tasks, next steps, and whether checkpoint is needed.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-          },
-          required: ["project_name"],
-        },
-      },
-      {
-        name: "complete_task",
-        description: "Mark a task as complete and automatically create checkpoint if 20-25 tasks have been completed since last checkpoint. Updates progress tracking.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            task_id: {
-              type: "string",
-              description: "ID of completed task (e.g., 'T001')",
-            },
-          },
-          required: ["project_name", "task_id"],
+  /**
+   * Route a tool call to its handler
+   */
+  private async dispatchTool(name: string, args: unknown, extra: ToolCallExtra) {
+    switch (name) {
+      case "start_project":
+        return await this.startProject(parseToolArguments("start_project", args));
+      case "answer_followups":
+        return await this.answerFollowUps(parseToolArguments("answer_followups", args));
+      case "research_tech_stacks":
+        return await this.researchTechStacks(parseToolArguments("research_tech_stacks", args));
+      case "what_if_weights":
+        return await this.whatIfWeights(parseToolArguments("what_if_weights", args));
+      case "approve_architecture":
+        return await this.approveArchitecture(parseToolArguments("approve_architecture", args), extra);
+      case "generate_api_tests":
+        return await this.generateAPITests(parseToolArguments("generate_api_tests", args));
+      case "ask_frontend_questions":
+        return await this.askFrontendQuestions(parseToolArguments("ask_frontend_questions", args));
+      case "generate_frontend_prompt":
+        return await this.generateFrontendPrompt(parseToolArguments("generate_frontend_prompt", args));
+      case "generate_bdd_tests":
+        return await this.generateBDDTests(parseToolArguments("generate_bdd_tests", args));
+      case "create_checkpoint":
+        return await this.createCheckpoint(parseToolArguments("create_checkpoint", args));
+      case "get_workflow_status":
+        return await this.getWorkflowStatus(parseToolArguments("get_workflow_status", args));
+      case "get_ai_log":
+        return await this.getAILog(parseToolArguments("get_ai_log", args));
+      case "complete_task":
+        return await this.completeTask(parseToolArguments("complete_task", args));
+      case "reopen_phase":
+        return await this.reopenPhase(parseToolArguments("reopen_phase", args));
+      case "start_project_with_notebook":
+        return await this.startProjectWithNotebook(parseToolArguments("start_project_with_notebook", args));
+      case "approve_architecture_with_notebook":
+        return await this.approveArchitectureWithNotebook(parseToolArguments("approve_architecture_with_notebook", args));
+      case "generate_a2ui_frontend":
+        return await this.generateA2UIFrontend(parseToolArguments("generate_a2ui_frontend", args));
+      case "analyze_project_requirements":
+        return await this.analyzeProjectRequirements(parseToolArguments("analyze_project_requirements", args));
+      case "create_project_from_analysis":
+        return await this.createProjectFromAnalysis(parseToolArguments("create_project_from_analysis", args), extra);
+      case "list_projects":
+        return await this.listProjects();
+      case "archive_project":
+        return await this.archiveProject(parseToolArguments("archive_project", args));
+      case "delete_project":
+        return await this.deleteProject(parseToolArguments("delete_project", args));
+      default:
+        throw new AppCreatorError('UNKNOWN_TOOL', `Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Whether a tool call's AI calls skip the response cache
+   *
+   * Either bypass_cache is set, or the tool regenerates a phase that was
+   * reopened with reopen_phase since its last run.
+   */
+  private async bypassesCache(name: string, args: unknown, projectName: string | undefined): Promise<boolean> {
+    const bypassCache = toolArgument(name, args, 'bypass_cache');
+    if (bypassCache !== false || !projectName) {
+      return bypassCache === true;
+    }
+
+    return phaseMachine.regeneratesReopened(name, await this.getWorkflowState(projectName));
+  }
+
+  /**
+   * Account the AI calls of a tool call to its project
+   *
+   * Calls are checked against AI_BUDGET_USD while the tool runs; their usage is
+   * added to the project's ledger afterwards, also when the tool failed. Usage
+   * of a project that is not saved yet is kept until its first save.
+   */
+  private async withUsageTracking<T>(projectName: string | undefined, ledger: UsageLedger, fn: () => Promise<T>): Promise<T> {
+    if (!projectName) {
+      return await fn();
+    }
+
+    const spentUsd = aiBudgetUsd ? (await workflowStore.getUsage(projectName))?.total.costUsd ?? 0 : 0;
+
+    try {
+      return await trackUsage({ projectName, prices: priceTable, ledger, spentUsd, budgetUsd: aiBudgetUsd }, fn);
+    } finally {
+      if (ledger.total.calls > 0) {
+        try {
+          await workflowStore.addUsage(projectName, ledger);
+        } catch (error) {
+          console.error(`Failed to record AI usage for "${projectName}":`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Write the AI calls of a tool call to its project's audit log
+   *
+   * Calls are collected while the tool runs and appended afterwards, also when
+   * the tool failed.
+   */
+  private async withAuditLog<T>(projectName: string | undefined, tool: string, fn: () => Promise<T>): Promise<T> {
+    if (!aiLogEnabled || !projectName) {
+      return await fn();
+    }
+
+    const scope: AuditScope = { tool, entries: [] };
+    try {
+      return await auditAICalls(scope, fn);
+    } finally {
+      if (scope.entries.length > 0) {
+        try {
+          await aiAuditLog.append(await workflowStore.getProjectPath(projectName), scope.entries);
+        } catch (error) {
+          console.error(`Failed to write AI log for "${projectName}":`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Send a tool call's AI output to the client while it is generated
+   *
+   * Deltas are batched per AI call (every 500ms or 1,000 characters) and sent
+   * as MCP log messages (level "info", logger "appcreator/<module>").
+   */
+  private async withStreamForwarding<T>(extra: ToolCallExtra, fn: () => Promise<T>): Promise<T> {
+    if (!aiStream) {
+      return await fn();
+    }
+
+    const pending = new Map<number, { module: string; text: string; since: number }>();
+    const flush = (streamId: number) => {
+      const buffered = pending.get(streamId);
+      pending.delete(streamId);
+      if (!buffered?.text) {
+        return;
+      }
+
+      this.server.sendLoggingMessage(
+        { level: "info", logger: `appcreator/${buffered.module}`, data: buffered.text },
+        extra.sessionId
+      ).catch(error => console.error('Error sending AI output:', error));
+    };
+
+    return await forwardStreams(event => {
+      const buffered = pending.get(event.streamId) ?? { module: event.module, text: '', since: Date.now() };
+      buffered.text += event.delta;
+      pending.set(event.streamId, buffered);
+
+      if (event.done || buffered.text.length >= 1000 || Date.now() - buffered.since >= 500) {
+        flush(event.streamId);
+      }
+    }, fn);
+  }
+
+  /**
+   * List the models that produced a tool call's output, with its tokens and cost
+   */
+  private withUsageSummary<T extends { content: Array<{ type: string; text: string }> }>(result: T, usage: UsageLedger): T {
+    if (usage.total.calls === 0) {
+      return result;
+    }
+
+    const models = Object.entries(usage.models).map(([module, labels]) => `  • ${module}: ${labels.join(', ')}`);
+    const tokens = usage.total.inputTokens + usage.total.outputTokens;
+
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        {
+          type: "text",
+          text: `🤖 AI MODELS:\n${models.join('\n')}\n\n💰 ${usage.total.calls} AI call(s), ${tokens} tokens, ${formatUsd(usage.total.costUsd)}` +
+            (aiCache ? `\n🗄️ Cache: ${this.describeCacheHits(usage.total)}` : ''),
         },
-      },
-      {
-        name: "start_project_with_notebook",
-        description: "PHASE 1 (NotebookLM): Start new project using NotebookLM documentation as source. Alternative to start_project when you have pre-existing documentation. Fetches documentation from NotebookLM and generates decision matrix enriched with notebook content.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Project name (e.g., 'real-estate-management')",
-            },
-            project_type: {
-              type: "string",
-              description: "Project type",
-              enum: ["web", "api", "cli", "desktop", "mobile", "library"],
-            },
-            notebook_name: {
-              type: "string",
-              description: "Name of NotebookLM notebook to use as documentation source",
-            },
-            additional_requirements: {
-              type: "array",
-              items: { type: "string" },
-              description: "Optional additional requirements not in notebook",
-              default: [],
-            },
-          },
-          required: ["project_name", "project_type", "notebook_name"],
+      ],
+    };
+  }
+
+  /**
+   * Attach warnings (e.g. PARSE_FALLBACK_USED) to a successful tool result
+   */
+  private withWarnings<T extends { content: Array<{ type: string; text: string }> }>(
+    result: T,
+    warnings: AppCreatorWarning[]
+  ) {
+    if (warnings.length === 0) {
+      return { ...result, isError: false };
+    }
+
+    const lines = warnings.map(w => `  • ${w.code}: ${w.message}${w.context ? ` (${w.context})` : ''}`);
+    const hints = [...new Set(warnings.map(w => w.hint))].map(hint => `💡 ${hint}`);
+
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        { type: "text", text: `⚠️  WARNINGS:\n${lines.join('\n')}\n\n${hints.join('\n')}` },
+      ],
+      structuredContent: { warnings },
+      isError: false,
+    };
+  }
+
+  /**
+   * Turn a thrown error into a tool result with code, hint and isError
+   */
+  private toErrorResult(error: unknown) {
+    const appError = toAppCreatorError(error);
+    if (appError.code === 'INTERNAL_ERROR') {
+      console.error('Unexpected error in tool call:', error);
+    }
+
+    const summary = error instanceof ToolArgumentsError
+      ? `Invalid arguments for "${error.toolName}":\n${error.invalidFields.map(f => `  • ${f.field}: ${f.message}`).join('\n')}`
+      : appError.message;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ ${appError.code}: ${summary}
+
+💡 ${appError.hint}`,
         },
-      },
-      {
-        name: "approve_architecture_with_notebook",
-        description: "PHASE 2 (NotebookLM): After user answers decision matrix, generate Spec-Kit enriched with NotebookLM documentation. Combines notebook content with AI research for complete specifications.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            notebook_name: {
-              type: "string",
-              description: "Name of NotebookLM notebook used",
-            },
-            decision_matrix_answers: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  questionId: { type: "string" },
-                  answer: { type: "string" },
-                },
-              },
-              description: "User's answers to decision matrix questions",
-            },
-            additional_requirements: {
-              type: "array",
-              items: { type: "string" },
-              description: "Additional requirements",
-              default: [],
-            },
-          },
-          required: ["project_name", "notebook_name", "decision_matrix_answers"],
+      ],
+      structuredContent: {
+        error: {
+          code: appError.code,
+          message: appError.message,
+          hint: appError.hint,
+          ...(appError.details ? { details: appError.details } : {}),
         },
       },
-      {
-        name: "generate_a2ui_frontend",
-        description: "PHASE 4 (A2UI): Generate AI-powered frontend using Google's A2UI standard. Creates declarative UI spec, implementation code (React/Vue/etc.), and Google Stitch-compatible prompt. More advanced than traditional frontend_prompt.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project",
-            },
-            platform: {
-              type: "string",
-              enum: ["web", "mobile", "desktop"],
-              description: "Target platform",
-            },
-            framework: {
-              type: "string",
-              enum: ["react", "vue", "angular", "native"],
-              description: "Frontend framework",
-            },
-            ui_library: {
-              type: "string",
-              enum: ["material-ui", "tailwind", "chakra", "ant-design", "custom"],
-              description: "UI component library",
-            },
-            design_style: {
-              type: "string",
-              enum: ["modern", "minimal", "professional", "playful"],
-              description: "Design aesthetic",
-            },
-            color_scheme: {
-              type: "string",
-              enum: ["light", "dark", "auto"],
-              description: "Color scheme preference",
-            },
-            primary_color: {
-              type: "string",
-              description: "Primary brand color (e.g., 'blue', 'green', '#3B82F6')",
-            },
-            features: {
-              type: "array",
-              items: { type: "string" },
-              description: "UI features (e.g., 'dark-mode-toggle', 'responsive', 'animations')",
-              default: ["responsive", "accessible"],
-            },
-          },
-          required: ["project_name", "platform", "framework", "ui_library", "design_style", "color_scheme", "primary_color"],
-        },
+      isError: true,
+    };
+  }
+
+  /**
+   * Notify subscribers about artifacts a tool call created or changed
+   */
+  private async notifyResourceChanges(projectName: string | undefined): Promise<void> {
+    if (!projectName) {
+      return;
+    }
+
+    try {
+      const previous = this.resourceFingerprints.get(projectName) ?? new Map<string, number>();
+      const current = await projectResources.snapshot(projectName);
+      this.resourceFingerprints.set(projectName, current);
+
+      for (const [uri, mtime] of current) {
+        if (previous.get(uri) !== mtime && this.resourceSubscriptions.has(uri)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+
+      const listChanged = current.size !== previous.size || [...current.keys()].some(uri => !previous.has(uri));
+      if (listChanged) {
+        await this.server.sendResourceListChanged();
+      }
+    } catch (error) {
+      console.error(`Failed to send resource notifications for "${projectName}":`, error);
+    }
+  }
+
+  /**
+   * Load workflow state from disk
+   *
+   * Not cached: in HTTP mode every session has its own server instance, and
+   * all of them share the projects on disk.
+   */
+  private async getWorkflowState(projectName: string): Promise<WorkflowState | undefined> {
+    return (await workflowStore.load(projectName))?.workflowState;
+  }
+
+  /**
+   * Get workflow state or fail with PROJECT_NOT_FOUND
+   */
+  private async requireWorkflowState(projectName: string): Promise<WorkflowState> {
+    const state = await this.getWorkflowState(projectName);
+
+    if (!state) {
+      throw new AppCreatorError('PROJECT_NOT_FOUND', `Project '${projectName}' not found`);
+    }
+
+    return state;
+  }
+
+  /**
+   * Change a project's workflow state and save it, under the project lock
+   *
+   * Tools that change a project run through here (or workflowStore.update),
+   * so overlapping calls on one project never overwrite each other.
+   */
+  private async updateWorkflowState<T>(projectName: string, mutator: (state: WorkflowState) => Promise<T>): Promise<T> {
+    return await workflowStore.update(projectName, async draft => {
+      if (!draft.workflowState) {
+        throw new AppCreatorError('PROJECT_NOT_FOUND', `Project '${projectName}' not found`);
+      }
+      return await mutator(draft.workflowState);
+    });
+  }
+
+  /**
+   * Persist workflow state to disk (partial outputs within an update)
+   */
+  private async saveWorkflowState(state: WorkflowState): Promise<void> {
+    await workflowStore.save(state.projectName, { workflowState: state }, state.projectPath);
+  }
+
+  /**
+   * Resolve a project's directory (states saved before output_dir support have no projectPath)
+   */
+  private getProjectPath(state: WorkflowState): string {
+    return state.projectPath ?? projectLocator.resolveProjectPath(state.projectName);
+  }
+
+  /**
+   * Persist smart workflow analysis to disk
+   *
+   * Called on its own for a new analysis and within an update for partial outputs.
+   */
+  private async saveProjectAnalysis(projectName: string, analysis: ProjectAnalysis): Promise<void> {
+    await workflowStore.save(
+      projectName,
+      { analysis },
+      projectLocator.resolveProjectPath(projectName, analysis.requirements.outputDir)
+    );
+  }
+
+  /**
+   * Create the step runner for a long-running tool call
+   *
+   * Sends MCP progress notifications when the client supplied a progressToken,
+   * honours cancellation and persists partial outputs through `persist`.
+   */
+  private createRunControl(
+    tool: string,
+    inputs: unknown,
+    extra: ToolCallExtra,
+    previousRun: GenerationRun | undefined,
+    persist: (run: GenerationRun) => Promise<void>
+  ): RunControl {
+    const progressToken = extra._meta?.progressToken;
+
+    return new RunControl({
+      tool,
+      inputs,
+      signal: extra.signal,
+      previousRun,
+      persist,
+      onProgress: progressToken === undefined ? undefined : async (progress, total, message) => {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        });
       },
-      {
-        name: "analyze_project_requirements",
-        description: "SMART WORKFLOW STEP 1: Analyze project requirements and get AI-driven recommendations. Automatically detects project scale, checks NotebookLM availability (graceful fallback), and generates technical recommendations (database, architecture, auth, frontend) with detailed rationale. User receives a comprehensive summary for single approval. NO technical decisions required from user - AI recommends optimal choices based on project needs.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Project name (e.g., 'real-estate-tracker')",
-            },
-            project_type: {
-              type: "string",
-              enum: ["web", "api", "cli", "desktop", "mobile", "library"],
-              description: "Project type",
-            },
-            description: {
-              type: "string",
-              description: "Detailed project description explaining what the app should do",
-            },
-            features: {
-              type: "array",
-              items: { type: "string" },
-              description: "List of required features",
-            },
-            notebook_name: {
-              type: "string",
-              description: "Optional: NotebookLM notebook name for documentation-based generation. If not available or not provided, system gracefully falls back to standard AI generation.",
-            },
-            expected_users: {
-              type: "number",
-              description: "Optional: Expected number of concurrent users (helps with scale detection). If not provided, AI will infer from description.",
-            },
-            data_volume: {
-              type: "string",
-              enum: ["small", "medium", "large", "massive"],
-              description: "Optional: Expected data volume. If not provided, AI will infer from description.",
-            },
-            branches: {
-              type: "array",
-              items: { type: "string" },
-              description: "Optional: Geographic branches/locations (helps determine if distributed architecture needed)",
-              default: [],
-            },
-          },
-          required: ["project_name", "project_type", "description", "features"],
+    });
+  }
+
+  /**
+   * PHASE 1: Start project with decision matrix
+   */
+  private async startProject(args: ToolInput<'start_project'>) {
+    const { project_name, project_type, description, requirements, output_dir, max_rounds } = args;
+    const projectPath = projectLocator.resolveProjectPath(project_name, output_dir);
+    const { result } = await workflowStore.update(project_name, async draft => {
+      phaseMachine.assertCanRun('start_project', draft.workflowState);
+
+      console.error(`\n🚀 PHASE 1: Starting project "${project_name}"`);
+
+      const result = await masterOrchestrator.startProject(
+        project_name,
+        project_type,
+        description,
+        requirements,
+        max_rounds
+      );
+
+      // Initialize workflow state
+      const workflowState: WorkflowState = {
+        projectName: project_name,
+        projectPath,
+        description,
+        currentPhase: 'requirements',
+        completedPhases: [],
+        requirements,
+        decisionMatrix: result.decisionMatrix,
+        postmanGenerated: false,
+        frontendPromptGenerated: false,
+        bddTestsGenerated: false,
+        tasksCompleted: 0,
+        lastCheckpointTask: 0,
+        completedTaskIds: [],
+        issues: [],
+        a2uiGenerated: false,
+      };
+
+      phaseMachine.apply('start_project', workflowState);
+      draft.workflowState = workflowState;
+      return { result };
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ PHASE 1 COMPLETE: Decision Matrix Generated
+
+Project: ${project_name}
+Type: ${project_type}
+
+📋 Decision Matrix Questions (${result.decisionMatrix.questions.length} questions):
+
+${result.decisionMatrix.questions.map((q: any, i: number) =>
+            `${i + 1}. [${q.category.toUpperCase()}] ${q.question}
+   Type: ${q.type}
+   ${q.options ? `Options: ${q.options.join(', ')}` : ''}
+`).join('\n')}
+
+📊 STACK RANKING (refined by your answers at approval, try other weights with "what_if_weights"):
+${masterOrchestrator.formatStackScoring(result.decisionMatrix.stackScoring)}
+
+🎯 NEXT STEP:
+Please review these questions and provide your answers. Then call the "approve_architecture" tool with your answers to proceed to Spec-Kit generation.
+Optionally call "research_tech_stacks" first to get candidate stacks scored and ranked for this project.${max_rounds > 1 ? `
+To have conflicting or incomplete answers clarified first, call "answer_followups" with the same answers (up to ${max_rounds - 1} follow-up round(s)).` : ''}
+
+Example:
+{
+  "project_name": "${project_name}",
+  "decision_matrix_answers": [
+    { "questionId": "arch_01", "answer": "Microservices" },
+    { "questionId": "tech_01", "answer": "PostgreSQL" },
+    ...
+  ]
+}`,
         },
-      },
-      {
-        name: "create_project_from_analysis",
-        description: "SMART WORKFLOW STEP 2: Execute project creation after user approves AI recommendations. Generates complete Spec-Kit with recommended architecture, implements all phases (backend, API tests, A2UI frontend, BDD tests), and preserves context. Call this after analyze_project_requirements and user approval.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            project_name: {
-              type: "string",
-              description: "Name of the project (must match the one from analyze_project_requirements)",
-            },
-            approved: {
-              type: "boolean",
-              description: "User approval confirmation (true to proceed, false to cancel)",
-            },
-          },
-          required: ["project_name", "approved"],
+      ],
+    };
+  }
+
+  /**
+   * PHASE 1 (multi-round): Record answers, review them and ask follow-up questions
+   */
+  private async answerFollowUps(args: ToolInput<'answer_followups'>) {
+    const { project_name, answers } = args;
+    const { state, answerReport, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('answer_followups', current);
+
+      const answerReport = this.checkMatrixAnswers('answer_followups', state.decisionMatrix, answers, false);
+      const result = await masterOrchestrator.answerFollowUps(state.decisionMatrix, answerReport.answers);
+      state.decisionMatrix.stackScoring = masterOrchestrator.scoreStacks(state.decisionMatrix, state.requirements);
+      return { state, answerReport, result };
+    });
+
+    const rounds = state.decisionMatrix.rounds ?? [];
+    const maxRounds = state.decisionMatrix.maxRounds ?? rounds.length;
+    const listQuestions = (questions: MatrixQuestion[]) => questions.map(q =>
+      `  • [${q.id}] (${q.category}, ${q.type}) ${q.question}${q.options ? `\n    Options: ${q.options.join(', ')}` : ''}${q.reason ? `\n    Why: ${q.reason}` : ''}`
+    ).join('\n');
+
+    let status: string;
+    if (result.unanswered.length > 0) {
+      status = `⏳ Round ${rounds.length} still has ${result.unanswered.length} unanswered question(s):\n${listQuestions(result.unanswered)}\n\n🎯 NEXT STEP:\nCall "answer_followups" with answers to these questions.`;
+    } else if (result.followUps.length > 0) {
+      status = `❓ ROUND ${rounds.length} of ${maxRounds}: ${result.followUps.length} follow-up question(s)\n${listQuestions(result.followUps)}\n\n🎯 NEXT STEP:\nCall "answer_followups" with answers to these questions.`;
+    } else {
+      const limitReached = result.issues.length > 0 && rounds.length >= maxRounds;
+      status = `✅ DECISION MATRIX COMPLETE${limitReached ? ` (round limit of ${maxRounds} reached, remaining issues are listed above)` : ''}\n\n🎯 NEXT STEP:\nCall "approve_architecture" (decision_matrix_answers can be left empty) to generate the Spec-Kit.`;
+    }
+
+    const issues = result.issues.length > 0
+      ? `⚠️ ISSUES FOUND:\n${result.issues.map(issue => `  • ${issue.kind === 'contradiction' ? 'Contradiction' : 'Missing'} [${issue.questionIds.join(', ')}]: ${issue.description}`).join('\n')}\n\n`
+      : '';
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📋 Decision Matrix: ${project_name}
+${this.describeNormalizedAnswers(answerReport)}
+${issues}${status}
+
+🌳 Q&A TREE:
+${this.formatQATree(masterOrchestrator.getQATree(state.decisionMatrix))}`,
         },
-      },
-    ];
+      ],
+    };
   }
 
   /**
-   * PHASE 1: Start project with decision matrix
+   * Check answers (merged over the stored ones) against the decision matrix questions
+   *
+   * Fails with INVALID_ARGUMENTS and the per-question report on unknown
+   * questions or invalid answers, and with `requireAll` also on unanswered
+   * required questions.
    */
-  private async startProject(args: any) {
-    const { project_name, project_type, description, requirements } = args;
+  private checkMatrixAnswers(tool: string, matrix: DecisionMatrix, answers: MatrixAnswer[], requireAll: boolean): AnswerReport {
+    const report = answerValidator.validate(matrix.questions, mergeAnswers(matrix.answers ?? [], answers));
+    const unanswered = requireAll ? report.unansweredRequired.length : 0;
+
+    if (report.unknownQuestionIds.length + report.invalidQuestionIds.length + unanswered > 0) {
+      const problems = [
+        report.unknownQuestionIds.length > 0 ? [`${report.unknownQuestionIds.length} unknown question(s)`, 'drop the ❓ question ids'] : [],
+        report.invalidQuestionIds.length > 0 ? [`${report.invalidQuestionIds.length} invalid answer(s)`, 'fix the ❌ answers'] : [],
+        unanswered > 0 ? [`${unanswered} unanswered required question(s)`, 'answer the ⏳ questions'] : [],
+      ].filter(problem => problem.length > 0);
+
+      throw new AppCreatorError(
+        'INVALID_ARGUMENTS',
+        `Decision matrix answers need attention (${problems.map(([count]) => count).join(', ')}):\n${answerValidator.formatReport(report)}`,
+        {
+          hint: `${problems.map(([, fix]) => fix).join(', ')}, then call "${tool}" again.`.replace(/^./, c => c.toUpperCase()),
+          details: { answerReport: report },
+        }
+      );
+    }
 
-    console.error(`\n🚀 PHASE 1: Starting project "${project_name}"`);
+    return report;
+  }
 
-    const result = await masterOrchestrator.startProject(
-      project_name,
-      project_type,
-      description,
-      requirements
-    );
+  /**
+   * Answers that were matched to an option or reshaped, as a result section
+   */
+  private describeNormalizedAnswers(report: AnswerReport): string {
+    const normalized = report.checks.filter(check => check.status === 'normalized');
+    if (normalized.length === 0) {
+      return '';
+    }
 
-    // Initialize workflow state
-    const workflowState: WorkflowState = {
-      projectName: project_name,
-      currentPhase: 'decision_matrix',
-      completedPhases: ['requirements'],
-      requirements,
-      decisionMatrix: result.decisionMatrix,
-      postmanGenerated: false,
-      frontendPromptGenerated: false,
-      bddTestsGenerated: false,
-      tasksCompleted: 0,
-      lastCheckpointTask: 0,
-      issues: [],
-      a2uiGenerated: false,
+    return `\n🔧 Answers normalized:\n${normalized.map(check =>
+      `  • [${check.questionId}] ${JSON.stringify(check.given)} → ${JSON.stringify(check.answer)}`
+    ).join('\n')}\n`;
+  }
+
+  /**
+   * Indented Q&A tree, follow-ups under the questions they follow up on
+   */
+  private formatQATree(nodes: QANode[], depth: number = 0): string {
+    return nodes.map(node => {
+      const indent = '   '.repeat(depth);
+      const answer = node.answer === undefined ? '(not answered)' : JSON.stringify(node.answer);
+      const line = `${indent}${depth > 0 ? '↳ ' : '• '}[${node.question.id}] (round ${node.round}) ${node.question.question} → ${answer}`;
+      return node.followUps.length > 0 ? `${line}\n${this.formatQATree(node.followUps, depth + 1)}` : line;
+    }).join('\n');
+  }
+
+  /**
+   * PHASE 1b: Research and rank tech stacks, saved with the decision matrix
+   */
+  private async researchTechStacks(args: ToolInput<'research_tech_stacks'>) {
+    const { project_name, constraints, team_experience, timeline_months, budget_level } = args;
+    const { result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('research_tech_stacks', current);
+      const description = state.description ?? state.requirements.join('\n');
+
+      const result = await masterOrchestrator.researchTechStacks(project_name, {
+        project_description: description,
+        requirements: state.requirements.length > 0 ? state.requirements : [description],
+        constraints,
+        project_type: state.decisionMatrix.projectType,
+        team_experience,
+        timeline_months,
+        budget_level,
+      });
+
+      state.decisionMatrix.stackResearch = {
+        stacks: result.stacks,
+        rationale: result.researchRationale,
+        researchedAt: new Date().toISOString(),
+      };
+      state.decisionMatrix.stackScoring = masterOrchestrator.scoreStacks(state.decisionMatrix, state.requirements);
+      return { result };
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${result.detailedAnalysis}
+
+🎯 NEXT STEP:
+The ranking (top: ${result.recommendation}) is saved with the decision matrix and guides the technical plan. Answer the decision matrix questions and call "approve_architecture".`,
+        },
+      ],
     };
+  }
 
-    this.workflowStates.set(project_name, workflowState);
+  /**
+   * Re-score the ranked stacks with other weights and show how fragile the top stack is
+   */
+  private async whatIfWeights(args: ToolInput<'what_if_weights'>) {
+    const { project_name, weights, flip_threshold } = args;
+    const state = await this.requireWorkflowState(project_name);
+    if (!state.decisionMatrix) {
+      throw phaseOrderViolation(`Project '${project_name}' has no ranked tech stacks yet.`, ['start_project', 'start_project_with_notebook']);
+    }
+
+    // Projects started before stack scoring get their ranking now
+    const scoring: StackScoring = state.decisionMatrix.stackScoring
+      ?? masterOrchestrator.scoreStacks(state.decisionMatrix, state.requirements);
+    const result = masterOrchestrator.whatIfWeights(scoring, weights, flip_threshold);
+    const { sensitivity } = result;
+
+    const percent = (weight: number) => `${Math.round(weight * 100)}%`;
+    const weightChanges = (Object.keys(CRITERIA_LABELS) as Array<keyof CriteriaWeights>)
+      .map(criterion => `${CRITERIA_LABELS[criterion]} ${percent(result.before.weights[criterion])} → ${percent(result.after.weights[criterion])}`)
+      .join(' · ');
+    const previousRank = new Map(result.before.stacks.map(stack => [stack.name, stack]));
+    const rankChanges = result.after.stacks
+      .filter(stack => previousRank.get(stack.name)?.ranking !== stack.ranking)
+      .map(stack => `  • ${stack.name}: #${previousRank.get(stack.name)?.ranking} → #${stack.ranking}`);
+    const fragile = sensitivity.criteria
+      .filter(criterion => criterion.fragile)
+      .map(criterion => {
+        const raise = criterion.overtakenAbove !== undefined
+          && (criterion.overtakenBelow === undefined || criterion.max - criterion.weight <= criterion.weight - criterion.min);
+        return `  • ${CRITERIA_LABELS[criterion.criterion]}: ${raise ? 'raising' : 'lowering'} its weight by ${Math.round(criterion.margin! * 1000) / 10} points makes ${raise ? criterion.overtakenAbove : criterion.overtakenBelow} the top stack`;
+      });
+
+    const report = {
+      project: project_name,
+      source: scoring.source,
+      weights: { before: result.before.weights, after: result.after.weights },
+      topStack: { before: result.before.stacks[0]?.name ?? null, after: sensitivity.topStack },
+      stacks: result.after.stacks.map(stack => ({
+        rank: stack.ranking,
+        name: stack.name,
+        score: stack.score,
+        previousRank: previousRank.get(stack.name)?.ranking ?? null,
+        previousScore: previousRank.get(stack.name)?.score ?? null,
+        breakdown: stack.breakdown,
+      })),
+      sensitivity,
+    };
 
     return {
       content: [
         {
           type: "text",
-          text: `✅ PHASE 1 COMPLETE: Decision Matrix Generated
+          text: `🔀 WHAT-IF: ${project_name}
+
+⚖️ Weights: ${weightChanges}
 
-Project: ${project_name}
-Type: ${project_type}
+📊 Ranking under these weights:
+${new ScoringMatrix(result.after.weights).generateComparisonTable(result.after.stacks)}
 
-📋 Decision Matrix Questions (${result.decisionMatrix.questions.length} questions):
+${rankChanges.length > 0 ? `🔁 Rank changes:\n${rankChanges.join('\n')}` : '🔁 Rank changes: none'}
 
-${result.decisionMatrix.questions.map((q: any, i: number) =>
-            `${i + 1}. [${q.category.toUpperCase()}] ${q.question}
-   Type: ${q.type}
-   ${q.options ? `Options: ${q.options.join(', ')}` : ''}
-`).join('\n')}
+🎯 Sensitivity (each weight moved on its own, the others scaled to keep the sum at 100%):
+${new ScoringMatrix(result.after.weights).generateSensitivityTable(sensitivity)}
 
-🎯 NEXT STEP:
-Please review these questions and provide your answers. Then call the "approve_architecture" tool with your answers to proceed to Spec-Kit generation.
+${sensitivity.fragile
+            ? `⚠️ FRAGILE: a weight change of ${Math.round(sensitivity.threshold * 100)} points or less changes the top stack:\n${fragile.join('\n')}`
+            : `✅ ROBUST: no single weight change of ${Math.round(sensitivity.threshold * 100)} points or less changes the top stack`}
+Score gap to the runner-up${sensitivity.runnerUp ? ` (${sensitivity.runnerUp})` : ''}: ${sensitivity.scoreGap} points
 
-Example:
-{
-  "project_name": "${project_name}",
-  "decision_matrix_answers": [
-    { "questionId": "arch_01", "answer": "Microservices" },
-    { "questionId": "tech_01", "answer": "PostgreSQL" },
-    ...
-  ]
-}`,
+Nothing was saved. The approved ranking still uses the weights derived from the decision matrix answers.`,
+        },
+        {
+          type: "text",
+          text: JSON.stringify(report, null, 2),
         },
       ],
     };
@@ -559,37 +1025,57 @@ Example:
   /**
    * PHASE 2: Generate Spec-Kit after architecture approval
    */
-  private async approveArchitecture(args: any) {
+  private async approveArchitecture(args: ToolInput<'approve_architecture'>, extra: ToolCallExtra) {
     const { project_name, decision_matrix_answers } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.decisionMatrix) {
-      throw new Error(`Project not started. Call start_project first.`);
-    }
-
-    console.error(`\n📚 PHASE 2: Generating Spec-Kit for "${project_name}"`);
-
-    // Complete decision matrix with answers
-    const completedMatrix = {
-      ...state.decisionMatrix,
-      answers: decision_matrix_answers,
-    };
+    const { answerReport, completedMatrix, projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('approve_architecture', current);
+
+      // Check answers (on top of those given through answer_followups) before anything is generated
+      const answerReport = this.checkMatrixAnswers('approve_architecture', state.decisionMatrix, decision_matrix_answers, true);
+
+      console.error(`\n📚 PHASE 2: Generating Spec-Kit for "${project_name}"`);
+
+      // Keyed by the merged answers: answer_followups may have changed them since a cancelled run
+      const run = this.createRunControl(
+        'approve_architecture',
+        answerReport.answers,
+        extra,
+        state.generationRun,
+        async (generationRun) => {
+          state.generationRun = generationRun;
+          await this.saveWorkflowState(state);
+        }
+      );
+      if (run.isResumed()) {
+        console.error(`   ↪ Resuming unfinished run from ${run.getRun().updatedAt}`);
+      }
 
-    // Generate Spec-Kit
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateSpecKit(
-      project_name,
-      state.decisionMatrix.projectType,
-      state.requirements.join('\n'),
-      completedMatrix,
-      projectPath
-    );
+      // Complete decision matrix with the normalized answers
+      const completedMatrix = {
+        ...state.decisionMatrix,
+        answers: answerReport.answers,
+      };
+      completedMatrix.stackScoring = masterOrchestrator.scoreStacks(completedMatrix, state.requirements);
+      state.decisionMatrix.stackScoring = completedMatrix.stackScoring;
+
+      // Generate Spec-Kit
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateSpecKit(
+        project_name,
+        state.decisionMatrix.projectType,
+        state.requirements.join('\n'),
+        completedMatrix,
+        projectPath,
+        run
+      );
 
-    // Update workflow state
-    state.specKit = result.specKit;
-    state.pomlState = result.pomlState;
-    state.currentPhase = 'backend_dev';
-    state.completedPhases.push('decision_matrix', 'spec_kit');
+      // Update workflow state
+      state.specKit = result.specKit;
+      state.pomlState = result.pomlState;
+      phaseMachine.apply('approve_architecture', state);
+      delete state.generationRun;
+      return { answerReport, completedMatrix, projectPath, result };
+    });
 
     return {
       content: [
@@ -598,6 +1084,9 @@ Example:
           text: `✅ PHASE 2 COMPLETE: Spec-Kit Generated
 
 📁 Project Location: ${projectPath}
+${this.describeNormalizedAnswers(answerReport)}
+📊 Stack Ranking (weighted by your answers, try other weights with "what_if_weights"):
+${masterOrchestrator.formatStackScoring(completedMatrix.stackScoring)}
 
 📄 Generated Files:
 ${result.files.map(f => `  ✓ ${f}`).join('\n')}
@@ -621,7 +1110,7 @@ ${Object.entries(
   • Checkpoint system active (every 20-25 tasks)
 
 🎯 NEXT STEPS:
-1. Review the generated Spec-Kit in ${projectPath}/docs/
+1. Review the generated Spec-Kit in ${join(projectPath, 'docs')}
 2. Begin backend development
 3. Call "generate_api_tests" when APIs are ready for testing
 4. Use "complete_task" to mark tasks done (auto-checkpoint every 20-25 tasks)
@@ -634,25 +1123,23 @@ ${Object.entries(
   /**
    * PHASE 3: Generate API tests
    */
-  private async generateAPITests(args: any) {
+  private async generateAPITests(args: ToolInput<'generate_api_tests'>) {
     const { project_name } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.specKit) {
-      throw new Error(`Spec-Kit not generated. Call approve_architecture first.`);
-    }
+    const { projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('generate_api_tests', current);
 
-    console.error(`\n🧪 PHASE 3: Generating API Tests for "${project_name}"`);
+      console.error(`\n🧪 PHASE 3: Generating API Tests for "${project_name}"`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateAPITests(
-      state.specKit,
-      projectPath
-    );
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateAPITests(
+        state.specKit,
+        projectPath
+      );
 
-    state.postmanGenerated = true;
-    state.currentPhase = 'api_testing';
-    state.completedPhases.push('backend_dev');
+      state.postmanGenerated = true;
+      phaseMachine.apply('generate_api_tests', state);
+      return { projectPath, result };
+    });
 
     return {
       content: [
@@ -667,7 +1154,7 @@ ${Object.entries(
 ${result.environmentPaths.map(p => `  ✓ ${p}`).join('\n')}
 
 📖 Testing Guide:
-  ✓ ${projectPath}\\docs\\API_TESTING_GUIDE.md
+  ✓ ${join(projectPath, 'docs', 'API_TESTING_GUIDE.md')}
 
 🧪 Newman Commands:
   • Run all tests:
@@ -693,13 +1180,9 @@ ${result.environmentPaths.map(p => `  ✓ ${p}`).join('\n')}
   /**
    * PHASE 4a: Ask frontend questions
    */
-  private async askFrontendQuestions(args: any) {
+  private async askFrontendQuestions(args: ToolInput<'ask_frontend_questions'>) {
     const { project_name } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state) {
-      throw new Error(`Project not found`);
-    }
+    const state = await this.requireWorkflowState(project_name);
 
     const questions = `📝 Frontend Preferences Questions:
 
@@ -744,26 +1227,24 @@ After answering, call "generate_frontend_prompt" with your answers in this forma
   /**
    * PHASE 4b: Generate frontend prompt
    */
-  private async generateFrontendPrompt(args: any) {
+  private async generateFrontendPrompt(args: ToolInput<'generate_frontend_prompt'>) {
     const { project_name, frontend_answers } = args;
-    const state = this.workflowStates.get(project_name);
+    const { projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('generate_frontend_prompt', current);
 
-    if (!state || !state.specKit) {
-      throw new Error(`Spec-Kit not generated`);
-    }
-
-    console.error(`\n🎨 PHASE 4: Generating Frontend Prompt for "${project_name}"`);
+      console.error(`\n🎨 PHASE 4: Generating Frontend Prompt for "${project_name}"`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateFrontendPrompt(
-      state.specKit,
-      frontend_answers,
-      projectPath
-    );
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateFrontendPrompt(
+        state.specKit,
+        frontend_answers,
+        projectPath
+      );
 
-    state.frontendPromptGenerated = true;
-    state.currentPhase = 'frontend_prompt';
-    state.completedPhases.push('api_testing');
+      state.frontendPromptGenerated = true;
+      phaseMachine.apply('generate_frontend_prompt', state);
+      return { projectPath, result };
+    });
 
     return {
       content: [
@@ -801,25 +1282,23 @@ After answering, call "generate_frontend_prompt" with your answers in this forma
   /**
    * PHASE 5: Generate BDD tests
    */
-  private async generateBDDTests(args: any) {
+  private async generateBDDTests(args: ToolInput<'generate_bdd_tests'>) {
     const { project_name } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.specKit) {
-      throw new Error(`Spec-Kit not generated`);
-    }
+    const { projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('generate_bdd_tests', current);
 
-    console.error(`\n🥒 PHASE 5: Generating BDD Tests for "${project_name}"`);
+      console.error(`\n🥒 PHASE 5: Generating BDD Tests for "${project_name}"`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateBDDTests(
-      state.specKit,
-      projectPath
-    );
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateBDDTests(
+        state.specKit,
+        projectPath
+      );
 
-    state.bddTestsGenerated = true;
-    state.currentPhase = 'bdd_testing';
-    state.completedPhases.push('frontend_integration');
+      state.bddTestsGenerated = true;
+      phaseMachine.apply('generate_bdd_tests', state);
+      return { projectPath, result };
+    });
 
     return {
       content: [
@@ -862,27 +1341,29 @@ ${result.configPaths.map(p => `  ✓ ${p}`).join('\n')}
   /**
    * Create checkpoint for context preservation
    */
-  private async createCheckpoint(args: any) {
+  private async createCheckpoint(args: ToolInput<'create_checkpoint'>) {
     const { project_name, completed_task_ids, current_task_id = null, issues_encountered = [] } = args;
-    const state = this.workflowStates.get(project_name);
+    const { state, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('create_checkpoint', current);
 
-    if (!state || !state.pomlState) {
-      throw new Error(`Project not found or Spec-Kit not generated`);
-    }
-
-    console.error(`\n💾 Creating Checkpoint for "${project_name}"`);
+      console.error(`\n💾 Creating Checkpoint for "${project_name}"`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.createCheckpoint(
-      state.pomlState,
-      completed_task_ids,
-      current_task_id,
-      issues_encountered,
-      projectPath
-    );
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.createCheckpoint(
+        state.pomlState,
+        completed_task_ids,
+        current_task_id,
+        issues_encountered,
+        projectPath
+      );
 
-    state.tasksCompleted += completed_task_ids.length;
-    state.lastCheckpointTask = state.tasksCompleted;
+      // Tasks already recorded by complete_task are not counted twice
+      const newlyCompleted = [...new Set(completed_task_ids)].filter(id => !state.completedTaskIds.includes(id));
+      state.completedTaskIds = [...state.completedTaskIds, ...newlyCompleted];
+      state.tasksCompleted += newlyCompleted.length;
+      state.lastCheckpointTask = state.tasksCompleted;
+      return { state, result };
+    });
 
     return {
       content: [
@@ -919,15 +1400,12 @@ ${result.continuationPrompt.substring(0, 500)}...
   /**
    * Get workflow status
    */
-  private async getWorkflowStatus(args: any) {
+  private async getWorkflowStatus(args: ToolInput<'get_workflow_status'>) {
     const { project_name } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state) {
-      throw new Error(`Project '${project_name}' not found`);
-    }
+    const state = await this.requireWorkflowState(project_name);
 
     const checkpointNeeded = state.tasksCompleted - state.lastCheckpointTask >= 20;
+    const usage = (await workflowStore.load(project_name))?.usage ?? createUsageLedger();
 
     return {
       content: [
@@ -938,6 +1416,7 @@ ${result.continuationPrompt.substring(0, 500)}...
               project: project_name,
               currentPhase: state.currentPhase,
               completedPhases: state.completedPhases,
+              nextTools: phaseMachine.nextTools(state),
               tasksCompleted: state.tasksCompleted,
               totalTasks: state.specKit?.tasks.length || 0,
               progress: state.pomlState?.overallProgress || 0,
@@ -946,6 +1425,14 @@ ${result.continuationPrompt.substring(0, 500)}...
               frontendPromptGenerated: state.frontendPromptGenerated,
               bddTestsGenerated: state.bddTestsGenerated,
               issues: state.issues,
+              unfinishedRun: state.generationRun
+                ? {
+                    tool: state.generationRun.tool,
+                    completedSteps: state.generationRun.completedSteps,
+                    updatedAt: state.generationRun.updatedAt,
+                  }
+                : null,
+              usage: this.describeUsage(usage),
             },
             null,
             2
@@ -956,45 +1443,113 @@ ${result.continuationPrompt.substring(0, 500)}...
   }
 
   /**
-   * Complete a task (auto-checkpoint if needed)
+   * Show a project's AI audit log, newest calls first
    */
-  private async completeTask(args: any) {
-    const { project_name, task_id } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.pomlState) {
-      throw new Error(`Project not found`);
+  private async getAILog(args: ToolInput<'get_ai_log'>) {
+    const { project_name, phase, module, limit, include_content } = args;
+    if (!await workflowStore.load(project_name)) {
+      throw new AppCreatorError('PROJECT_NOT_FOUND', `Project '${project_name}' not found`);
     }
 
-    state.tasksCompleted++;
-    const tasksSinceCheckpoint = state.tasksCompleted - state.lastCheckpointTask;
+    const projectPath = await workflowStore.getProjectPath(project_name);
+    const { entries, total } = await aiAuditLog.read(projectPath, { phase, module, limit });
+    const excerpt = (text: string) =>
+      include_content || text.length <= 500 ? text : `${text.substring(0, 500)}… (${text.length} characters)`;
 
-    let checkpointCreated = false;
-    let checkpointInfo = null;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              project: project_name,
+              logDir: AIAuditLog.getLogDir(projectPath),
+              logging: aiLogEnabled,
+              filter: { phase: phase ?? null, module: module ?? null },
+              total,
+              returned: entries.length,
+              entries: entries.map(entry => ({ ...entry, prompt: excerpt(entry.prompt), response: excerpt(entry.response) })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
 
-    // Auto-checkpoint if 20+ tasks completed
-    if (tasksSinceCheckpoint >= 20) {
-      console.error(`\n⚠️  Auto-checkpoint triggered (${tasksSinceCheckpoint} tasks since last checkpoint)`);
+  /**
+   * Usage ledger with costs rounded for display and the remaining budget
+   */
+  private describeUsage(usage: UsageLedger) {
+    const round = (totals: UsageLedger['total']) => ({ ...totals, costUsd: Math.round(totals.costUsd * 10_000) / 10_000 });
+    const roundAll = (group: Record<string, UsageLedger['total']>) =>
+      Object.fromEntries(Object.entries(group).map(([key, totals]) => [key, round(totals)]));
 
-      const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-      const result = await masterOrchestrator.createCheckpoint(
-        state.pomlState,
-        [task_id],
-        null,
-        [],
-        projectPath
-      );
+    return {
+      total: round(usage.total),
+      byPhase: roundAll(usage.byPhase),
+      byModule: roundAll(usage.byModule),
+      models: usage.models ?? {},
+      cache: aiCache ? this.describeCacheHits(usage.total) : 'disabled',
+      budgetUsd: aiBudgetUsd || null,
+      remainingUsd: aiBudgetUsd ? Math.max(0, Math.round((aiBudgetUsd - usage.total.costUsd) * 10_000) / 10_000) : null,
+      ...(usage.unpricedModels.length > 0 ? { unpricedModels: usage.unpricedModels } : {}),
+    };
+  }
 
-      state.lastCheckpointTask = state.tasksCompleted;
-      checkpointCreated = true;
-      checkpointInfo = result.checkpoint;
-    }
+  /**
+   * Share of calls served from the response cache
+   */
+  private describeCacheHits(totals: UsageLedger['total']): string {
+    const rate = totals.calls > 0 ? Math.round((totals.cacheHits / totals.calls) * 100) : 0;
+    return `${totals.cacheHits}/${totals.calls} call(s) served from cache (${rate}%)`;
+  }
+
+  /**
+   * Complete a task (auto-checkpoint if needed)
+   */
+  private async completeTask(args: ToolInput<'complete_task'>) {
+    const { project_name, task_id } = args;
+    const { state, alreadyCompleted, tasksSinceCheckpoint, checkpointCreated, checkpointInfo } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('complete_task', current);
+
+      // Completing a task again does not count it twice
+      const alreadyCompleted = state.completedTaskIds.includes(task_id);
+      if (!alreadyCompleted) {
+        state.completedTaskIds = [...state.completedTaskIds, task_id];
+        state.tasksCompleted++;
+      }
+      const tasksSinceCheckpoint = state.tasksCompleted - state.lastCheckpointTask;
+
+      let checkpointCreated = false;
+      let checkpointInfo = null;
+
+      // Auto-checkpoint if 20+ tasks completed
+      if (tasksSinceCheckpoint >= 20) {
+        console.error(`\n⚠️  Auto-checkpoint triggered (${tasksSinceCheckpoint} tasks since last checkpoint)`);
+
+        const projectPath = this.getProjectPath(state);
+        const result = await masterOrchestrator.createCheckpoint(
+          state.pomlState,
+          this.getTasksSinceCheckpoint(state),
+          null,
+          [],
+          projectPath
+        );
+
+        state.lastCheckpointTask = state.tasksCompleted;
+        checkpointCreated = true;
+        checkpointInfo = result.checkpoint;
+      }
+      return { state, alreadyCompleted, tasksSinceCheckpoint, checkpointCreated, checkpointInfo };
+    });
 
     return {
       content: [
         {
           type: "text",
-          text: `✅ Task Completed: ${task_id}
+          text: `✅ Task Completed: ${task_id}${alreadyCompleted ? ' (already recorded, not counted again)' : ''}
 
 📊 Progress:
   • Total completed: ${state.tasksCompleted}/${state.specKit?.tasks.length || 0}
@@ -1014,39 +1569,90 @@ ${tasksSinceCheckpoint >= 15 ? '⚠️  Checkpoint recommended soon (20 tasks tr
   }
 
   /**
-   * NEW: Start project with NotebookLM documentation
+   * Tasks recorded as completed that no checkpoint includes yet
+   */
+  private getTasksSinceCheckpoint(state: StateFor<'complete_task'>): string[] {
+    const checkpointed = new Set(state.pomlState.checkpoints.flatMap(checkpoint => checkpoint.completedTasks));
+    return state.completedTaskIds.filter(id => !checkpointed.has(id));
+  }
+
+  /**
+   * Go back to an earlier phase
    */
-  private async startProjectWithNotebook(args: any) {
-    const { project_name, project_type, notebook_name, additional_requirements = [] } = args;
+  private async reopenPhase(args: ToolInput<'reopen_phase'>) {
+    const { project_name, phase } = args;
+    const { state, previousPhase, reopened } = await this.updateWorkflowState(project_name, async state => {
+      const previousPhase = state.currentPhase;
 
-    console.error(`\n📚 PHASE 1 (NotebookLM): Starting project "${project_name}"`);
-    console.error(`   Using NotebookLM: ${notebook_name}`);
+      const reopened = phaseMachine.reopen(state, phase);
+      return { state, previousPhase, reopened };
+    });
 
-    const result = await masterOrchestrator.startProjectWithNotebook(
-      project_name,
-      project_type,
-      notebook_name,
-      additional_requirements
-    );
+    const nextTools = phaseMachine.nextTools(state);
 
-    // Initialize workflow state
-    const workflowState: WorkflowState = {
-      projectName: project_name,
-      currentPhase: 'decision_matrix',
-      completedPhases: ['requirements'],
-      requirements: additional_requirements,
-      decisionMatrix: result.decisionMatrix,
-      postmanGenerated: false,
-      frontendPromptGenerated: false,
-      bddTestsGenerated: false,
-      tasksCompleted: 0,
-      lastCheckpointTask: 0,
-      issues: [],
-      notebookLMSource: notebook_name,
-      a2uiGenerated: false,
+    return {
+      content: [
+        {
+          type: "text",
+          text: `🔄 Phase Reopened: ${phase}
+
+Project: ${project_name}
+  • Previous phase: ${previousPhase}
+  • Current phase: ${state.currentPhase}
+  • Reopened: ${reopened.join(', ')}
+  • Still complete: ${state.completedPhases.length > 0 ? state.completedPhases.join(', ') : '(none)'}
+
+Generated files are kept until the reopened phases regenerate them.
+
+🎯 NEXT STEPS:
+${nextTools.map(tool => `  • Call "${tool}"`).join('\n')}`,
+        },
+      ],
     };
+  }
+
+  /**
+   * NEW: Start project with NotebookLM documentation
+   */
+  private async startProjectWithNotebook(args: ToolInput<'start_project_with_notebook'>) {
+    const { project_name, project_type, notebook_name, additional_requirements = [], output_dir } = args;
+    const projectPath = projectLocator.resolveProjectPath(project_name, output_dir);
+    const { result } = await workflowStore.update(project_name, async draft => {
+      phaseMachine.assertCanRun('start_project_with_notebook', draft.workflowState);
+
+      console.error(`\n📚 PHASE 1 (NotebookLM): Starting project "${project_name}"`);
+      console.error(`   Using NotebookLM: ${notebook_name}`);
+
+      const result = await masterOrchestrator.startProjectWithNotebook(
+        project_name,
+        project_type,
+        notebook_name,
+        additional_requirements
+      );
 
-    this.workflowStates.set(project_name, workflowState);
+      // Initialize workflow state
+      const workflowState: WorkflowState = {
+        projectName: project_name,
+        projectPath,
+        currentPhase: 'requirements',
+        completedPhases: [],
+        requirements: additional_requirements,
+        decisionMatrix: result.decisionMatrix,
+        postmanGenerated: false,
+        frontendPromptGenerated: false,
+        bddTestsGenerated: false,
+        tasksCompleted: 0,
+        lastCheckpointTask: 0,
+        completedTaskIds: [],
+        issues: [],
+        notebookLMSource: notebook_name,
+        a2uiGenerated: false,
+      };
+
+      phaseMachine.apply('start_project_with_notebook', workflowState);
+      draft.workflowState = workflowState;
+      return { result };
+    });
 
     return {
       content: [
@@ -1090,39 +1696,42 @@ Example:
   /**
    * NEW: Approve architecture with NotebookLM enrichment
    */
-  private async approveArchitectureWithNotebook(args: any) {
+  private async approveArchitectureWithNotebook(args: ToolInput<'approve_architecture_with_notebook'>) {
     const { project_name, notebook_name, decision_matrix_answers, additional_requirements = [] } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.decisionMatrix) {
-      throw new Error(`Project not started. Call start_project_with_notebook first.`);
-    }
+    const { answerReport, completedMatrix, projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('approve_architecture_with_notebook', current);
 
-    console.error(`\n📚 PHASE 2 (NotebookLM): Generating enriched Spec-Kit for "${project_name}"`);
+      // Check answers (on top of those given through answer_followups) before anything is generated
+      const answerReport = this.checkMatrixAnswers('approve_architecture_with_notebook', state.decisionMatrix, decision_matrix_answers, true);
 
-    // Complete decision matrix
-    const completedMatrix = {
-      ...state.decisionMatrix,
-      answers: decision_matrix_answers,
-    };
+      console.error(`\n📚 PHASE 2 (NotebookLM): Generating enriched Spec-Kit for "${project_name}"`);
 
-    // Generate enriched Spec-Kit
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateSpecKitWithNotebook(
-      project_name,
-      state.decisionMatrix.projectType,
-      notebook_name,
-      completedMatrix,
-      projectPath,
-      additional_requirements
-    );
+      // Complete decision matrix with the normalized answers
+      const completedMatrix = {
+        ...state.decisionMatrix,
+        answers: answerReport.answers,
+      };
+      completedMatrix.stackScoring = masterOrchestrator.scoreStacks(completedMatrix, state.requirements);
+      state.decisionMatrix.stackScoring = completedMatrix.stackScoring;
+
+      // Generate enriched Spec-Kit
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateSpecKitWithNotebook(
+        project_name,
+        state.decisionMatrix.projectType,
+        notebook_name,
+        completedMatrix,
+        projectPath,
+        additional_requirements
+      );
 
-    // Update workflow state
-    state.specKit = result.specKit;
-    state.pomlState = result.pomlState;
-    state.notebookEnrichment = result.enrichment;
-    state.currentPhase = 'backend_dev';
-    state.completedPhases.push('decision_matrix', 'spec_kit');
+      // Update workflow state
+      state.specKit = result.specKit;
+      state.pomlState = result.pomlState;
+      state.notebookEnrichment = result.enrichment;
+      phaseMachine.apply('approve_architecture_with_notebook', state);
+      return { answerReport, completedMatrix, projectPath, result };
+    });
 
     return {
       content: [
@@ -1131,6 +1740,9 @@ Example:
           text: `✅ PHASE 2 COMPLETE: NotebookLM-Enriched Spec-Kit Generated
 
 📁 Project Location: ${projectPath}
+${this.describeNormalizedAnswers(answerReport)}
+📊 Stack Ranking (weighted by your answers, try other weights with "what_if_weights"):
+${masterOrchestrator.formatStackScoring(completedMatrix.stackScoring)}
 
 📄 Generated Files:
 ${result.files.map(f => `  ✓ ${f}`).join('\n')}
@@ -1151,7 +1763,7 @@ ${result.files.map(f => `  ✓ ${f}`).join('\n')}
   • Enrichment report: docs/NOTEBOOKLM_ENRICHMENT.md
 
 🎯 NEXT STEPS:
-1. Review enriched Spec-Kit in ${projectPath}/docs/
+1. Review enriched Spec-Kit in ${join(projectPath, 'docs')}
 2. Begin backend development
 3. Call "generate_api_tests" when ready
 4. Use "generate_a2ui_frontend" for AI-powered frontend (NEW!)`,
@@ -1163,37 +1775,35 @@ ${result.files.map(f => `  ✓ ${f}`).join('\n')}
   /**
    * NEW: Generate A2UI-powered frontend
    */
-  private async generateA2UIFrontend(args: any) {
+  private async generateA2UIFrontend(args: ToolInput<'generate_a2ui_frontend'>) {
     const { project_name, platform, framework, ui_library, design_style, color_scheme, primary_color, features = [] } = args;
-    const state = this.workflowStates.get(project_name);
-
-    if (!state || !state.specKit) {
-      throw new Error(`Spec-Kit not generated. Call approve_architecture first.`);
-    }
-
-    console.error(`\n🎨 PHASE 4 (A2UI): Generating AI-powered frontend for "${project_name}"`);
-
-    const designPreferences: A2UIDesignPreferences = {
-      platform,
-      framework,
-      uiLibrary: ui_library,
-      designStyle: design_style,
-      colorScheme: color_scheme,
-      primaryColor: primary_color,
-      features,
-    };
+    const { projectPath, result } = await this.updateWorkflowState(project_name, async current => {
+      const state = phaseMachine.require('generate_a2ui_frontend', current);
+
+      console.error(`\n🎨 PHASE 4 (A2UI): Generating AI-powered frontend for "${project_name}"`);
+
+      const designPreferences: A2UIDesignPreferences = {
+        platform,
+        framework,
+        uiLibrary: ui_library,
+        designStyle: design_style,
+        colorScheme: color_scheme,
+        primaryColor: primary_color,
+        features,
+      };
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${project_name}`;
-    const result = await masterOrchestrator.generateA2UIFrontend(
-      state.specKit,
-      designPreferences,
-      projectPath
-    );
+      const projectPath = this.getProjectPath(state);
+      const result = await masterOrchestrator.generateA2UIFrontend(
+        state.specKit,
+        designPreferences,
+        projectPath
+      );
 
-    state.a2uiGenerated = true;
-    state.a2uiCode = result.uiCode;
-    state.currentPhase = 'frontend_integration';
-    state.completedPhases.push('frontend_prompt');
+      state.a2uiGenerated = true;
+      state.a2uiCode = result.uiCode;
+      phaseMachine.apply('generate_a2ui_frontend', state);
+      return { projectPath, result };
+    });
 
     return {
       content: [
@@ -1208,7 +1818,7 @@ ${result.files.map(f => `  ✓ ${f}`).join('\n')}
   • Design Style: ${design_style}
 
 📄 Generated Files (${result.files.length}):
-${result.files.slice(0, 10).map(f => `  ✓ ${f.replace(projectPath, '')}`).join('\n')}
+${result.files.slice(0, 10).map(f => `  ✓ ${relative(projectPath, f)}`).join('\n')}
 ${result.files.length > 10 ? `  ... and ${result.files.length - 10} more files` : ''}
 
 📊 A2UI Specification:
@@ -1227,7 +1837,7 @@ ${result.files.length > 10 ? `  ... and ${result.files.length - 10} more files`
 
 1. **Direct Development** (Recommended):
    \`\`\`bash
-   cd ${projectPath}/frontend
+   cd ${join(projectPath, 'frontend')}
    npm install
    npm run dev
    \`\`\`
@@ -1255,7 +1865,7 @@ ${result.files.length > 10 ? `  ... and ${result.files.length - 10} more files`
   /**
    * SMART WORKFLOW STEP 1: Analyze requirements and get AI recommendations
    */
-  private async analyzeProjectRequirements(args: any) {
+  private async analyzeProjectRequirements(args: ToolInput<'analyze_project_requirements'>) {
     const {
       project_name,
       project_type,
@@ -1265,6 +1875,7 @@ ${result.files.length > 10 ? `  ... and ${result.files.length - 10} more files`
       expected_users,
       data_volume,
       branches = [],
+      output_dir,
     } = args;
 
     console.error(`\n🤖 SMART WORKFLOW: Analyzing project "${project_name}"`);
@@ -1278,13 +1889,17 @@ ${result.files.length > 10 ? `  ... and ${result.files.length - 10} more files`
       expectedUsers: expected_users,
       dataVolume: data_volume,
       branches: branches.length > 0 ? branches.length : undefined,
+      outputDir: output_dir,
     };
 
+    // Validate the project location before spending AI calls
+    projectLocator.resolveProjectPath(project_name, output_dir);
+
     // Call smart workflow to analyze and recommend
     const recommendations = await smartWorkflow.analyzeAndRecommend(requirements);
 
     // Store for later use
-    this.projectAnalyses.set(project_name, { requirements, recommendations });
+    await this.saveProjectAnalysis(project_name, { requirements, recommendations });
 
     // Helper to find recommendation by category
     const findRec = (category: string) =>
@@ -1374,7 +1989,7 @@ using the "create_project_from_analysis" tool to generate the complete project w
   /**
    * SMART WORKFLOW STEP 2: Execute after user approval
    */
-  private async createProjectFromAnalysis(args: any) {
+  private async createProjectFromAnalysis(args: ToolInput<'create_project_from_analysis'>, extra: ToolCallExtra) {
     const { project_name, approved } = args;
 
     if (!approved) {
@@ -1390,49 +2005,63 @@ To modify recommendations, please call "analyze_project_requirements" again with
       };
     }
 
-    const analysis = this.projectAnalyses.get(project_name);
+    const { analysis, result } = await workflowStore.update(project_name, async draft => {
+      const analysis = draft.analysis;
 
-    if (!analysis) {
-      throw new Error(
-        `No analysis found for project "${project_name}". Please call "analyze_project_requirements" first.`
+      if (!analysis) {
+        throw phaseOrderViolation(`No analysis found for project "${project_name}".`, ['analyze_project_requirements']);
+      }
+      phaseMachine.assertCanRun('create_project_from_analysis', draft.workflowState);
+
+      console.error(`\n🚀 SMART WORKFLOW: Creating project "${project_name}" with AI recommendations`);
+
+      const run = this.createRunControl(
+        'create_project_from_analysis',
+        { requirements: analysis.requirements, recommendations: analysis.recommendations },
+        extra,
+        analysis.generationRun,
+        async (generationRun) => {
+          analysis.generationRun = generationRun;
+          await this.saveProjectAnalysis(project_name, analysis);
+        }
       );
-    }
-
-    console.error(`\n🚀 SMART WORKFLOW: Creating project "${project_name}" with AI recommendations`);
+      if (run.isResumed()) {
+        console.error(`   ↪ Resuming unfinished run from ${run.getRun().updatedAt}`);
+      }
 
-    // Execute smart workflow
-    const result = await smartWorkflow.executeWithRecommendations(
-      analysis.requirements,
-      analysis.recommendations
-    );
+      // Execute smart workflow
+      const result = await smartWorkflow.executeWithRecommendations(
+        analysis.requirements,
+        analysis.recommendations,
+        run
+      );
 
-    // Initialize workflow state (for compatibility with existing tools)
-    const workflowState: WorkflowState = {
-      projectName: project_name,
-      currentPhase: 'complete',
-      completedPhases: [
-        'requirements',
-        'decision_matrix',
-        'spec_kit',
-        'backend_dev',
-        'api_testing',
-        'frontend_prompt',
-        'bdd_testing',
-      ],
-      requirements: analysis.requirements.features,
-      specKit: result.specKit,
-      pomlState: result.pomlState,
-      postmanGenerated: true,
-      frontendPromptGenerated: true,
-      bddTestsGenerated: true,
-      a2uiGenerated: true,
-      tasksCompleted: 0,
-      lastCheckpointTask: 0,
-      issues: [],
-      notebookLMSource: analysis.requirements.notebookName,
-    };
+      delete analysis.generationRun;
+
+      // Initialize workflow state (for compatibility with existing tools)
+      const workflowState: WorkflowState = {
+        projectName: project_name,
+        projectPath: result.projectPath,
+        currentPhase: 'requirements',
+        completedPhases: [],
+        requirements: analysis.requirements.features,
+        specKit: result.specKit,
+        pomlState: result.pomlState,
+        postmanGenerated: true,
+        frontendPromptGenerated: true,
+        bddTestsGenerated: true,
+        a2uiGenerated: true,
+        tasksCompleted: 0,
+        lastCheckpointTask: 0,
+        completedTaskIds: [],
+        issues: [],
+        notebookLMSource: analysis.requirements.notebookName,
+      };
 
-    this.workflowStates.set(project_name, workflowState);
+      phaseMachine.apply('create_project_from_analysis', workflowState);
+      draft.workflowState = workflowState;
+      return { analysis, result };
+    });
 
     const projectPath = result.projectPath;
 
@@ -1467,7 +2096,7 @@ ${projectPath}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 📄 GENERATED ARTIFACTS
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-${result.files.map(f => `  ✓ ${f.replace(projectPath + '\\', '')}`).join('\n')}
+${result.files.map(f => `  ✓ ${relative(projectPath, f)}`).join('\n')}
 
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 📊 PROJECT STATS
@@ -1513,7 +2142,7 @@ ${result.notebookUsed ? `  • NotebookLM Coverage: ${result.coverage?.toFixed(1
    npm run dev
 
 2️⃣  FRONTEND:
-   cd ${projectPath}\\frontend
+   cd ${join(projectPath, 'frontend')}
    npm install
    npm run dev
 
@@ -1541,14 +2170,156 @@ ${result.notebookUsed ? `  • NotebookLM Coverage: ${result.coverage?.toFixed(1
     };
   }
 
+  /**
+   * List all known projects
+   */
+  private async listProjects() {
+    const projects = await projectManager.listProjects();
+
+    if (projects.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📂 No projects found under ${projectLocator.getProjectsRoot()}
+
+🎯 Start one with "start_project" or "analyze_project_requirements".`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📂 Projects (${projects.length}) under ${projectLocator.getProjectsRoot()}
+
+${projects.map(p => `• ${p.projectName}
+    Phase: ${p.currentPhase}
+    Progress: ${p.progress.toFixed(1)}% (${p.tasksCompleted}/${p.totalTasks} tasks)
+    Last checkpoint: ${p.lastCheckpointAt || 'none'}
+    Path: ${p.projectPath}`).join('\n\n')}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Archive a project into a tarball
+   */
+  private async archiveProject(args: ToolInput<'archive_project'>) {
+    const { project_name } = args;
+
+    console.error(`\n📦 Archiving project "${project_name}"`);
+
+    const archivePath = await projectManager.archiveProject(project_name);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Project Archived: ${project_name}
+
+📦 Archive: ${archivePath}
+
+The project directory was not modified. Use "delete_project" to remove it.`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Delete a project (two-step, token confirmed)
+   */
+  private async deleteProject(args: ToolInput<'delete_project'>) {
+    const { project_name, confirmation_token } = args;
+
+    if (!confirmation_token) {
+      const request = await projectManager.requestDeletion(project_name);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `⚠️  Confirm Deletion: ${project_name}
+
+This will permanently delete:
+  ${request.projectPath}
+
+To confirm, call "delete_project" again within 5 minutes:
+{
+  "project_name": "${project_name}",
+  "confirmation_token": "${request.token}"
+}
+
+💡 Run "archive_project" first to keep a snapshot.`,
+          },
+        ],
+      };
+    }
+
+    console.error(`\n🗑️  Deleting project "${project_name}"`);
+
+    const deletedPath = await projectManager.confirmDeletion(project_name, confirmation_token);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `✅ Project Deleted: ${project_name}
+
+🗑️  Removed: ${deletedPath}`,
+        },
+      ],
+    };
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error("AppCreator MCP Server running on stdio");
     console.error("Ready for complete project workflow! 🚀");
   }
+
+  /**
+   * Attach to an already created transport (one per HTTP session)
+   */
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    await this.server.close();
+  }
+}
+
+// Start the server (stdio by default, shared HTTP instance with --http)
+async function main() {
+  if (McpHttpServer.resolveMode() === 'stdio') {
+    await new AppCreatorServer().run();
+    return;
+  }
+
+  // One AppCreatorServer per client session; workflow state is shared on disk
+  const config = McpHttpServer.resolveConfig();
+  const httpServer = new McpHttpServer(() => new AppCreatorServer(), config);
+  const { host, port } = await httpServer.start();
+
+  console.error(`AppCreator MCP Server running on http://${host}:${port}/mcp`);
+  console.error(`   • Health: http://${host}:${port}/health`);
+  console.error(`   • Auth: ${config.authToken ? 'bearer token required' : 'disabled (set APPCREATOR_HTTP_TOKEN to enable)'}`);
+  console.error(`   • Idle sessions: ${config.idleTimeoutMs > 0 ? `closed after ${+(config.idleTimeoutMs / 60000).toFixed(2)} min` : 'kept open'}`);
+  console.error("Ready for complete project workflow! 🚀");
+
+  const shutdown = () => {
+    httpServer.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
-// Start the server
-const server = new AppCreatorServer();
-server.run().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
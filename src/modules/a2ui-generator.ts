@@ -16,8 +16,10 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { Specification } from './spec-kit.js';
-import { parseJSONWithDefault } from '../utils/json-parser.js';
+import { collectStream } from '../adapters/streaming.js';
+import { parseJSONWithDefault, parsePartialJSON } from '../utils/json-parser.js';
 
 /**
  * A2UI Component Definition
@@ -84,6 +86,11 @@ export interface A2UISpec {
   }[];
 }
 
+/**
+ * Receives each layout while it streams (complete components only) and once complete
+ */
+export type A2UILayoutListener = (requirementId: string, layout: A2UILayout, complete: boolean) => Promise<void>;
+
 /**
  * Design preferences for A2UI generation
  */
@@ -126,7 +133,7 @@ export class A2UIGenerator {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'a2ui-generator', 'frontend_integration');
   }
 
   /**
@@ -134,7 +141,8 @@ export class A2UIGenerator {
    */
   async generateA2UISpec(
     specification: Specification,
-    preferences: A2UIDesignPreferences
+    preferences: A2UIDesignPreferences,
+    onLayout?: A2UILayoutListener
   ): Promise<A2UISpec> {
     console.error(`\n🎨 Generating A2UI specification...`);
     console.error(`   Platform: ${preferences.platform}`);
@@ -145,7 +153,8 @@ export class A2UIGenerator {
     const layouts = await this.generateLayouts(
       specification.functionalRequirements,
       specification.userFlows,
-      preferences
+      preferences,
+      onLayout
     );
 
     // Step 2: Generate routes based on user flows
@@ -192,11 +201,14 @@ export class A2UIGenerator {
 
   /**
    * Generate UI layouts from functional requirements
+   *
+   * With a listener, each layout is streamed and passed on as its components arrive.
    */
   private async generateLayouts(
     functionalRequirements: Specification['functionalRequirements'],
     userFlows: Specification['userFlows'],
-    preferences: A2UIDesignPreferences
+    preferences: A2UIDesignPreferences,
+    onLayout?: A2UILayoutListener
   ): Promise<A2UILayout[]> {
     const layouts: A2UILayout[] = [];
 
@@ -239,19 +251,68 @@ Return JSON in this format:
 
 Return ONLY valid JSON, no markdown.`;
 
+      let layout: A2UILayout;
       try {
-        const response = await this.aiAdapter.generateText(prompt, 1500);
-        const layout = parseJSONWithDefault<A2UILayout>(response, this.getDefaultLayout(req), `generateLayout-${req.id}`);
-        layouts.push(layout);
+        const response = onLayout
+          ? await this.streamLayout(prompt, req, onLayout)
+          : await this.aiAdapter.generateText(prompt, 1500);
+        layout = parseJSONWithDefault<A2UILayout>(response, this.getDefaultLayout(req), `generateLayout-${req.id}`);
       } catch (error) {
         console.error(`⚠️  Failed to generate layout for: ${req.title}, using default`);
-        layouts.push(this.getDefaultLayout(req));
+        layout = this.getDefaultLayout(req);
       }
+
+      layouts.push(layout);
+      await onLayout?.(req.id, layout, true);
     }
 
     return layouts;
   }
 
+  /**
+   * Stream a layout, passing it on each time another component is complete
+   */
+  private async streamLayout(
+    prompt: string,
+    req: Specification['functionalRequirements'][number],
+    onLayout: A2UILayoutListener
+  ): Promise<string> {
+    let text = '';
+    let readyComponents = 0;
+    let writing = Promise.resolve();
+
+    try {
+      const response = await collectStream(this.aiAdapter.generateStream(prompt, 1500), delta => {
+        text += delta;
+        // Components can only have completed when an object closed
+        if (!delta.includes('}')) {
+          return;
+        }
+
+        // The last component may still be arriving
+        const partial = parsePartialJSON<Partial<A2UILayout>>(text);
+        const components = Array.isArray(partial?.components) ? partial.components.slice(0, -1) : [];
+        if (components.length <= readyComponents) {
+          return;
+        }
+
+        readyComponents = components.length;
+        const layout: A2UILayout = {
+          id: typeof partial?.id === 'string' ? partial.id : `layout-${req.id}`,
+          components,
+          metadata: { title: req.title, description: req.description },
+        };
+        writing = writing
+          .then(() => onLayout(req.id, layout, false))
+          .catch(error => console.error(`Error writing partial layout for ${req.title}:`, error));
+      });
+      return response.text;
+    } finally {
+      // Partial writes must not land after the final layout
+      await writing;
+    }
+  }
+
   /**
    * Generate routes from user flows
    */
@@ -0,0 +1,86 @@
+/**
+ * AnswerValidator and matchOption (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnswerValidator, matchOption } from './answer-validator.js';
+import type { MatrixQuestion } from './decision-matrix.js';
+
+const DEPLOYMENT = ['Serverless', 'Containers', 'Self-hosted'];
+const DATABASES = ['PostgreSQL', 'MySQL', 'MongoDB'];
+
+const QUESTIONS: MatrixQuestion[] = [
+  { id: 'deploy', question: 'Where will it run?', type: 'choice', options: DEPLOYMENT, category: 'deployment' },
+  { id: 'db', question: 'Which databases?', type: 'multiple', options: DATABASES, category: 'technology' },
+  { id: 'users', question: 'Who are the users?', type: 'text', category: 'feature' },
+  { id: 'notes', question: 'Anything else?', type: 'text', category: 'quality', required: false },
+];
+
+describe('matchOption', () => {
+  it('matches exact text, case and punctuation variants, shorthand and typos', () => {
+    assert.equal(matchOption('MySQL', DATABASES).option, 'MySQL');
+    assert.equal(matchOption('self hosted', DEPLOYMENT).option, 'Self-hosted');
+    assert.equal(matchOption('postgres', DATABASES).option, 'PostgreSQL');
+    assert.equal(matchOption('Serverles', DEPLOYMENT).option, 'Serverless');
+  });
+
+  it('does not match answers that only mention an option', () => {
+    assert.equal(matchOption('not serverless', DEPLOYMENT).option, undefined);
+    assert.equal(matchOption('no postgres, use mysql', DATABASES).option, undefined);
+  });
+
+  it('suggests the closest options when nothing matches', () => {
+    const match = matchOption('Kubernetes', DEPLOYMENT);
+    assert.equal(match.option, undefined);
+    assert.equal(match.suggestions.length, 3);
+    assert.deepEqual(matchOption('', DATABASES).suggestions, DATABASES);
+  });
+});
+
+describe('AnswerValidator.validate', () => {
+  const validator = new AnswerValidator();
+
+  it('normalizes near-miss answers and accepts valid ones', () => {
+    const report = validator.validate(QUESTIONS, [
+      { questionId: 'deploy', answer: 'containers' },
+      { questionId: 'db', answer: 'postgres, MongoDB, PostgreSQL' },
+      { questionId: 'users', answer: 'Small teams' },
+    ]);
+
+    assert.equal(report.valid, true);
+    assert.deepEqual(report.checks.map(c => c.status), ['normalized', 'normalized', 'valid', 'skipped']);
+    assert.deepEqual(report.answers, [
+      { questionId: 'deploy', answer: 'Containers' },
+      { questionId: 'db', answer: ['PostgreSQL', 'MongoDB'] },
+      { questionId: 'users', answer: 'Small teams' },
+    ]);
+  });
+
+  it('rejects unknown questions, invalid options and missing required answers', () => {
+    const report = validator.validate(QUESTIONS, [
+      { questionId: 'deploy', answer: ['Serverless', 'Containers'] },
+      { questionId: 'db', answer: ['no postgres, use mysql'] },
+      { questionId: 'budget', answer: 'low' },
+    ]);
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(report.unknownQuestionIds, ['budget']);
+    assert.deepEqual(report.invalidQuestionIds, ['deploy', 'db']);
+    assert.deepEqual(report.unansweredRequired, ['users']);
+    assert.match(report.checks[0].message!, /exactly one/);
+    assert.deepEqual(report.answers, []);
+  });
+
+  it('lists problems first in the report', () => {
+    const report = validator.validate(QUESTIONS, [
+      { questionId: 'deploy', answer: 'Serverless' },
+      { questionId: 'db', answer: 'Oracle' },
+    ]);
+    const lines = validator.formatReport(report).split('\n');
+
+    assert.match(lines[0], /^ {2}❌ \[db\]/);
+    assert.match(lines[1], /^ {2}⏳ \[users\]/);
+    assert.match(lines[lines.length - 1], /^ {2}✅ \[deploy\]/);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Answer Validator - Check decision matrix answers against their questions
+ *
+ * Every answer is checked against its MatrixQuestion before Spec-Kit
+ * generation starts:
+ * - unknown questionIds are rejected
+ * - "choice" answers must name exactly one option
+ * - "multiple" answers must be a list of options (a single string is split on commas)
+ * - near-miss options are matched to the real one (e.g. "postgres" → "PostgreSQL")
+ * - required questions without an answer are listed
+ *
+ * The result is a per-question report and the normalized answers.
+ */
+
+import type { MatrixAnswer, MatrixQuestion } from './decision-matrix.js';
+
+/**
+ * Outcome for one question
+ */
+export type AnswerStatus = 'valid' | 'normalized' | 'invalid' | 'unanswered' | 'skipped';
+
+/**
+ * Report line for one question
+ */
+export interface AnswerCheck {
+  questionId: string;
+  question: string;
+  type: MatrixQuestion['type'];
+  status: AnswerStatus;
+  // Answer that will be used (normalized), if any
+  answer?: string | string[];
+  // Answer as submitted, when it was changed or rejected
+  given?: string | string[];
+  message?: string;
+  // Closest options for a rejected answer
+  suggestions?: string[];
+}
+
+/**
+ * Per-question report for a set of answers
+ */
+export interface AnswerReport {
+  // No unknown questions, invalid answers or unanswered required questions
+  valid: boolean;
+  checks: AnswerCheck[];
+  unknownQuestionIds: string[];
+  invalidQuestionIds: string[];
+  unansweredRequired: string[];
+  // Normalized answers to known questions
+  answers: MatrixAnswer[];
+}
+
+/**
+ * Answer Validator Class
+ *
+ * Validates and normalizes answers for the questions of a decision matrix.
+ */
+export class AnswerValidator {
+  /**
+   * Check answers against the questions, in question order
+   *
+   * Questions with `required: false` may stay unanswered ("skipped").
+   */
+  validate(questions: MatrixQuestion[], answers: MatrixAnswer[]): AnswerReport {
+    const byId = new Map(answers.map(a => [a.questionId, a.answer]));
+    const knownIds = new Set(questions.map(q => q.id));
+
+    const checks = questions.map(question => {
+      const given = byId.get(question.id);
+      if (given === undefined || isEmpty(given)) {
+        return {
+          ...this.describe(question),
+          status: question.required === false ? 'skipped' : 'unanswered',
+          message: question.required === false ? 'Optional, not answered' : 'Required, not answered',
+        } as AnswerCheck;
+      }
+      return this.checkAnswer(question, given);
+    });
+
+    const unknownQuestionIds = answers.map(a => a.questionId).filter(id => !knownIds.has(id));
+    const invalidQuestionIds = checks.filter(c => c.status === 'invalid').map(c => c.questionId);
+    const unansweredRequired = checks.filter(c => c.status === 'unanswered').map(c => c.questionId);
+
+    return {
+      valid: unknownQuestionIds.length === 0 && invalidQuestionIds.length === 0 && unansweredRequired.length === 0,
+      checks,
+      unknownQuestionIds,
+      invalidQuestionIds,
+      unansweredRequired,
+      answers: checks
+        .filter(c => c.answer !== undefined)
+        .map(c => ({ questionId: c.questionId, answer: c.answer! })),
+    };
+  }
+
+  /**
+   * Report as text lines, problems first
+   */
+  formatReport(report: AnswerReport): string {
+    const order: AnswerStatus[] = ['invalid', 'unanswered', 'normalized', 'skipped', 'valid'];
+    const lines = report.unknownQuestionIds.map(id => `  ❓ [${id}] Unknown question id`);
+
+    for (const status of order) {
+      for (const check of report.checks.filter(c => c.status === status)) {
+        lines.push(`  ${this.formatCheck(check)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private checkAnswer(question: MatrixQuestion, given: string | string[]): AnswerCheck {
+    const base = this.describe(question);
+    const options = question.options ?? [];
+
+    switch (question.type) {
+      case 'choice': {
+        const values = Array.isArray(given) ? given.filter(v => v.trim() !== '') : [given];
+        if (values.length > 1) {
+          return { ...base, status: 'invalid', given, message: 'Choose exactly one option', suggestions: options };
+        }
+        if (options.length === 0) {
+          return Array.isArray(given)
+            ? { ...base, status: 'normalized', answer: values[0], given }
+            : { ...base, status: 'valid', answer: given };
+        }
+
+        const match = matchOption(values[0], options);
+        if (!match.option) {
+          return { ...base, status: 'invalid', given, message: `${JSON.stringify(values[0])} is not one of the options`, suggestions: match.suggestions };
+        }
+        return match.option === given
+          ? { ...base, status: 'valid', answer: match.option }
+          : { ...base, status: 'normalized', answer: match.option, given };
+      }
+
+      case 'multiple': {
+        const values = (Array.isArray(given) ? given : given.split(',')).map(v => v.trim()).filter(v => v !== '');
+        if (options.length === 0) {
+          return Array.isArray(given)
+            ? { ...base, status: 'valid', answer: values }
+            : { ...base, status: 'normalized', answer: values, given };
+        }
+
+        const matched: string[] = [];
+        for (const value of values) {
+          const match = matchOption(value, options);
+          if (!match.option) {
+            return { ...base, status: 'invalid', given, message: `${JSON.stringify(value)} is not one of the options`, suggestions: match.suggestions };
+          }
+          if (!matched.includes(match.option)) {
+            matched.push(match.option);
+          }
+        }
+
+        const unchanged = Array.isArray(given) && given.length === matched.length && given.every((v, i) => v === matched[i]);
+        return unchanged
+          ? { ...base, status: 'valid', answer: matched }
+          : { ...base, status: 'normalized', answer: matched, given };
+      }
+
+      default:
+        // Free text: a list is joined into one answer
+        return Array.isArray(given)
+          ? { ...base, status: 'normalized', answer: given.join(', '), given }
+          : { ...base, status: 'valid', answer: given };
+    }
+  }
+
+  private formatCheck(check: AnswerCheck): string {
+    const label = `[${check.questionId}] ${check.question}`;
+
+    switch (check.status) {
+      case 'invalid':
+        return `❌ ${label}: ${check.message}${check.suggestions?.length ? ` (did you mean: ${check.suggestions.join(', ')}?)` : ''}`;
+      case 'unanswered':
+        return `⏳ ${label}: ${check.message}`;
+      case 'normalized':
+        return `🔧 ${label}: ${JSON.stringify(check.given)} → ${JSON.stringify(check.answer)}`;
+      case 'skipped':
+        return `➖ ${label}: ${check.message}`;
+      default:
+        return `✅ ${label}: ${JSON.stringify(check.answer)}`;
+    }
+  }
+
+  private describe(question: MatrixQuestion): Pick<AnswerCheck, 'questionId' | 'question' | 'type'> {
+    return { questionId: question.id, question: question.question, type: question.type };
+  }
+}
+
+/**
+ * Option an answer refers to, or the closest options if none matches unambiguously
+ *
+ * Tries, in order: exact text, same letters and digits ignoring case and
+ * punctuation, an option containing the answer ("postgres" / "PostgreSQL"),
+ * and a small edit distance (typos). Answers that merely mention an option
+ * ("not serverless") do not match it.
+ */
+export function matchOption(value: string, options: string[]): { option?: string; suggestions: string[] } {
+  const exact = options.find(option => option === value.trim());
+  if (exact) {
+    return { option: exact, suggestions: [] };
+  }
+
+  const key = normalize(value);
+  if (!key) {
+    return { suggestions: options };
+  }
+
+  const same = options.filter(option => normalize(option) === key);
+  if (same.length === 1) {
+    return { option: same[0], suggestions: [] };
+  }
+
+  // Only shorthand for an option counts ("postgres" -> "PostgreSQL"); longer
+  // text that merely mentions an option ("not serverless") does not
+  const containing = key.length >= 3
+    ? options.filter(option => normalize(option).includes(key))
+    : [];
+  if (containing.length === 1) {
+    return { option: containing[0], suggestions: [] };
+  }
+  if (containing.length > 1) {
+    return { suggestions: containing };
+  }
+
+  const distances = options
+    .map(option => {
+      const optionKey = normalize(option);
+      // Typo tolerance scales with the shorter text, so extra words are not a "typo"
+      const maxDistance = Math.max(1, Math.floor(Math.min(key.length, optionKey.length) / 4));
+      return { option, distance: editDistance(key, optionKey), maxDistance };
+    })
+    .sort((a, b) => a.distance - b.distance);
+  const best = distances[0];
+  if (best && best.distance <= best.maxDistance && distances.filter(d => d.distance === best.distance).length === 1) {
+    return { option: best.option, suggestions: [] };
+  }
+
+  return { suggestions: distances.slice(0, 3).map(d => d.option) };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isEmpty(answer: string | string[]): boolean {
+  return Array.isArray(answer) ? answer.every(v => v.trim() === '') : answer.trim() === '';
+}
+
+/**
+ * Levenshtein distance
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
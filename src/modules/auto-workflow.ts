@@ -11,6 +11,7 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { NotebookLMModule } from './notebooklm-integration.js';
 import { DecisionMatrixModule, DecisionMatrix, MatrixAnswer } from './decision-matrix.js';
 import { SpecKitModule, SpecKit } from './spec-kit.js';
@@ -18,6 +19,7 @@ import { POMLOrchestrator, POMLState } from './poml-orchestrator.js';
 import { A2UIGenerator, A2UIDesignPreferences, GeneratedUICode } from './a2ui-generator.js';
 import { PostmanGenerator } from './postman-generator.js';
 import { BDDGenerator } from './bdd-generator.js';
+import { ProjectLocator } from '../core/project-locator.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -38,6 +40,9 @@ export interface AutoWorkflowConfig {
 
   // Additional requirements not in notebook
   additionalRequirements?: string[];
+
+  // Directory to create the project in (overrides the projects root)
+  outputDir?: string;
 }
 
 export interface AutoWorkflowResult {
@@ -65,9 +70,11 @@ export class AutoWorkflowModule {
   private a2uiGenerator: A2UIGenerator;
   private postmanGenerator: PostmanGenerator;
   private bddGenerator: BDDGenerator;
+  private projectLocator: ProjectLocator;
 
-  constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+  constructor(aiAdapter: AIAdapter, projectLocator: ProjectLocator = ProjectLocator.fromEnvironment()) {
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'auto-workflow', 'requirements');
+    this.projectLocator = projectLocator;
     this.notebookLM = new NotebookLMModule(aiAdapter);
     this.decisionMatrix = new DecisionMatrixModule(aiAdapter);
     this.specKit = new SpecKitModule(aiAdapter);
@@ -97,7 +104,7 @@ export class AutoWorkflowModule {
     console.error(`   NotebookLM: ${config.notebookName}`);
     console.error(`\n════════════════════════════════════════════════════════\n`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${config.projectName}`;
+    const projectPath = this.projectLocator.resolveProjectPath(config.projectName, config.outputDir);
     await fs.mkdir(projectPath, { recursive: true });
     await fs.mkdir(join(projectPath, '.appcreator'), { recursive: true });
     await fs.mkdir(join(projectPath, 'docs'), { recursive: true });
@@ -395,7 +402,7 @@ ${question.options ? `Return ONLY one of these exact options: ${question.options
 
 Answer:`;
 
-    const response = await this.aiAdapter.generateText(prompt, 200);
+    const response = await this.aiAdapter.generateText(prompt, 200, { taskClass: 'cheap' });
 
     // If choice question, extract valid option
     if (question.options) {
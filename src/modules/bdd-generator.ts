@@ -6,6 +6,7 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { Specification, Task } from './spec-kit.js';
 import { parseJSONWithDefault } from '../utils/json-parser.js';
 
@@ -46,7 +47,7 @@ export class BDDGenerator {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'bdd-generator', 'bdd_testing');
   }
 
   /**
@@ -0,0 +1,131 @@
+/**
+ * Decision matrix follow-up rounds (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnswerReview, DecisionMatrix, DecisionMatrixModule } from './decision-matrix.js';
+import type { AIAdapter, AIResponse } from '../adapters/ai-adapter.interface.js';
+
+const REVIEW: AnswerReview = {
+  issues: [{ kind: 'contradiction', questionIds: ['arch_01', 'deploy_01'], description: 'Serverless but self-hosted' }],
+  followUps: [
+    { id: 'arch_01', question: 'Which takes precedence?', type: 'choice', options: ['Serverless', 'Self-hosted'], category: 'deployment', followUpTo: ['arch_01', 'deploy_01'], reason: 'Conflict' },
+    { id: 'db_01', question: 'Which database?', type: 'text', category: 'technology', followUpTo: ['ghost_01'], reason: 'Missing' },
+    { id: 'db_01', question: 'Which cache?', type: 'text', category: 'technology', followUpTo: [], reason: 'Missing' },
+  ],
+};
+
+/**
+ * Adapter answering every answer review with REVIEW, keeping the prompts
+ */
+function reviewAdapter(): AIAdapter & { prompts: string[] } {
+  const adapter = {
+    prompts: [] as string[],
+    generate: async (prompt: string): Promise<AIResponse> => {
+      adapter.prompts.push(prompt);
+      return { text: JSON.stringify(REVIEW), usage: { inputTokens: 0, outputTokens: 0 }, provider: 'test', model: 'test-model' };
+    },
+    generateText: async (prompt: string) => (await adapter.generate(prompt)).text,
+    async *generateStream(prompt: string) {
+      const response = await adapter.generate(prompt);
+      yield response.text;
+      return response;
+    },
+    generateJSON: async () => { throw new Error('not used'); },
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+  return adapter;
+}
+
+function matrix(maxRounds?: number): DecisionMatrix {
+  return {
+    projectType: 'web',
+    questions: [
+      { id: 'arch_01', question: 'Architecture?', type: 'choice', options: ['Serverless', 'Monolithic'], category: 'architecture' },
+      { id: 'deploy_01', question: 'Hosting?', type: 'choice', options: ['AWS', 'Self-hosted'], category: 'deployment' },
+      { id: 'notes_01', question: 'Anything else?', type: 'text', category: 'quality', required: false },
+    ],
+    answers: [],
+    recommendations: [],
+    maxRounds,
+  };
+}
+
+describe('DecisionMatrixModule.submitAnswers', () => {
+  it('waits for the required questions of the open round', async () => {
+    const adapter = reviewAdapter();
+    const decisionMatrix = matrix();
+
+    const result = await new DecisionMatrixModule(adapter).submitAnswers(decisionMatrix, [{ questionId: 'arch_01', answer: 'Serverless' }]);
+
+    assert.deepEqual(result.unanswered.map(q => q.id), ['deploy_01']);
+    assert.equal(result.complete, false);
+    assert.equal(adapter.prompts.length, 0);
+    // Matrices without rounds count as a single round
+    assert.deepEqual(decisionMatrix.rounds, [{ round: 1, questionIds: ['arch_01', 'deploy_01', 'notes_01'], issues: [] }]);
+  });
+
+  it('opens a round of follow-ups with unique ids', async () => {
+    const decisionMatrix = matrix();
+
+    const result = await new DecisionMatrixModule(reviewAdapter()).submitAnswers(decisionMatrix, [
+      { questionId: 'arch_01', answer: 'Serverless' },
+      { questionId: 'deploy_01', answer: 'Self-hosted' },
+    ]);
+
+    assert.deepEqual(result.followUps.map(q => q.id), ['followup_2_1', 'db_01', 'followup_2_3']);
+    assert.deepEqual(result.followUps.map(q => q.followUpTo), [['arch_01', 'deploy_01'], [], []]);
+    assert.deepEqual(result.issues, REVIEW.issues);
+    assert.equal(result.complete, false);
+
+    const [first, second] = decisionMatrix.rounds!;
+    assert.deepEqual(first.issues, REVIEW.issues);
+    assert.ok(first.reviewedAt);
+    assert.deepEqual(second, { round: 2, questionIds: ['followup_2_1', 'db_01', 'followup_2_3'], issues: [] });
+    assert.equal(decisionMatrix.questions.length, 6);
+  });
+
+  it('asks no follow-ups in the last round', async () => {
+    const adapter = reviewAdapter();
+    const decisionMatrix = matrix(2);
+    const module = new DecisionMatrixModule(adapter);
+
+    await module.submitAnswers(decisionMatrix, [
+      { questionId: 'arch_01', answer: 'Serverless' },
+      { questionId: 'deploy_01', answer: 'Self-hosted' },
+    ]);
+    const result = await module.submitAnswers(decisionMatrix, [
+      { questionId: 'followup_2_1', answer: 'Serverless' },
+      { questionId: 'db_01', answer: 'PostgreSQL' },
+      { questionId: 'followup_2_3', answer: 'Redis' },
+    ]);
+
+    assert.deepEqual(result.followUps, []);
+    assert.equal(result.complete, true);
+    assert.equal(decisionMatrix.rounds!.length, 2);
+    assert.match(adapter.prompts[1], /Do not ask follow-up questions/);
+
+    assert.deepEqual(await module.submitAnswers(decisionMatrix, []), { unanswered: [], issues: [], followUps: [], complete: true });
+    assert.equal(adapter.prompts.length, 2);
+  });
+});
+
+describe('DecisionMatrixModule.buildQATree', () => {
+  it('lists follow-ups under the first question they follow up on', async () => {
+    const module = new DecisionMatrixModule(reviewAdapter());
+    const decisionMatrix = matrix();
+    await module.submitAnswers(decisionMatrix, [
+      { questionId: 'arch_01', answer: 'Serverless' },
+      { questionId: 'deploy_01', answer: 'Self-hosted' },
+    ]);
+
+    const tree = module.buildQATree(decisionMatrix);
+
+    assert.deepEqual(tree.map(node => node.question.id), ['arch_01', 'deploy_01', 'notes_01', 'db_01', 'followup_2_3']);
+    assert.equal(tree[0].answer, 'Serverless');
+    assert.deepEqual(tree[0].followUps.map(node => [node.question.id, node.round]), [['followup_2_1', 2]]);
+    assert.deepEqual(tree[1].followUps, []);
+  });
+});
@@ -3,10 +3,19 @@
  *
  * Asks user questions before project generation to gather requirements
  * and make informed decisions about architecture, stack, and approach.
+ *
+ * Questions are asked in rounds. After each round's answers, the AI looks
+ * for contradictions (e.g. "Serverless" plus "Self-hosted") and missing
+ * information and asks targeted follow-up questions, until nothing is left
+ * to clarify or the round limit is reached.
  */
 
-import { AIAdapter } from '../adapters/ai-adapter.interface.js';
-import { parseJSONWithDefault } from '../utils/json-parser.js';
+import { z } from 'zod';
+import { AIAdapter, JSONSchema } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
+import type { ScoredStack } from '../core/decision-matrix.js';
+import { StackResearch, formatStackRanking } from './research.js';
+import type { StackScoring } from './stack-scoring.js';
 
 export interface MatrixQuestion {
   id: string;
@@ -14,6 +23,11 @@ export interface MatrixQuestion {
   type: 'choice' | 'text' | 'multiple';
   options?: string[];
   category: 'architecture' | 'technology' | 'feature' | 'deployment' | 'quality';
+  // Default true: approve_architecture waits for an answer
+  required?: boolean;
+  // Follow-up questions only: the questions it follows up on, and why it is asked
+  followUpTo?: string[];
+  reason?: string;
 }
 
 export interface MatrixAnswer {
@@ -21,18 +35,110 @@ export interface MatrixAnswer {
   answer: string | string[];
 }
 
+/**
+ * Contradiction or gap found in a round's answers
+ */
+export interface MatrixIssue {
+  kind: 'contradiction' | 'missing';
+  questionIds: string[];
+  description: string;
+}
+
+/**
+ * One round of questions (round 1 = the initial batch)
+ */
+export interface MatrixRound {
+  round: number;
+  questionIds: string[];
+  // Found when the round's answers were reviewed
+  issues: MatrixIssue[];
+  reviewedAt?: string;
+}
+
+/**
+ * Question with its answer and the follow-ups it led to
+ */
+export interface QANode {
+  question: MatrixQuestion;
+  round: number;
+  answer?: string | string[];
+  followUps: QANode[];
+}
+
+/**
+ * Outcome of submitting a round's answers
+ */
+export interface RoundResult {
+  // Questions of the current round that still need an answer (no review yet)
+  unanswered: MatrixQuestion[];
+  issues: MatrixIssue[];
+  followUps: MatrixQuestion[];
+  // No open round left: the matrix is ready for approve_architecture
+  complete: boolean;
+}
+
 export interface DecisionMatrix {
   projectType: string;
+  // Missing in matrices created before follow-up rounds
+  description?: string;
+  // All questions, follow-ups included
   questions: MatrixQuestion[];
   answers: MatrixAnswer[];
   recommendations: string[];
+  // Scored stacks from research_tech_stacks, best first
+  stackResearch?: StackResearch;
+  // Candidate stacks scored with weights derived from the answers, best first
+  stackScoring?: StackScoring;
+  // Q&A rounds and the limit including the initial batch (missing in older matrices)
+  rounds?: MatrixRound[];
+  maxRounds?: number;
+}
+
+export const DEFAULT_MAX_ROUNDS = 3;
+
+const questionCategory = z.enum(['architecture', 'technology', 'feature', 'deployment', 'quality']);
+
+const questionsSchema: JSONSchema<MatrixQuestion[]> = z.array(z.object({
+  id: z.string(),
+  question: z.string(),
+  type: z.enum(['choice', 'text', 'multiple']),
+  options: z.array(z.string()).optional(),
+  category: questionCategory,
+  required: z.boolean().optional(),
+})).min(1);
+
+/**
+ * Issues and follow-up questions found in the answers so far
+ */
+export interface AnswerReview {
+  issues: MatrixIssue[];
+  followUps: Array<MatrixQuestion & Required<Pick<MatrixQuestion, 'followUpTo' | 'reason'>>>;
 }
 
+const reviewSchema: JSONSchema<AnswerReview> = z.object({
+  issues: z.array(z.object({
+    kind: z.enum(['contradiction', 'missing']),
+    questionIds: z.array(z.string()),
+    description: z.string(),
+  })),
+  followUps: z.array(z.object({
+    id: z.string(),
+    question: z.string(),
+    type: z.enum(['choice', 'text', 'multiple']),
+    options: z.array(z.string()).optional(),
+    category: questionCategory,
+    followUpTo: z.array(z.string()),
+    reason: z.string(),
+  })),
+});
+
+const recommendationsSchema: JSONSchema<string[]> = z.array(z.string()).min(1);
+
 export class DecisionMatrixModule {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'decision-matrix', 'decision_matrix');
   }
 
   /**
@@ -58,6 +164,7 @@ For each question, provide:
 - Type: "choice" or "text"
 - Options (if choice type)
 - Category
+- Required: set "required": false only if the project can proceed without an answer
 
 Return ONLY valid JSON array of questions with this structure:
 [
@@ -72,8 +179,12 @@ Return ONLY valid JSON array of questions with this structure:
 
 IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 2000);
-    return parseJSONWithDefault<MatrixQuestion[]>(response, this.getDefaultQuestions(projectType), 'generateQuestions');
+    const result = await this.aiAdapter.generateJSON(prompt, questionsSchema, {
+      maxTokens: 2000,
+      fallback: this.getDefaultQuestions(projectType),
+      label: 'generateQuestions',
+    });
+    return result.data;
   }
 
   /**
@@ -95,16 +206,20 @@ IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
    */
   async analyzeAnswers(
     questions: MatrixQuestion[],
-    answers: MatrixAnswer[]
+    answers: MatrixAnswer[],
+    researchedStacks: ScoredStack[] = []
   ): Promise<string[]> {
     const qaText = questions.map(q => {
       const answer = answers.find(a => a.questionId === q.id);
       return `Q: ${q.question}\nA: ${JSON.stringify(answer?.answer || 'Not answered')}`;
     }).join('\n\n');
+    const researchContext = researchedStacks.length > 0
+      ? `\n\nResearched tech stacks (ranked by weighted score):\n${formatStackRanking(researchedStacks)}`
+      : '';
 
     const prompt = `You are a software architecture advisor. Based on the following Q&A, provide 5-7 specific technical recommendations for the project.
 
-${qaText}
+${qaText}${researchContext}
 
 Provide recommendations about:
 - Specific technologies/frameworks to use
@@ -119,8 +234,12 @@ Return recommendations as a JSON array of strings:
 
 IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 1500);
-    return parseJSONWithDefault<string[]>(response, this.getDefaultRecommendations(), 'analyzeAnswers');
+    const result = await this.aiAdapter.generateJSON(prompt, recommendationsSchema, {
+      maxTokens: 1500,
+      fallback: this.getDefaultRecommendations(),
+      label: 'analyzeAnswers',
+    });
+    return result.data;
   }
 
   /**
@@ -143,18 +262,159 @@ IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
    */
   async createMatrix(
     projectType: string,
-    description: string
+    description: string,
+    maxRounds: number = DEFAULT_MAX_ROUNDS
   ): Promise<DecisionMatrix> {
     const questions = await this.generateQuestions(projectType, description);
 
     return {
       projectType,
+      description,
       questions,
       answers: [],
       recommendations: [],
+      rounds: [{ round: 1, questionIds: questions.map(q => q.id), issues: [] }],
+      maxRounds,
     };
   }
 
+  /**
+   * Record answers and, once the open round's required questions are answered, review it
+   *
+   * The review finds contradictions and missing information in all answers
+   * so far. Follow-up questions open a new round unless the round limit is
+   * reached. Answers to earlier questions replace the previous ones.
+   */
+  async submitAnswers(matrix: DecisionMatrix, answers: MatrixAnswer[]): Promise<RoundResult> {
+    matrix.answers = mergeAnswers(matrix.answers, answers);
+
+    const rounds = this.getRounds(matrix);
+    const current = rounds[rounds.length - 1];
+    if (current.reviewedAt) {
+      return { unanswered: [], issues: [], followUps: [], complete: true };
+    }
+
+    const unanswered = this.getUnanswered(matrix, current.questionIds).filter(q => q.required !== false);
+    if (unanswered.length > 0) {
+      return { unanswered, issues: [], followUps: [], complete: false };
+    }
+
+    const canFollowUp = current.round < (matrix.maxRounds ?? DEFAULT_MAX_ROUNDS);
+    const review = await this.reviewAnswers(matrix, canFollowUp);
+
+    // Follow-up ids must not clash with earlier questions or with each other
+    const earlierIds = new Set(matrix.questions.map(q => q.id));
+    const knownIds = new Set(earlierIds);
+    const followUps = canFollowUp
+      ? review.followUps.map((q, index) => {
+          let id = q.id && !knownIds.has(q.id) ? q.id : `followup_${current.round + 1}_${index + 1}`;
+          for (let suffix = 2; knownIds.has(id); suffix++) {
+            id = `followup_${current.round + 1}_${index + 1}_${suffix}`;
+          }
+          knownIds.add(id);
+          return { ...q, id, followUpTo: q.followUpTo.filter(ref => earlierIds.has(ref)) };
+        })
+      : [];
+
+    current.issues = review.issues;
+    current.reviewedAt = new Date().toISOString();
+    if (followUps.length > 0) {
+      matrix.questions.push(...followUps);
+      rounds.push({ round: current.round + 1, questionIds: followUps.map(q => q.id), issues: [] });
+    }
+
+    return { unanswered: [], issues: review.issues, followUps, complete: followUps.length === 0 };
+  }
+
+  /**
+   * Ask the AI for contradictions, gaps and (if allowed) follow-up questions
+   */
+  async reviewAnswers(matrix: DecisionMatrix, withFollowUps: boolean = true): Promise<AnswerReview> {
+    const qaText = matrix.questions.map(q => {
+      const answer = matrix.answers.find(a => a.questionId === q.id);
+      const options = q.options ? ` (options: ${q.options.join(', ')})` : '';
+      return `[${q.id}] Q: ${q.question}${options}\nA: ${JSON.stringify(answer?.answer || 'Not answered')}`;
+    }).join('\n\n');
+
+    const prompt = `You are a software architecture expert reviewing a decision matrix for a ${matrix.projectType} project.
+${matrix.description ? `\nProject Description: ${matrix.description}\n` : ''}
+Questions and answers so far:
+
+${qaText}
+
+Find:
+1. Contradictions: answers that cannot both hold (e.g. "Serverless" architecture with "Self-hosted" deployment, "MongoDB" with strict relational reporting needs)
+2. Missing information: decisions the project needs that the answers leave open (e.g. an API with no authentication method chosen)
+
+${withFollowUps
+  ? `For each issue, write ONE targeted follow-up question that resolves it. Refer to the ids of the questions involved in "followUpTo". Ask nothing that is already answered. Return no follow-ups if the answers are consistent and complete.`
+  : 'Do not ask follow-up questions: return "followUps" as an empty array.'}
+
+Return ONLY valid JSON with this structure:
+{
+  "issues": [
+    { "kind": "contradiction", "questionIds": ["arch_01", "deploy_01"], "description": "Serverless architecture conflicts with self-hosted deployment" }
+  ],
+  "followUps": [
+    {
+      "id": "followup_01",
+      "question": "Serverless and self-hosted conflict. Which should take precedence?",
+      "type": "choice",
+      "options": ["Serverless on a cloud provider", "Self-hosted containers"],
+      "category": "deployment",
+      "followUpTo": ["arch_01", "deploy_01"],
+      "reason": "Serverless architecture conflicts with self-hosted deployment"
+    }
+  ]
+}
+
+IMPORTANT: Return ONLY the JSON, no markdown, no explanation.`;
+
+    const result = await this.aiAdapter.generateJSON(prompt, reviewSchema, {
+      maxTokens: 2000,
+      fallback: { issues: [], followUps: [] },
+      label: 'reviewAnswers',
+    });
+    return result.data;
+  }
+
+  /**
+   * Rounds of a matrix (older matrices count as a single round)
+   */
+  getRounds(matrix: DecisionMatrix): MatrixRound[] {
+    return matrix.rounds ??= [{ round: 1, questionIds: matrix.questions.map(q => q.id), issues: [] }];
+  }
+
+  /**
+   * Questions (of the given ids, or all) without an answer
+   */
+  getUnanswered(matrix: DecisionMatrix, questionIds?: string[]): MatrixQuestion[] {
+    const answered = new Set(matrix.answers.filter(a => hasAnswer(a.answer)).map(a => a.questionId));
+    return matrix.questions.filter(q => (!questionIds || questionIds.includes(q.id)) && !answered.has(q.id));
+  }
+
+  /**
+   * Q&A tree: initial questions at the root, follow-ups under the questions they follow up on
+   *
+   * A follow-up to several questions is listed under the first one.
+   */
+  buildQATree(matrix: DecisionMatrix): QANode[] {
+    const roundOf = new Map(this.getRounds(matrix).flatMap(r => r.questionIds.map(id => [id, r.round] as const)));
+    const nodes = new Map(matrix.questions.map(q => [q.id, {
+      question: q,
+      round: roundOf.get(q.id) ?? 1,
+      answer: matrix.answers.find(a => a.questionId === q.id)?.answer,
+      followUps: [],
+    } as QANode]));
+
+    const roots: QANode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.question.followUpTo?.map(id => nodes.get(id)).find(Boolean);
+      (parent ? parent.followUps : roots).push(node);
+    }
+    return roots;
+  }
+
   /**
    * Complete matrix with answers and generate recommendations
    */
@@ -162,8 +422,8 @@ IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
     matrix: DecisionMatrix,
     answers: MatrixAnswer[]
   ): Promise<DecisionMatrix> {
-    matrix.answers = answers;
-    matrix.recommendations = await this.analyzeAnswers(matrix.questions, answers);
+    matrix.answers = mergeAnswers(matrix.answers, answers);
+    matrix.recommendations = await this.analyzeAnswers(matrix.questions, answers, matrix.stackResearch?.stacks);
     return matrix;
   }
 
@@ -180,6 +440,10 @@ IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
       summary += `**Answer:** ${JSON.stringify(answer?.answer || 'Not answered')}\n\n`;
     });
 
+    if (matrix.stackResearch) {
+      summary += `## Researched Tech Stacks\n\n${formatStackRanking(matrix.stackResearch.stacks)}\n\n`;
+    }
+
     if (matrix.recommendations.length > 0) {
       summary += `## Recommendations\n\n`;
       matrix.recommendations.forEach((rec, i) => {
@@ -190,3 +454,18 @@ IMPORTANT: Return ONLY the JSON array, no markdown, no explanation.`;
     return summary;
   }
 }
+
+/**
+ * Answers with `incoming` replacing earlier answers to the same question
+ */
+export function mergeAnswers(existing: MatrixAnswer[], incoming: MatrixAnswer[]): MatrixAnswer[] {
+  const merged = new Map(existing.map(a => [a.questionId, a]));
+  for (const answer of incoming) {
+    merged.set(answer.questionId, answer);
+  }
+  return [...merged.values()];
+}
+
+function hasAnswer(answer: string | string[]): boolean {
+  return Array.isArray(answer) ? answer.length > 0 : answer.trim() !== '';
+}
@@ -12,6 +12,7 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { Specification } from './spec-kit.js';
 import { parseJSONWithDefault } from '../utils/json-parser.js';
 
@@ -42,7 +43,7 @@ export class FrontendPromptGenerator {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'frontend-prompt-generator', 'frontend_prompt');
   }
 
   /**
@@ -37,7 +37,11 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
-import { DecisionMatrixModule } from './decision-matrix.js';
+import { DecisionMatrixModule, DecisionMatrix, MatrixAnswer, QANode, RoundResult } from './decision-matrix.js';
+import { ResearchModule, ResearchArgs, ResearchResult } from './research.js';
+import { StackScorer, StackScoring, WhatIfResult } from './stack-scoring.js';
+import type { CriteriaWeights } from '../core/decision-matrix.js';
+import { StackKnowledgeBase } from '../core/stack-knowledge.js';
 import { SpecKitModule, SpecKit } from './spec-kit.js';
 import { POMLOrchestrator, POMLState } from './poml-orchestrator.js';
 import { PostmanGenerator } from './postman-generator.js';
@@ -45,6 +49,8 @@ import { FrontendPromptGenerator } from './frontend-prompt-generator.js';
 import { BDDGenerator } from './bdd-generator.js';
 import { NotebookLMModule, EnrichmentResult } from './notebooklm-integration.js';
 import { A2UIGenerator, A2UIDesignPreferences, GeneratedUICode } from './a2ui-generator.js';
+import { RunControl, GenerationRun } from '../core/generation-run.js';
+import { AppCreatorError } from '../core/errors.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -61,6 +67,9 @@ export type WorkflowPhase =
 
 export interface WorkflowState {
   projectName: string;
+  projectPath?: string;
+  // Missing in states saved before research_tech_stacks
+  description?: string;
   currentPhase: WorkflowPhase;
   completedPhases: WorkflowPhase[];
   requirements: string[];
@@ -72,17 +81,25 @@ export interface WorkflowState {
   bddTestsGenerated: boolean;
   tasksCompleted: number;
   lastCheckpointTask: number;
+  // IDs of completed tasks in completion order
+  completedTaskIds: string[];
   issues: string[];
   // New fields for NotebookLM and A2UI
   notebookLMSource?: string;
   notebookEnrichment?: EnrichmentResult;
   a2uiGenerated: boolean;
   a2uiCode?: GeneratedUICode;
+  // Unfinished multi-step generation, resumed on the next call
+  generationRun?: GenerationRun;
+  // Phases reopened with reopen_phase and not regenerated since (their AI calls skip the response cache)
+  reopenedPhases?: WorkflowPhase[];
 }
 
 export class MasterOrchestrator {
   private aiAdapter: AIAdapter;
   private decisionMatrix: DecisionMatrixModule;
+  private researchModule: ResearchModule;
+  private stackScorer: StackScorer;
   private specKitModule: SpecKitModule;
   private pomlOrchestrator: POMLOrchestrator;
   private postmanGenerator: PostmanGenerator;
@@ -91,9 +108,11 @@ export class MasterOrchestrator {
   private notebookLMModule: NotebookLMModule;
   private a2uiGenerator: A2UIGenerator;
 
-  constructor(aiAdapter: AIAdapter) {
+  constructor(aiAdapter: AIAdapter, stackKnowledge: StackKnowledgeBase = new StackKnowledgeBase()) {
     this.aiAdapter = aiAdapter;
     this.decisionMatrix = new DecisionMatrixModule(aiAdapter);
+    this.researchModule = new ResearchModule(aiAdapter, stackKnowledge);
+    this.stackScorer = new StackScorer(stackKnowledge);
     this.specKitModule = new SpecKitModule(aiAdapter);
     this.pomlOrchestrator = new POMLOrchestrator(aiAdapter, 15); // 15 min intervals
     this.postmanGenerator = new PostmanGenerator(aiAdapter);
@@ -110,7 +129,8 @@ export class MasterOrchestrator {
     projectName: string,
     projectType: string,
     description: string,
-    requirements: string[]
+    requirements: string[],
+    maxRounds?: number
   ): Promise<{
     decisionMatrix: any;
     message: string;
@@ -119,7 +139,10 @@ export class MasterOrchestrator {
     console.error(`📋 Phase: Requirements & Decision Matrix\n`);
 
     // Generate decision matrix
-    const matrix = await this.decisionMatrix.createMatrix(projectType, description);
+    const matrix = await this.decisionMatrix.createMatrix(projectType, description, maxRounds);
+
+    // First ranking from the description and requirements, refined once answers arrive
+    matrix.stackScoring = this.scoreStacks(matrix, requirements);
 
     return {
       decisionMatrix: matrix,
@@ -127,6 +150,58 @@ export class MasterOrchestrator {
     };
   }
 
+  /**
+   * PHASE 1: Record decision matrix answers and ask follow-up questions where they conflict or leave gaps
+   */
+  async answerFollowUps(matrix: DecisionMatrix, answers: MatrixAnswer[]): Promise<RoundResult> {
+    const result = await this.decisionMatrix.submitAnswers(matrix, answers);
+
+    if (result.followUps.length > 0) {
+      console.error(`❓ ${result.issues.length} issue(s) found, ${result.followUps.length} follow-up question(s) asked`);
+    }
+    return result;
+  }
+
+  /**
+   * Decision matrix questions with their answers and follow-ups
+   */
+  getQATree(matrix: DecisionMatrix): QANode[] {
+    return this.decisionMatrix.buildQATree(matrix);
+  }
+
+  /**
+   * Score candidate stacks with weights and context derived from the decision matrix answers
+   */
+  scoreStacks(matrix: DecisionMatrix, requirements: string[]): StackScoring {
+    return this.stackScorer.score(matrix, requirements);
+  }
+
+  /**
+   * Re-score stored stacks with other weights and analyze how robust the top stack is
+   */
+  whatIfWeights(scoring: StackScoring, weights: Partial<CriteriaWeights>, threshold: number): WhatIfResult {
+    return this.stackScorer.whatIf(scoring, weights, threshold);
+  }
+
+  /**
+   * Weights, context and comparison table of a stack scoring
+   */
+  formatStackScoring(scoring: StackScoring): string {
+    return this.stackScorer.format(scoring);
+  }
+
+  /**
+   * PHASE 1b: Research and rank tech stacks for the decision matrix
+   */
+  async researchTechStacks(projectName: string, args: ResearchArgs): Promise<ResearchResult> {
+    console.error(`\n🔍 Researching tech stacks for: ${projectName}`);
+
+    const result = await this.researchModule.research(args);
+
+    console.error(`✅ ${result.stacks.length} stacks ranked, top: ${result.recommendation}\n`);
+    return result;
+  }
+
   /**
    * PHASE 2: User approved architecture - generate Spec-Kit
    */
@@ -135,7 +210,8 @@ export class MasterOrchestrator {
     projectType: string,
     description: string,
     decisionMatrix: any,
-    projectPath: string
+    projectPath: string,
+    run: RunControl = new RunControl()
   ): Promise<{
     specKit: SpecKit;
     pomlState: POMLState;
@@ -144,12 +220,16 @@ export class MasterOrchestrator {
   }> {
     console.error(`\n📚 Generating Spec-Kit...`);
 
+    // 4 Spec-Kit components + writing files
+    run.setTotal(5);
+
     // Generate complete Spec-Kit
     const specKit = await this.specKitModule.generateSpecKit(
       projectName,
       projectType,
       description,
-      decisionMatrix
+      decisionMatrix,
+      run
     );
 
     // Initialize POML state
@@ -207,6 +287,7 @@ export class MasterOrchestrator {
     // Save state
     const statePath = join(projectPath, '.appcreator', 'state.json');
     await fs.writeFile(statePath, JSON.stringify(pomlState, null, 2), 'utf-8');
+    await run.advance(`Spec-Kit files written (${files.length})`);
 
     console.error(`✅ Spec-Kit generated: ${files.length} files created\n`);
 
@@ -514,7 +595,8 @@ export class MasterOrchestrator {
     // Check NotebookLM availability
     const isAvailable = await this.notebookLMModule.checkNotebookLMAvailability();
     if (!isAvailable) {
-      throw new Error(
+      throw new AppCreatorError(
+        'NOTEBOOKLM_UNAVAILABLE',
         'NotebookLM MCP server not configured. Please set NOTEBOOKLM_MCP_ENABLED=true'
       );
     }
@@ -665,10 +747,22 @@ export class MasterOrchestrator {
   }> {
     console.error(`\n🎨 PHASE 4 (A2UI): Generating AI-powered frontend...`);
 
-    // Generate A2UI specification
+    // Generate A2UI specification, writing each layout as its components arrive
+    const layoutsDir = join(projectPath, 'frontend', 'a2ui', 'layouts');
+    const layoutFiles = new Set<string>();
+    await fs.mkdir(layoutsDir, { recursive: true });
+
     const a2uiSpec = await this.a2uiGenerator.generateA2UISpec(
       specKit.specification,
-      designPreferences
+      designPreferences,
+      async (requirementId, layout, complete) => {
+        const layoutPath = join(layoutsDir, `${requirementId.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+        await fs.writeFile(layoutPath, JSON.stringify(layout, null, 2), 'utf-8');
+        layoutFiles.add(layoutPath);
+        if (complete) {
+          console.error(`   🧩 Layout ${layout.id}: ${layout.components.length} component(s)`);
+        }
+      }
     );
 
     // Generate implementation code
@@ -688,6 +782,7 @@ export class MasterOrchestrator {
     await fs.mkdir(join(projectPath, 'frontend'), { recursive: true });
     await fs.writeFile(a2uiSpecPath, JSON.stringify(a2uiSpec, null, 2), 'utf-8');
     files.push(a2uiSpecPath);
+    files.push(...layoutFiles);
 
     // Implementation code files
     for (const impl of uiCode.implementations) {
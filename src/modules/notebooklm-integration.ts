@@ -12,9 +12,11 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { SpecKit } from './spec-kit.js';
 import { DecisionMatrix } from './decision-matrix.js';
 import { parseJSONWithDefault } from '../utils/json-parser.js';
+import { AppCreatorError } from '../core/errors.js';
 
 export interface NotebookSource {
   id: string;
@@ -75,7 +77,7 @@ export class NotebookLMModule {
   private notebookLMAvailable: boolean = false;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'notebooklm', 'requirements');
   }
 
   /**
@@ -96,7 +98,7 @@ export class NotebookLMModule {
    */
   async listNotebooks(): Promise<{ id: string; name: string; sourceCount: number }[]> {
     if (!this.notebookLMAvailable) {
-      throw new Error('NotebookLM MCP server not available. Please configure it first.');
+      throw new AppCreatorError('NOTEBOOKLM_UNAVAILABLE', 'NotebookLM MCP server not available. Please configure it first.');
     }
 
     console.error('📚 Fetching notebooks from NotebookLM...');
@@ -130,7 +132,7 @@ export class NotebookLMModule {
    */
   async fetchNotebookContent(notebookName: string): Promise<NotebookContent> {
     if (!this.notebookLMAvailable) {
-      throw new Error('NotebookLM MCP server not available.');
+      throw new AppCreatorError('NOTEBOOKLM_UNAVAILABLE', 'NotebookLM MCP server not available.');
     }
 
     console.error(`📖 Fetching content from notebook: ${notebookName}`);
@@ -179,7 +181,11 @@ export class NotebookLMModule {
         },
       };
     } catch (error) {
-      throw new Error(`Could not fetch notebook "${notebookName}". Ensure it exists in NotebookLM and MCP server is configured.`);
+      throw AppCreatorError.wrap(
+        error,
+        `Could not fetch notebook "${notebookName}". Ensure it exists in NotebookLM and MCP server is configured`,
+        'NOTEBOOKLM_UNAVAILABLE'
+      );
     }
   }
 
@@ -194,7 +200,7 @@ export class NotebookLMModule {
     query: NotebookQuery
   ): Promise<NotebookAnswer> {
     if (!this.notebookLMAvailable) {
-      throw new Error('NotebookLM MCP server not available.');
+      throw new AppCreatorError('NOTEBOOKLM_UNAVAILABLE', 'NotebookLM MCP server not available.');
     }
 
     console.error(`🔍 Querying notebook "${notebookName}": ${query.query}`);
@@ -233,8 +239,7 @@ Answer:`;
         confidence: 0.85,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Could not query notebook "${notebookName}": ${errorMessage}`);
+      throw AppCreatorError.wrap(error, `Could not query notebook "${notebookName}"`, 'NOTEBOOKLM_UNAVAILABLE');
     }
   }
 
@@ -10,6 +10,7 @@
 
 import { SpecKit } from './spec-kit.js';
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 
 export interface POMLCheckpoint {
   id: string;
@@ -48,7 +49,7 @@ export class POMLOrchestrator {
   private lastCheckpointTime: number;
 
   constructor(aiAdapter: AIAdapter, checkpointInterval: number = 15) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'poml-orchestrator', 'backend_dev');
     this.checkpointInterval = checkpointInterval;
     this.lastCheckpointTime = Date.now();
   }
@@ -109,9 +110,10 @@ export class POMLOrchestrator {
       completedTaskIds.includes(t.id)
     );
 
-    // Get next tasks (uncompleted, ordered by priority)
+    // Get next tasks (not completed in this or an earlier checkpoint, ordered by priority)
+    const done = new Set([...state.checkpoints.flatMap(cp => cp.completedTasks), ...completedTaskIds]);
     const nextTasks = state.specKit.tasks
-      .filter(t => !completedTaskIds.includes(t.id))
+      .filter(t => !done.has(t.id))
       .sort((a, b) => a.priority - b.priority)
       .slice(0, 5)
       .map(t => t.id);
@@ -179,7 +181,7 @@ Create a concise summary that captures:
 
 Return ONLY the summary text, no markdown, no extra formatting.`;
 
-    return await this.aiAdapter.generateText(prompt, 300);
+    return await this.aiAdapter.generateText(prompt, 300, { taskClass: 'cheap' });
   }
 
   /**
@@ -11,6 +11,7 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 
 export interface PostmanRequest {
   name: string;
@@ -55,7 +56,7 @@ export class PostmanGenerator {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'postman-generator', 'api_testing');
   }
 
   /**
@@ -20,6 +20,7 @@ import { promises as fs } from 'fs';
 import { join, basename } from 'path';
 import { TemplateEngine } from '../core/template-engine.js';
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { AdapterFactory, AIProvider } from '../adapters/adapter-factory.js';
 
 /**
@@ -141,11 +142,15 @@ export class ProjectGeneratorModule {
     apiKey: string,
     model?: string
   ) {
-    this.aiAdapter = AdapterFactory.createAdapter({
-      provider,
-      apiKey,
-      model: model || AdapterFactory.getDefaultModel(provider),
-    });
+    this.aiAdapter = new MeteredAdapter(
+      AdapterFactory.createAdapter({
+        provider,
+        apiKey,
+        model: model || AdapterFactory.getDefaultModel(provider),
+      }),
+      'project-generator',
+      'backend_dev'
+    );
 
     this.templateEngine = new TemplateEngine();
 
@@ -0,0 +1,76 @@
+/**
+ * Tech stack research through the AI adapter (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResearchArgs, ResearchModule } from './research.js';
+import { DEFAULT_CANDIDATE_STACKS } from './stack-scoring.js';
+import { AppCreatorError } from '../core/errors.js';
+import type { AIAdapter, AIResponse } from '../adapters/ai-adapter.interface.js';
+
+const ARGS: ResearchArgs = {
+  project_description: 'A REST API for an online shop',
+  requirements: ['Product catalogue', 'Checkout'],
+  constraints: [],
+  project_type: 'api',
+};
+
+/**
+ * Adapter answering every prompt with the same text, counting the calls
+ */
+function scriptedAdapter(text: string): AIAdapter & { calls: number } {
+  const adapter = {
+    calls: 0,
+    generate: async (): Promise<AIResponse> => {
+      adapter.calls++;
+      return { text, usage: { inputTokens: 0, outputTokens: 0 }, provider: 'test', model: 'test-model' };
+    },
+    generateText: async () => (await adapter.generate()).text,
+    async *generateStream() {
+      const response = await adapter.generate();
+      yield response.text;
+      return response;
+    },
+    generateJSON: async () => { throw new Error('not used'); },
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+  return adapter;
+}
+
+describe('ResearchModule.research', () => {
+  it('scores and ranks the researched stacks', async () => {
+    const stacks = DEFAULT_CANDIDATE_STACKS.api.slice(0, 2);
+    const adapter = scriptedAdapter(JSON.stringify({ stacks, rationale: '  Compared API frameworks.  ' }));
+
+    const result = await new ResearchModule(adapter).research({ ...ARGS });
+
+    assert.equal(adapter.calls, 1);
+    assert.deepEqual(result.stacks.map(s => s.name).sort(), stacks.map(s => s.name).sort());
+    assert.ok(result.stacks[0].score >= result.stacks[1].score);
+    assert.equal(result.recommendation, result.stacks[0].name);
+    assert.equal(result.researchRationale, 'Compared API frameworks.');
+    assert.ok(result.comparisonTable.includes(stacks[0].name));
+  });
+
+  it('fails with PARSE_FALLBACK_USED when no stack can be read', async () => {
+    const adapter = scriptedAdapter('{"stacks": [], "rationale": "none"}');
+
+    await assert.rejects(new ResearchModule(adapter).research({ ...ARGS }), (error: unknown) => {
+      assert.ok(error instanceof AppCreatorError);
+      assert.equal(error.code, 'PARSE_FALLBACK_USED');
+      return true;
+    });
+    assert.equal(adapter.calls, 3);
+  });
+
+  it('rejects missing requirements before calling the AI', async () => {
+    const adapter = scriptedAdapter('');
+    const research = new ResearchModule(adapter);
+
+    await assert.rejects(research.research({ ...ARGS, requirements: [] }), { code: 'INVALID_ARGUMENTS' });
+    assert.equal((await research.execute({ ...ARGS, project_description: ' ' })).isError, true);
+    assert.equal(adapter.calls, 0);
+  });
+});
@@ -1,17 +1,21 @@
 /**
  * Research Module - Tech Stack Research & Analysis
  *
- * This module uses Claude AI to research technology stacks and
- * applies the DecisionMatrix to score and rank options.
+ * This module uses the configured AI provider to research technology stacks
+ * and applies the DecisionMatrix to score and rank options.
  *
  * Process:
- * 1. Claude researches tech stacks based on project requirements
+ * 1. The AI researches tech stacks based on project requirements
  * 2. DecisionMatrix scores each option
  * 3. Returns comprehensive analysis with recommendations
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { z } from 'zod';
+import { AIAdapter, JSONSchema } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { DecisionMatrix, type StackOption, type ScoredStack } from '../core/decision-matrix.js';
+import { StackKnowledgeBase } from '../core/stack-knowledge.js';
+import { AppCreatorError } from '../core/errors.js';
 
 /**
  * MCP Tool Response interface
@@ -48,6 +52,32 @@ export interface ResearchResult {
   researchRationale: string;
 }
 
+/**
+ * Researched stacks kept with a project's decision matrix
+ */
+export interface StackResearch {
+  stacks: ScoredStack[];
+  rationale: string;
+  researchedAt: string;
+}
+
+interface ResearchResponse {
+  stacks: StackOption[];
+  rationale: string;
+}
+
+const researchSchema: JSONSchema<ResearchResponse> = z.object({
+  stacks: z.array(z.object({
+    name: z.string().min(1),
+    pros: z.array(z.string()).min(1),
+    cons: z.array(z.string()).min(1),
+    architecture: z.string(),
+    timeline: z.string(),
+    budget: z.string(),
+  })).min(1),
+  rationale: z.string(),
+});
+
 /**
  * Research Module Class
  *
@@ -55,55 +85,28 @@ export interface ResearchResult {
  * quantitative scoring to provide data-driven recommendations.
  */
 export class ResearchModule {
-  private anthropic: Anthropic;
+  private aiAdapter: AIAdapter;
   private decisionMatrix: DecisionMatrix;
-  private model: string = 'claude-sonnet-4-20250514';
 
-  constructor(apiKey: string) {
-    this.anthropic = new Anthropic({ apiKey });
-    this.decisionMatrix = new DecisionMatrix();
+  constructor(aiAdapter: AIAdapter, knowledge?: StackKnowledgeBase) {
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'research', 'decision_matrix');
+    this.decisionMatrix = new DecisionMatrix(undefined, knowledge);
   }
 
   /**
    * Execute research for a project
    *
-   * This is the main entry point called by the MCP server.
+   * Returns the report as an MCP tool response; failures become an error response.
    */
   async execute(args: ResearchArgs): Promise<MCPToolResponse> {
     try {
-      // Validate inputs
-      this.validateArgs(args);
-
-      // Step 1: Research tech stacks using Claude
-      const researchPrompt = this.buildResearchPrompt(args);
-      const researchResponse = await this.callClaude(researchPrompt);
-
-      // Step 2: Parse Claude's response into stack options
-      const stacks = this.parseStackOptions(researchResponse);
-
-      if (stacks.length === 0) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: '⚠️ No valid tech stack options could be extracted from research. Please try again with more specific requirements.',
-            },
-          ],
-          isError: true,
-        };
-      }
-
-      // Step 3: Score stacks using DecisionMatrix
-      const scoredStacks = this.decisionMatrix.score(stacks, args.requirements, args.constraints);
-
-      // Step 4: Generate comprehensive report
-      const report = this.generateReport(scoredStacks, args, researchResponse);
+      const result = await this.research(args);
 
       return {
         content: [
           {
             type: 'text',
-            text: report,
+            text: result.detailedAnalysis,
           },
         ],
       };
@@ -120,16 +123,61 @@ export class ResearchModule {
     }
   }
 
+  /**
+   * Research, score and rank tech stacks for a project
+   *
+   * @throws AppCreatorError (PARSE_FALLBACK_USED) if no stack option could be read from the AI response
+   */
+  async research(args: ResearchArgs): Promise<ResearchResult> {
+    this.validateArgs(args);
+
+    // Step 1: Research tech stacks
+    const research = await this.aiAdapter.generateJSON(this.buildResearchPrompt(args), researchSchema, {
+      maxTokens: 4096,
+      fallback: { stacks: [], rationale: '' },
+      label: 'researchTechStacks',
+    });
+
+    if (research.data.stacks.length === 0) {
+      throw new AppCreatorError(
+        'PARSE_FALLBACK_USED',
+        'No valid tech stack options could be extracted from research.',
+        { hint: 'Call "research_tech_stacks" again, or add more specific requirements or constraints.' }
+      );
+    }
+
+    // Step 2: Score stacks using DecisionMatrix
+    const scoredStacks = this.decisionMatrix.scoreWithContext(research.data.stacks, {
+      requirements: args.requirements,
+      constraints: args.constraints,
+      teamExperience: args.team_experience ?? [],
+      projectType: args.project_type ?? 'web',
+      timelineMonths: args.timeline_months ?? 6,
+      budgetLevel: args.budget_level ?? 'medium',
+    });
+
+    // Step 3: Generate comprehensive report
+    const rationale = research.data.rationale.trim() || 'Research completed based on project requirements.';
+
+    return {
+      stacks: scoredStacks,
+      recommendation: scoredStacks[0].name,
+      comparisonTable: this.decisionMatrix.generateComparisonTable(scoredStacks),
+      detailedAnalysis: this.generateReport(scoredStacks, args, rationale),
+      researchRationale: rationale,
+    };
+  }
+
   /**
    * Validate research arguments
    */
   private validateArgs(args: ResearchArgs): void {
     if (!args.project_description || args.project_description.trim() === '') {
-      throw new Error('project_description is required');
+      throw new AppCreatorError('INVALID_ARGUMENTS', 'project_description is required');
     }
 
     if (!args.requirements || args.requirements.length === 0) {
-      throw new Error('requirements array is required and must not be empty');
+      throw new AppCreatorError('INVALID_ARGUMENTS', 'requirements array is required and must not be empty');
     }
 
     if (!args.constraints) {
@@ -138,7 +186,7 @@ export class ResearchModule {
   }
 
   /**
-   * Build research prompt for Claude
+   * Build research prompt
    */
   private buildResearchPrompt(args: ResearchArgs): string {
     return `You are a senior software architect with 15+ years of experience across multiple technology stacks, frameworks, and architectures.
@@ -185,99 +233,32 @@ For EACH stack option, provide:
 
 ## OUTPUT FORMAT
 
-Provide your response in the following exact format:
-
----STACK-START---
-NAME: [Full stack name]
-PROS:
-- [Advantage 1]
-- [Advantage 2]
-- [Advantage 3]
-- [Advantage 4]
-- [Advantage 5]
-CONS:
-- [Disadvantage 1]
-- [Disadvantage 2]
-- [Disadvantage 3]
-ARCHITECTURE: [Architecture description]
-TIMELINE: [Timeline estimate]
-BUDGET: [Budget estimate]
----STACK-END---
-
-Repeat this format for each of the 4-5 stack options.
-
-After listing all stacks, provide a brief rationale (2-3 sentences) explaining your research approach and key factors considered.
+Return ONLY valid JSON with this structure:
+{
+  "stacks": [
+    {
+      "name": "[Full stack name]",
+      "pros": ["[Advantage 1]", "[Advantage 2]", "[Advantage 3]", "[Advantage 4]", "[Advantage 5]"],
+      "cons": ["[Disadvantage 1]", "[Disadvantage 2]", "[Disadvantage 3]"],
+      "architecture": "[Architecture description]",
+      "timeline": "[Timeline estimate]",
+      "budget": "[Budget estimate]"
+    }
+  ],
+  "rationale": "[Research approach]"
+}
+
+List 4-5 stack options in "stacks".
+
+In "rationale", explain your research approach and key factors considered (2-3 sentences).
 
 IMPORTANT:
 - Be objective and balanced
 - Consider the specific requirements and constraints
 - Include diverse options (e.g., different languages, frameworks, architectures)
 - Ensure each stack is production-ready and well-supported
-- Focus on modern, actively maintained technologies`;
-  }
-
-  /**
-   * Call Claude API for research
-   */
-  private async callClaude(prompt: string): Promise<string> {
-    const message = await this.anthropic.messages.create({
-      model: this.model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    // Extract text from response
-    const textContent = message.content.find((block) => block.type === 'text');
-    if (!textContent || textContent.type !== 'text') {
-      throw new Error('No text content in Claude response');
-    }
-
-    return textContent.text;
-  }
-
-  /**
-   * Parse stack options from Claude's response
-   */
-  private parseStackOptions(response: string): StackOption[] {
-    const stacks: StackOption[] = [];
-    const stackRegex = /---STACK-START---\s*NAME:\s*(.+?)\s*PROS:\s*((?:-.+?\n)+)\s*CONS:\s*((?:-.+?\n)+)\s*ARCHITECTURE:\s*(.+?)\s*TIMELINE:\s*(.+?)\s*BUDGET:\s*(.+?)\s*---STACK-END---/gs;
-
-    let match;
-    while ((match = stackRegex.exec(response)) !== null) {
-      const [, name, prosText, consText, architecture, timeline, budget] = match;
-
-      // Parse pros and cons (lines starting with -)
-      const pros = prosText
-        .split('\n')
-        .filter((line) => line.trim().startsWith('-'))
-        .map((line) => line.trim().substring(1).trim())
-        .filter((line) => line.length > 0);
-
-      const cons = consText
-        .split('\n')
-        .filter((line) => line.trim().startsWith('-'))
-        .map((line) => line.trim().substring(1).trim())
-        .filter((line) => line.length > 0);
-
-      // Only add if we have valid data
-      if (name && pros.length > 0 && cons.length > 0) {
-        stacks.push({
-          name: name.trim(),
-          pros,
-          cons,
-          architecture: architecture.trim(),
-          timeline: timeline.trim(),
-          budget: budget.trim(),
-        });
-      }
-    }
-
-    return stacks;
+- Focus on modern, actively maintained technologies
+- Return ONLY the JSON, no markdown, no explanation`;
   }
 
   /**
@@ -286,12 +267,8 @@ IMPORTANT:
   private generateReport(
     scoredStacks: ScoredStack[],
     args: ResearchArgs,
-    rawResearch: string
+    rationale: string
   ): string {
-    // Extract research rationale if present
-    const rationaleMatch = rawResearch.match(/---STACK-END---\s*(.+?)$/s);
-    const rationale = rationaleMatch ? rationaleMatch[1].trim() : 'Research completed based on project requirements.';
-
     const winner = scoredStacks[0];
     const runnerUp = scoredStacks.length > 1 ? scoredStacks[1] : null;
 
@@ -408,26 +385,12 @@ ${rationale}
 ---
 
 *Report generated by AppCreator Research Module*
-*Powered by Claude ${this.model} + DecisionMatrix*
+*Scored by DecisionMatrix*
 `;
 
     return report;
   }
 
-  /**
-   * Get current model
-   */
-  getModel(): string {
-    return this.model;
-  }
-
-  /**
-   * Set model (for testing or using different Claude versions)
-   */
-  setModel(model: string): void {
-    this.model = model;
-  }
-
   /**
    * Get decision matrix instance (for custom weight adjustment)
    */
@@ -445,36 +408,26 @@ ${rationale}
     requirements: string[],
     constraints: string[] = []
   ): Promise<ResearchResult> {
-    const response = await this.execute({
+    return await this.research({
       project_description: projectDescription,
       requirements,
       constraints,
     });
-
-    if (response.isError) {
-      throw new Error(response.content[0].text);
-    }
-
-    // Parse the response to extract structured data
-    const reportText = response.content[0].text;
-
-    // Extract recommended stack name
-    const stackMatch = reportText.match(/## 🏆 Recommended Stack: (.+)/);
-    const recommendedStack = stackMatch ? stackMatch[1] : 'Unknown';
-
-    return {
-      stacks: [], // Would need to re-parse from report
-      recommendation: recommendedStack,
-      comparisonTable: '', // Extracted from report
-      detailedAnalysis: reportText,
-      researchRationale: '',
-    };
   }
 }
 
+/**
+ * Ranked stacks as prompt context ("1. Name - 78/100 (architecture)")
+ */
+export function formatStackRanking(stacks: ScoredStack[]): string {
+  return stacks
+    .map((stack, index) => `${stack.ranking ?? index + 1}. ${stack.name} - ${stack.score}/100 (${stack.architecture})`)
+    .join('\n');
+}
+
 /**
  * Create a research module instance
  */
-export function createResearchModule(apiKey: string): ResearchModule {
-  return new ResearchModule(apiKey);
+export function createResearchModule(aiAdapter: AIAdapter): ResearchModule {
+  return new ResearchModule(aiAdapter);
 }
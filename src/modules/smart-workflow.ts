@@ -16,12 +16,15 @@
  */
 
 import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { NotebookLMModule } from './notebooklm-integration.js';
 import { SpecKitModule, SpecKit } from './spec-kit.js';
 import { POMLOrchestrator, POMLState } from './poml-orchestrator.js';
 import { A2UIGenerator, A2UIDesignPreferences, GeneratedUICode } from './a2ui-generator.js';
 import { PostmanGenerator } from './postman-generator.js';
 import { BDDGenerator } from './bdd-generator.js';
+import { ProjectLocator } from '../core/project-locator.js';
+import { RunControl } from '../core/generation-run.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -38,6 +41,9 @@ export interface SmartProjectRequirements {
 
   // Optional: NotebookLM source
   notebookName?: string;
+
+  // Optional: Directory to create the project in (overrides the projects root)
+  outputDir?: string;
 }
 
 export interface TechRecommendation {
@@ -83,9 +89,11 @@ export class SmartWorkflowModule {
   private a2uiGenerator: A2UIGenerator;
   private postmanGenerator: PostmanGenerator;
   private bddGenerator: BDDGenerator;
+  private projectLocator: ProjectLocator;
 
-  constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+  constructor(aiAdapter: AIAdapter, projectLocator: ProjectLocator = ProjectLocator.fromEnvironment()) {
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'smart-workflow', 'requirements');
+    this.projectLocator = projectLocator;
     this.notebookLM = new NotebookLMModule(aiAdapter);
     this.specKit = new SpecKitModule(aiAdapter);
     this.pomlOrchestrator = new POMLOrchestrator(aiAdapter, 15);
@@ -166,12 +174,16 @@ export class SmartWorkflowModule {
    */
   async executeWithRecommendations(
     requirements: SmartProjectRequirements,
-    recommendations: SmartRecommendations
+    recommendations: SmartRecommendations,
+    run: RunControl = new RunControl()
   ): Promise<SmartWorkflowResult> {
     console.error(`\n🚀 EXECUTING FULL WORKFLOW`);
     console.error(`════════════════════════════════════════════════════════\n`);
 
-    const projectPath = `C:\\Users\\serha\\OneDrive\\Desktop\\appcreator-projects\\${requirements.projectName}`;
+    const projectPath = this.projectLocator.resolveProjectPath(
+      requirements.projectName,
+      requirements.outputDir
+    );
     await fs.mkdir(projectPath, { recursive: true });
     await fs.mkdir(join(projectPath, '.appcreator'), { recursive: true });
     await fs.mkdir(join(projectPath, 'docs'), { recursive: true });
@@ -180,33 +192,25 @@ export class SmartWorkflowModule {
     let notebookUsed = false;
     let coverage = 0;
 
+    // Spec-Kit (4 components, or 1 NotebookLM step) + A2UI spec, A2UI code, API tests, BDD tests, POML
+    run.setTotal((requirements.notebookName ? 5 : 4) + 5);
+
     // Phase 1: Generate Spec-Kit (with or without NotebookLM)
     console.error(`📋 Phase 1: Generating Spec-Kit...`);
     let specKit: SpecKit;
 
-    if (requirements.notebookName) {
-      const notebookAvailable = await this.notebookLM.checkNotebookLMAvailability();
-      if (notebookAvailable) {
-        try {
-          const enrichment = await this.notebookLM.enrichSpecKitWithNotebook(
-            requirements.projectName,
-            requirements.projectType,
-            requirements.notebookName,
-            requirements.features
-          );
-          specKit = enrichment.enrichedSpecKit;
-          coverage = enrichment.coverageScore;
-          notebookUsed = true;
-          console.error(`   ✓ Spec-Kit enriched with NotebookLM (${coverage.toFixed(1)}% coverage)`);
-        } catch (error) {
-          console.error(`   ⚠️  NotebookLM failed, using standard generation`);
-          specKit = await this.generateStandardSpecKit(requirements, recommendations);
-        }
-      } else {
-        specKit = await this.generateStandardSpecKit(requirements, recommendations);
-      }
+    const enrichment = requirements.notebookName
+      ? await run.step('notebook_spec_kit', 'NotebookLM enrichment finished', () =>
+          this.enrichWithNotebook(requirements))
+      : null;
+
+    if (enrichment) {
+      specKit = enrichment.specKit;
+      coverage = enrichment.coverage;
+      notebookUsed = true;
+      run.setTotal(1 + 5);
     } else {
-      specKit = await this.generateStandardSpecKit(requirements, recommendations);
+      specKit = await this.generateStandardSpecKit(requirements, recommendations, run);
     }
 
     // Save Spec-Kit files
@@ -215,25 +219,29 @@ export class SmartWorkflowModule {
     // Phase 2: Generate A2UI Frontend
     console.error(`\n🎨 Phase 2: Generating A2UI Frontend...`);
     const uiPreferences = this.extractUIPreferences(recommendations);
-    const a2uiSpec = await this.a2uiGenerator.generateA2UISpec(
-      specKit.specification,
-      uiPreferences
-    );
-    const a2uiCode = await this.a2uiGenerator.generateImplementationCode(
-      a2uiSpec,
-      uiPreferences
-    );
+    const a2uiSpec = await run.step('a2ui_spec', 'A2UI spec generated', () =>
+      this.a2uiGenerator.generateA2UISpec(
+        specKit.specification,
+        uiPreferences
+      ));
+    const a2uiCode = await run.step('a2ui_code', 'A2UI implementation generated', () =>
+      this.a2uiGenerator.generateImplementationCode(
+        a2uiSpec,
+        uiPreferences
+      ));
 
     files.push(...await this.saveA2UIFiles(a2uiSpec, a2uiCode, projectPath));
     console.error(`   ✓ Generated ${a2uiSpec.layouts.length} layouts, ${a2uiSpec.layouts.reduce((s: number, l: any) => s + l.components.length, 0)} components`);
 
     // Phase 3: Generate API Tests
     console.error(`\n🧪 Phase 3: Generating API Tests...`);
-    files.push(...await this.generateAPITests(specKit, projectPath));
+    files.push(...await run.step('api_tests', 'API tests generated', () =>
+      this.generateAPITests(specKit, projectPath)));
 
     // Phase 4: Generate BDD Tests
     console.error(`\n🥒 Phase 4: Generating BDD Tests...`);
-    files.push(...await this.generateBDDTests(specKit, projectPath));
+    files.push(...await run.step('bdd_tests', 'BDD tests generated', () =>
+      this.generateBDDTests(specKit, projectPath)));
 
     // Phase 5: Initialize POML
     console.error(`\n💾 Phase 5: Initializing POML & Checkpoint...`);
@@ -241,6 +249,7 @@ export class SmartWorkflowModule {
     const pomlPath = join(projectPath, 'PROJECT.poml');
     await fs.writeFile(pomlPath, this.pomlOrchestrator.exportPOML(pomlState), 'utf-8');
     files.push(pomlPath);
+    await run.advance('POML initialized');
 
     console.error(`\n════════════════════════════════════════════════════════`);
     console.error(`✅ PROJECT COMPLETE!`);
@@ -325,7 +334,7 @@ Based on:
 
 Return ONLY ONE WORD: small, medium, large, or enterprise`;
 
-    const aiScale = await this.aiAdapter.generateText(prompt, 50);
+    const aiScale = await this.aiAdapter.generateText(prompt, 50, { taskClass: 'cheap' });
     const detectedScale = aiScale.toLowerCase().trim();
 
     // Combine score and AI analysis
@@ -581,16 +590,44 @@ Return ONLY ONE WORD: small, medium, large, or enterprise`;
   // Helper methods
   private async generateStandardSpecKit(
     requirements: SmartProjectRequirements,
-    recommendations: SmartRecommendations
+    recommendations: SmartRecommendations,
+    run?: RunControl
   ): Promise<SpecKit> {
     return await this.specKit.generateSpecKit(
       requirements.projectName,
       requirements.projectType,
       requirements.description,
-      undefined
+      undefined,
+      run
     );
   }
 
+  /**
+   * Spec-Kit enriched with NotebookLM, or null to fall back to standard generation
+   */
+  private async enrichWithNotebook(
+    requirements: SmartProjectRequirements
+  ): Promise<{ specKit: SpecKit; coverage: number } | null> {
+    const notebookAvailable = await this.notebookLM.checkNotebookLMAvailability();
+    if (!notebookAvailable || !requirements.notebookName) {
+      return null;
+    }
+
+    try {
+      const enrichment = await this.notebookLM.enrichSpecKitWithNotebook(
+        requirements.projectName,
+        requirements.projectType,
+        requirements.notebookName,
+        requirements.features
+      );
+      console.error(`   ✓ Spec-Kit enriched with NotebookLM (${enrichment.coverageScore.toFixed(1)}% coverage)`);
+      return { specKit: enrichment.enrichedSpecKit, coverage: enrichment.coverageScore };
+    } catch (error) {
+      console.error(`   ⚠️  NotebookLM failed, using standard generation`);
+      return null;
+    }
+  }
+
   private async saveSpecKitFiles(specKit: SpecKit, projectPath: string): Promise<string[]> {
     const files: string[] = [];
 
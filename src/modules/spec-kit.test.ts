@@ -0,0 +1,74 @@
+/**
+ * Spec-Kit generation with off-schema enum and number values (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpecKitModule } from './spec-kit.js';
+import type { AIAdapter, AIResponse } from '../adapters/ai-adapter.interface.js';
+
+const SPECIFICATION = {
+  functionalRequirements: [
+    { id: 'FR001', title: 'Tasks', description: 'Manage tasks', priority: 'Must have', acceptanceCriteria: [] },
+    { id: 'FR002', title: 'Tags', description: 'Tag tasks', priority: 'P1', acceptanceCriteria: [] },
+    { id: 'FR003', title: 'Themes', description: 'Pick a theme', priority: 'whenever', acceptanceCriteria: [] },
+    { id: 'FR004', title: 'Export', description: 'Export tasks', priority: 'LOW', acceptanceCriteria: [] },
+  ],
+  nonFunctionalRequirements: [
+    { category: 'Latency', requirement: 'Fast pages', metric: 'p95', target: '200ms' },
+    { category: 'GDPR', requirement: 'Delete accounts', metric: 'days', target: '30' },
+    { category: 'Other', requirement: 'Nightly backups', metric: 'runs', target: 'daily' },
+  ],
+  dataModel: { entities: [] },
+  apiDesign: { endpoints: [{ method: 'GET', path: '/tasks', description: 'List tasks', response: 'Task[]' }] },
+  userFlows: [],
+};
+
+const TASKS = [
+  { id: 'T001', title: 'Tests', description: '', type: 'Write unit tests', priority: 'high', estimatedHours: '8h', dependencies: [], acceptanceCriteria: [] },
+  { id: 'T002', title: 'Docs', description: '', type: 'Docs', priority: '2', estimatedHours: 'a few', dependencies: [], acceptanceCriteria: [] },
+  { id: 'T003', title: 'Chores', description: '', type: 'chore', priority: 'P0', estimatedHours: 3, dependencies: [], acceptanceCriteria: [] },
+  { id: 'T004', title: 'Later', description: '', type: 'feature', priority: 'whenever', estimatedHours: 1, dependencies: [], acceptanceCriteria: [] },
+];
+
+/**
+ * Adapter answering the specification and task prompts (the other sections use their defaults)
+ */
+function specKitAdapter(): AIAdapter {
+  const generate = async (prompt: string): Promise<AIResponse> => {
+    const data = prompt.startsWith('Generate detailed specification') ? SPECIFICATION
+      : prompt.startsWith('Generate granular development tasks') ? TASKS
+      : undefined;
+    const text = data ? JSON.stringify(data) : '';
+    return { text, usage: { inputTokens: 0, outputTokens: 0 }, provider: 'test', model: 'test-model' };
+  };
+
+  return {
+    generateText: async prompt => (await generate(prompt)).text,
+    generate,
+    async *generateStream(prompt) {
+      const response = await generate(prompt);
+      yield response.text;
+      return response;
+    },
+    generateJSON: async () => { throw new Error('not used'); },
+    getModelName: () => 'test-model',
+    getProviderName: () => 'test',
+  };
+}
+
+describe('SpecKitModule', () => {
+  it('maps enum and number values outside the schema instead of dropping the section', async () => {
+    const specKit = await new SpecKitModule(specKitAdapter()).generateSpecKit('todo-app', 'web', 'A small team todo list');
+
+    assert.deepEqual(specKit.metadata.cannedSections, ['constitution', 'technicalPlan']);
+
+    const { functionalRequirements, nonFunctionalRequirements } = specKit.specification;
+    assert.deepEqual(functionalRequirements.map(r => r.priority), ['critical', 'high', 'medium', 'low']);
+    assert.deepEqual(nonFunctionalRequirements.map(r => r.category), ['performance', 'security', 'reliability']);
+
+    assert.deepEqual(specKit.tasks.map(t => t.type), ['test', 'documentation', 'feature', 'feature']);
+    assert.deepEqual(specKit.tasks.map(t => t.priority), [2, 2, 1, 3]);
+    assert.deepEqual(specKit.tasks.map(t => t.estimatedHours), [8, 4, 3, 1]);
+  });
+});
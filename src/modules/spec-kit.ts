@@ -8,9 +8,12 @@
  * 4. Task Breakdown - Granular tasks with dependencies
  */
 
-import { AIAdapter } from '../adapters/ai-adapter.interface.js';
+import { z } from 'zod';
+import { AIAdapter, JSONResult, JSONSchema } from '../adapters/ai-adapter.interface.js';
+import { MeteredAdapter } from '../adapters/metered-adapter.js';
 import { DecisionMatrix } from './decision-matrix.js';
-import { parseJSONWithDefault } from '../utils/json-parser.js';
+import { formatStackRanking } from './research.js';
+import { RunControl } from '../core/generation-run.js';
 
 export interface Constitution {
   projectName: string;
@@ -127,14 +130,177 @@ export interface SpecKit {
     createdAt: string;
     version: string;
     decisionMatrix?: DecisionMatrix;
+    // Sections that fell back to default content after invalid AI output
+    cannedSections?: SpecKitSection[];
   };
 }
 
+/**
+ * AI-generated parts of a Spec-Kit
+ */
+export type SpecKitSection = 'constitution' | 'specification' | 'technicalPlan' | 'tasks';
+
+const stringList = z.array(z.string());
+
+// Priority words, highest first
+const PRIORITY_WORDS = {
+  critical: /critical|urgent|blocker|must|\bp0\b/,
+  high: /high|important|should|\bp1\b/,
+  medium: /medium|normal|moderate|could|\bp2\b/,
+  low: /low|minor|nice|optional|won'?t|\bp3\b/,
+};
+
+/**
+ * Enum that maps values outside the list instead of rejecting the section
+ *
+ * The JSON schema still lists the allowed values; anything else is matched
+ * against the synonyms ("must have" → critical) or gets the fallback.
+ */
+function lenientEnum<T extends string>(values: [T, ...T[]], synonyms: Record<T, RegExp>, fallback: T) {
+  return z.enum(values).catch(({ input }) => {
+    const text = typeof input === 'string' ? (input as string).trim().toLowerCase() : '';
+    return values.find(value => value === text)
+      ?? values.find(value => synonyms[value].test(text))
+      ?? fallback;
+  });
+}
+
+/**
+ * Number that also accepts numeric text ("8", "8h") and, if given, words mapped to numbers
+ */
+function lenientNumber(fallback: number, words: Array<[RegExp, number]> = []) {
+  return z.number().catch(({ input }) => {
+    const text = typeof input === 'string' ? (input as string).trim().toLowerCase() : '';
+    const number = parseFloat(text);
+    return Number.isFinite(number) ? number : words.find(([pattern]) => pattern.test(text))?.[1] ?? fallback;
+  });
+}
+
+const requirementPriority = lenientEnum(['critical', 'high', 'medium', 'low'], PRIORITY_WORDS, 'medium');
+
+const requirementCategory = lenientEnum(['performance', 'security', 'scalability', 'usability', 'reliability'], {
+  performance: /perf|latency|speed|fast|response|throughput|efficien/,
+  security: /secur|auth|privacy|complian|gdpr|encrypt|audit/,
+  scalability: /scal|capacity|load|concurren|growth/,
+  usability: /usab|\bux\b|accessib|a11y|i18n|locali[sz]|user experience|design/,
+  reliability: /reliab|availab|uptime|resilien|fault|recover|backup|maintainab|durab/,
+}, 'reliability');
+
+const taskType = lenientEnum(['setup', 'feature', 'test', 'documentation', 'deployment'], {
+  setup: /setup|set up|init|config|scaffold|install|bootstrap/,
+  feature: /feature|implement|develop|build|backend|frontend|\bapi\b|\bui\b|integration|refactor/,
+  test: /test|\bqa\b|quality|verif/,
+  documentation: /doc|readme|guide/,
+  deployment: /deploy|release|devops|\bci\b|\bcd\b|infra|hosting|monitor/,
+}, 'feature');
+
+// Task priority 1 (highest) to 4
+const taskPriority = lenientNumber(3, Object.values(PRIORITY_WORDS).map((pattern, index): [RegExp, number] => [pattern, index + 1]));
+
+const constitutionSchema: JSONSchema<Constitution> = z.object({
+  projectName: z.string(),
+  vision: z.string(),
+  principles: stringList,
+  constraints: stringList,
+  qualityStandards: z.object({
+    code: stringList,
+    testing: stringList,
+    documentation: stringList,
+    performance: stringList,
+  }),
+  governanceRules: stringList,
+});
+
+const specificationSchema: JSONSchema<Specification> = z.object({
+  functionalRequirements: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    priority: requirementPriority,
+    acceptanceCriteria: stringList,
+  })),
+  nonFunctionalRequirements: z.array(z.object({
+    category: requirementCategory,
+    requirement: z.string(),
+    metric: z.string(),
+    target: z.string(),
+  })),
+  dataModel: z.object({
+    entities: z.array(z.object({
+      name: z.string(),
+      fields: z.array(z.object({ name: z.string(), type: z.string(), required: z.boolean() })),
+      relationships: z.array(z.object({ entity: z.string(), type: z.string() })),
+    })),
+  }),
+  apiDesign: z.object({
+    endpoints: z.array(z.object({
+      method: z.string(),
+      path: z.string(),
+      description: z.string(),
+      requestBody: z.string().optional(),
+      response: z.string(),
+    })),
+  }).optional(),
+  userFlows: z.array(z.object({ name: z.string(), steps: stringList })),
+});
+
+const technicalPlanSchema: JSONSchema<TechnicalPlan> = z.object({
+  architecture: z.object({
+    pattern: z.string(),
+    layers: stringList,
+    components: z.array(z.object({ name: z.string(), responsibility: z.string(), dependencies: stringList })),
+  }),
+  technologyStack: z.array(z.object({
+    category: z.string(),
+    technology: z.string(),
+    version: z.string().optional(),
+    rationale: z.string(),
+  })),
+  infrastructure: z.object({
+    hosting: z.string(),
+    database: z.string(),
+    caching: z.string().optional(),
+    messaging: z.string().optional(),
+    monitoring: z.string(),
+  }),
+  securityPlan: z.object({
+    authentication: z.string(),
+    authorization: z.string(),
+    dataProtection: stringList,
+    vulnerabilityMitigation: stringList,
+  }),
+  testingStrategy: z.object({
+    unit: z.string(),
+    integration: z.string(),
+    e2e: z.string(),
+    bdd: z.boolean(),
+    coverage: z.number(),
+  }),
+  deploymentPlan: z.object({
+    cicd: z.string(),
+    environments: stringList,
+    rollbackStrategy: z.string(),
+  }),
+});
+
+const tasksSchema: JSONSchema<Task[]> = z.array(z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  type: taskType,
+  priority: taskPriority,
+  estimatedHours: lenientNumber(4),
+  dependencies: stringList,
+  subtasks: stringList.optional(),
+  acceptanceCriteria: stringList,
+  testCriteria: stringList.optional(),
+})).min(1);
+
 export class SpecKitModule {
   private aiAdapter: AIAdapter;
 
   constructor(aiAdapter: AIAdapter) {
-    this.aiAdapter = aiAdapter;
+    this.aiAdapter = new MeteredAdapter(aiAdapter, 'spec-kit', 'spec_kit');
   }
 
   /**
@@ -144,27 +310,36 @@ export class SpecKitModule {
     projectName: string,
     projectType: string,
     description: string,
-    matrix?: DecisionMatrix
+    matrix?: DecisionMatrix,
+    run: RunControl = new RunControl()
   ): Promise<SpecKit> {
     // Generate each component in parallel for speed
     const [constitution, specification, technicalPlan] = await Promise.all([
-      this.generateConstitution(projectName, description, matrix),
-      this.generateSpecification(projectName, projectType, description, matrix),
-      this.generateTechnicalPlan(projectType, description, matrix),
+      run.step('constitution', 'Constitution generated', () =>
+        this.generateConstitution(projectName, description, matrix)),
+      run.step('specification', 'Specification generated', () =>
+        this.generateSpecification(projectName, projectType, description, matrix)),
+      run.step('technical_plan', 'Technical plan generated', () =>
+        this.generateTechnicalPlan(projectType, description, matrix)),
     ]);
 
     // Generate tasks based on specification and technical plan
-    const tasks = await this.generateTasks(specification, technicalPlan);
+    const tasks = await run.step('tasks', 'Tasks generated', () =>
+      this.generateTasks(specification.data, technicalPlan.data));
+
+    const sections: Record<SpecKitSection, JSONResult<unknown>> = { constitution, specification, technicalPlan, tasks };
+    const cannedSections = (Object.keys(sections) as SpecKitSection[]).filter(section => sections[section].fallbackUsed);
 
     return {
-      constitution,
-      specification,
-      technicalPlan,
-      tasks,
+      constitution: constitution.data,
+      specification: specification.data,
+      technicalPlan: technicalPlan.data,
+      tasks: tasks.data,
       metadata: {
         createdAt: new Date().toISOString(),
         version: '1.0.0',
         decisionMatrix: matrix,
+        ...(cannedSections.length > 0 ? { cannedSections } : {}),
       },
     };
   }
@@ -176,7 +351,7 @@ export class SpecKitModule {
     projectName: string,
     description: string,
     matrix?: DecisionMatrix
-  ): Promise<Constitution> {
+  ): Promise<JSONResult<Constitution>> {
     const matrixContext = matrix
       ? `\n\nDecision Matrix Context:\n${JSON.stringify(matrix.recommendations, null, 2)}`
       : '';
@@ -209,8 +384,6 @@ Return ONLY valid JSON with this exact structure:
 
 CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all brackets and commas are correct.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 2500);
-
     const defaultConstitution: Constitution = {
       projectName,
       vision: `Build a high-quality ${projectName} application`,
@@ -234,7 +407,11 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all bracke
       governanceRules: ['Code review required', 'CI/CD pipeline']
     };
 
-    return parseJSONWithDefault<Constitution>(response, defaultConstitution, 'generateConstitution');
+    return await this.aiAdapter.generateJSON(prompt, constitutionSchema, {
+      maxTokens: 2500,
+      fallback: defaultConstitution,
+      label: 'generateConstitution',
+    });
   }
 
   /**
@@ -245,7 +422,7 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all bracke
     projectType: string,
     description: string,
     matrix?: DecisionMatrix
-  ): Promise<Specification> {
+  ): Promise<JSONResult<Specification>> {
     const matrixContext = matrix
       ? `\n\nDecision Matrix Recommendations:\n${matrix.recommendations.join('\n')}`
       : '';
@@ -315,8 +492,6 @@ Return ONLY valid JSON. Example structure:
 
 CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all brackets and commas are correct.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 5000);
-
     const defaultSpec: Specification = {
       functionalRequirements: [{
         id: 'FR001',
@@ -352,15 +527,20 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all bracke
       }]
     };
 
-    const spec = parseJSONWithDefault<Specification>(response, defaultSpec, 'generateSpecification');
+    const result = await this.aiAdapter.generateJSON(prompt, specificationSchema, {
+      maxTokens: 5000,
+      fallback: defaultSpec,
+      label: 'generateSpecification',
+    });
 
     // Ensure apiDesign exists with at least basic endpoints
+    const spec = result.data;
     if (!spec.apiDesign || !spec.apiDesign.endpoints || spec.apiDesign.endpoints.length === 0) {
       console.error('No API endpoints in parsed response, adding default endpoints');
       spec.apiDesign = defaultSpec.apiDesign;
     }
 
-    return spec;
+    return result;
   }
 
   /**
@@ -370,14 +550,21 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation. Ensure all bracke
     projectType: string,
     description: string,
     matrix?: DecisionMatrix
-  ): Promise<TechnicalPlan> {
+  ): Promise<JSONResult<TechnicalPlan>> {
     const matrixContext = matrix
       ? `\n\nTech Recommendations:\n${matrix.recommendations.join('\n')}`
       : '';
+    // Prefer the ranking weighted by the answers over the one made at research time
+    const researchedStacks = matrix?.stackScoring?.source === 'research'
+      ? matrix.stackScoring.stacks
+      : matrix?.stackResearch?.stacks;
+    const researchContext = researchedStacks
+      ? `\n\nResearched Tech Stacks (ranked by weighted score, prefer the top one unless the answers rule it out):\n${formatStackRanking(researchedStacks)}`
+      : '';
 
     const prompt = `Generate technical plan for ${projectType} project.
 
-Description: ${description}${matrixContext}
+Description: ${description}${matrixContext}${researchContext}
 
 Create plan with:
 1. Architecture (pattern, layers, components)
@@ -435,8 +622,6 @@ Return ONLY valid JSON with this structure:
 
 CRITICAL: Return ONLY valid JSON. No markdown, no explanation.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 3500);
-
     const defaultPlan: TechnicalPlan = {
       architecture: {
         pattern: 'MVC',
@@ -477,7 +662,12 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation.`;
       }
     };
 
-    return parseJSONWithDefault<TechnicalPlan>(response, defaultPlan, 'generateTechnicalPlan');
+    return await this.aiAdapter.generateJSON(prompt, technicalPlanSchema, {
+      maxTokens: 3500,
+      fallback: defaultPlan,
+      label: 'generateTechnicalPlan',
+      taskClass: 'deep',
+    });
   }
 
   /**
@@ -486,7 +676,7 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation.`;
   private async generateTasks(
     spec: Specification,
     plan: TechnicalPlan
-  ): Promise<Task[]> {
+  ): Promise<JSONResult<Task[]>> {
     const prompt = `Generate granular development tasks based on:
 
 Functional Requirements: ${spec.functionalRequirements.length} features
@@ -521,8 +711,6 @@ Priority: 1 (highest) to 5 (lowest)
 
 CRITICAL: Return ONLY valid JSON array. No markdown, no explanation.`;
 
-    const response = await this.aiAdapter.generateText(prompt, 5000);
-
     const defaultTasks: Task[] = [
       { id: 'T001', title: 'Project Setup', description: 'Initialize project', type: 'setup', priority: 1, estimatedHours: 4, dependencies: [], acceptanceCriteria: ['Project created'] },
       { id: 'T002', title: 'Database Setup', description: 'Configure database', type: 'setup', priority: 1, estimatedHours: 3, dependencies: ['T001'], acceptanceCriteria: ['DB connected'] },
@@ -533,7 +721,11 @@ CRITICAL: Return ONLY valid JSON array. No markdown, no explanation.`;
       { id: 'T007', title: 'Deployment', description: 'Deploy app', type: 'deployment', priority: 5, estimatedHours: 4, dependencies: ['T005'], acceptanceCriteria: ['App deployed'] }
     ];
 
-    return parseJSONWithDefault<Task[]>(response, defaultTasks, 'generateTasks');
+    return await this.aiAdapter.generateJSON(prompt, tasksSchema, {
+      maxTokens: 5000,
+      fallback: defaultTasks,
+      label: 'generateTasks',
+    });
   }
 
   /**
@@ -543,6 +735,9 @@ CRITICAL: Return ONLY valid JSON array. No markdown, no explanation.`;
     let md = `# Spec-Kit: ${specKit.constitution.projectName}\n\n`;
     md += `**Version:** ${specKit.metadata.version}\n`;
     md += `**Created:** ${specKit.metadata.createdAt}\n\n`;
+    if (specKit.metadata.cannedSections?.length) {
+      md += `**⚠️ Default content (AI output was invalid):** ${specKit.metadata.cannedSections.join(', ')}\n\n`;
+    }
     md += `---\n\n`;
 
     // Constitution
@@ -0,0 +1,132 @@
+/**
+ * StackScorer profiles and scoring (node:test)
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StackScorer, DEFAULT_CANDIDATE_STACKS } from './stack-scoring.js';
+import { DecisionMatrix as ScoringMatrix } from '../core/decision-matrix.js';
+import type { DecisionMatrix, MatrixAnswer } from './decision-matrix.js';
+
+function matrix(answers: MatrixAnswer[] = [], description = 'A todo app'): DecisionMatrix {
+  return {
+    projectType: 'web',
+    description,
+    questions: [
+      { id: 'team', question: 'What is your team experienced with?', type: 'text', category: 'technology' },
+      { id: 'timeline', question: 'What is the launch deadline?', type: 'text', category: 'quality' },
+      { id: 'budget', question: 'What is the hosting budget?', type: 'choice', options: ['Low', 'Medium', 'High'], category: 'deployment' },
+      { id: 'traffic', question: 'Expected load?', type: 'text', category: 'architecture' },
+    ],
+    answers,
+    recommendations: [],
+  };
+}
+
+const sum = (weights: object) => Object.values(weights).reduce((total: number, weight: number) => total + weight, 0);
+
+describe('StackScorer.deriveProfile', () => {
+  const scorer = new StackScorer();
+
+  it('keeps the default weights and context without signals', () => {
+    const profile = scorer.deriveProfile(matrix());
+
+    assert.deepEqual(profile.weights, new ScoringMatrix().getWeights());
+    assert.deepEqual(profile.reasons, []);
+    assert.equal(profile.context.timelineMonths, 6);
+    assert.equal(profile.context.budgetLevel, 'medium');
+    assert.deepEqual(profile.context.teamExperience, []);
+  });
+
+  it('shifts weights and context by what the answers stress', () => {
+    const defaults = new ScoringMatrix().getWeights();
+    const profile = scorer.deriveProfile(matrix([
+      { questionId: 'team', answer: 'React, Node.js and Go' },
+      { questionId: 'timeline', answer: '6 weeks' },
+      { questionId: 'budget', answer: 'Low' },
+      { questionId: 'traffic', answer: 'Millions of users at peak load' },
+    ]));
+
+    assert.deepEqual(profile.context.teamExperience, ['React', 'Node.js', 'Go']);
+    assert.equal(profile.context.timelineMonths, 1.5);
+    assert.equal(profile.context.budgetLevel, 'low');
+    assert.deepEqual(profile.context.constraints, ['What is the hosting budget? Low']);
+    assert.ok(profile.weights.team_fit > defaults.team_fit);
+    assert.ok(profile.weights.timeline_fit > defaults.timeline_fit);
+    assert.ok(profile.weights.cost > defaults.cost);
+    assert.ok(profile.weights.scalability > defaults.scalability);
+    assert.ok(Math.abs(sum(profile.weights) - 1) < 0.01);
+    assert.equal(profile.reasons.length, 4);
+  });
+
+  it('falls back to the description and requirements', () => {
+    const profile = scorer.deriveProfile(
+      matrix([{ questionId: 'team', answer: 'none' }], 'Internal tool on a shoestring budget, due in 2 years'),
+      ['Integrate with Stripe payments']
+    );
+
+    assert.deepEqual(profile.context.teamExperience, []);
+    assert.equal(profile.context.timelineMonths, 24);
+    assert.equal(profile.context.budgetLevel, 'low');
+    assert.ok(profile.reasons.some(reason => /Ecosystem/.test(reason)));
+    assert.ok(profile.reasons.some(reason => /Long timeline/.test(reason)));
+  });
+});
+
+describe('StackScorer.score', () => {
+  const scorer = new StackScorer();
+
+  it('scores the default candidates until stacks are researched, best first', () => {
+    const scoring = scorer.score(matrix());
+
+    assert.equal(scoring.source, 'defaults');
+    assert.deepEqual([...scoring.stacks.map(s => s.name)].sort(), DEFAULT_CANDIDATE_STACKS.web.map(s => s.name).sort());
+    assert.deepEqual(scoring.stacks.map(s => s.score), [...scoring.stacks.map(s => s.score)].sort((a, b) => b - a));
+    assert.ok(scoring.knowledgeVersion);
+  });
+
+  it('scores researched stacks instead, favouring the team\'s technologies', () => {
+    const [first, second] = DEFAULT_CANDIDATE_STACKS.api;
+    const researched = matrix([{ questionId: 'team', answer: 'Go' }]);
+    const unscored = { scalability: 0, maintainability: 0, learning_curve: 0, ecosystem: 0, cost: 0, team_fit: 0, timeline_fit: 0 };
+    researched.stackResearch = {
+      stacks: [first, second].map(stack => ({ ...stack, score: 0, breakdown: unscored })),
+      rationale: 'Researched',
+      researchedAt: new Date(0).toISOString(),
+    };
+
+    const scoring = scorer.score(researched);
+
+    assert.equal(scoring.source, 'research');
+    assert.deepEqual(scoring.stacks.map(s => s.name), [second.name, first.name]);
+    assert.ok(scoring.stacks[0].breakdown.team_fit > scoring.stacks[1].breakdown.team_fit);
+  });
+});
+
+describe('StackScorer.whatIf', () => {
+  const scorer = new StackScorer();
+  const scoring = scorer.score(matrix([{ questionId: 'budget', answer: 'Low' }]));
+
+  it('uses the given weights exactly and scales the others to fill the rest', () => {
+    const result = scorer.whatIf(scoring, { cost: 0.4 });
+    const { cost, ...others } = result.after.weights;
+    const { cost: _, ...before } = scoring.weights;
+
+    assert.ok(Math.abs(cost - 0.4) < 1e-9);
+    assert.ok(Math.abs(sum(others) - 0.6) < 1e-9);
+    // The other criteria keep their proportions
+    assert.ok(Math.abs(others.scalability / others.team_fit - before.scalability / before.team_fit) < 1e-9);
+    assert.deepEqual(result.before.stacks, scoring.stacks);
+    assert.deepEqual([...result.after.stacks.map(s => s.name)].sort(), [...scoring.stacks.map(s => s.name)].sort());
+    assert.equal(result.sensitivity.topStack, result.after.stacks[0].name);
+  });
+
+  it('normalizes the weights when all seven are given', () => {
+    const result = scorer.whatIf(scoring, {
+      scalability: 1, maintainability: 1, learning_curve: 1, ecosystem: 1, cost: 1, team_fit: 1, timeline_fit: 1,
+    }, 0.1);
+
+    assert.ok(Object.values(result.after.weights).every(weight => Math.abs(weight - 0.143) < 0.001));
+    assert.equal(result.sensitivity.threshold, 0.1);
+  });
+});
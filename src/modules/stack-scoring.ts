@@ -0,0 +1,486 @@
+/**
+ * Stack Scoring - Decision matrix answers → weighted stack scores
+ *
+ * Bridges the Q&A decision matrix (modules/decision-matrix.ts) and the
+ * weighted scorer (core/decision-matrix.ts):
+ * - CriteriaWeights are shifted by what the answers stress (scale, a tight
+ *   timeline, a low budget, team experience, long-term quality, integrations)
+ * - ScoringContext takes the team experience, timeline and budget from the answers,
+ *   falling back to the project description and requirements
+ * - The researched stacks (research_tech_stacks) are scored with them, or a
+ *   small set of common stacks for the project type if there is no research yet
+ */
+
+import {
+  DecisionMatrix as ScoringMatrix,
+  CRITERIA_LABELS,
+  type CriteriaWeights,
+  type ScoringContext,
+  type ScoredStack,
+  type SensitivityReport,
+  type StackOption,
+} from '../core/decision-matrix.js';
+import { StackKnowledgeBase } from '../core/stack-knowledge.js';
+import type { DecisionMatrix, MatrixQuestion } from './decision-matrix.js';
+
+/**
+ * Weights and context derived from a decision matrix
+ */
+export interface ScoringProfile {
+  // Normalized to sum to 1
+  weights: CriteriaWeights;
+  context: ScoringContext;
+  // Why the weights or context differ from the defaults
+  reasons: string[];
+}
+
+/**
+ * Scored stacks kept with a project's decision matrix
+ */
+export interface StackScoring extends ScoringProfile {
+  // 'research' = stacks from research_tech_stacks, 'defaults' = common stacks for the project type
+  source: 'research' | 'defaults';
+  // Best first
+  stacks: ScoredStack[];
+  scoredAt: string;
+  // Knowledge base used for the scores (missing in older scorings)
+  knowledgeVersion?: string;
+}
+
+/**
+ * Stored stacks re-scored under other weights
+ */
+export interface WhatIfResult {
+  before: { weights: CriteriaWeights; stacks: ScoredStack[] };
+  after: { weights: CriteriaWeights; stacks: ScoredStack[] };
+  // Sensitivity of the ranking under the new weights
+  sensitivity: SensitivityReport;
+}
+
+/**
+ * Common stacks per project type, scored until research_tech_stacks has run
+ */
+export const DEFAULT_CANDIDATE_STACKS: Record<string, StackOption[]> = {
+  web: [
+    {
+      name: 'React + TypeScript + Node.js + PostgreSQL',
+      pros: ['Large ecosystem with many libraries', 'Type-safe frontend and backend', 'Popular, easy to hire for', 'Scales horizontally behind a load balancer'],
+      cons: ['Many moving parts to configure', 'Frontend build tooling adds complexity'],
+      architecture: 'Monolithic API with a single-page frontend',
+      timeline: 'Medium - 4-6 months',
+      budget: 'Low - Free open source, ~$50/month hosting',
+    },
+    {
+      name: 'Next.js + TypeScript + Prisma + PostgreSQL',
+      pros: ['Full-stack in one framework, fast development', 'Type-safe data access', 'Serverless deployment on edge platforms', 'Popular with a rich ecosystem'],
+      cons: ['Framework conventions change between major versions', 'Vendor-specific hosting features'],
+      architecture: 'Serverless full-stack framework',
+      timeline: 'Fast - 3-4 months',
+      budget: 'Medium - ~$100/month managed hosting',
+    },
+    {
+      name: 'Django + PostgreSQL + HTMX',
+      pros: ['Batteries included, productive', 'Clean, structured MVC layout', 'Mature community and admin interface'],
+      cons: ['Less suited to highly interactive UIs', 'Python performance limits under heavy load'],
+      architecture: 'Monolithic MVC',
+      timeline: 'Fast - 2-4 months',
+      budget: 'Low - Free open source',
+    },
+  ],
+  api: [
+    {
+      name: 'Node.js + TypeScript + Fastify + PostgreSQL',
+      pros: ['Large ecosystem with many libraries', 'Type-safe, structured handlers', 'Scalable, fast I/O'],
+      cons: ['Single-threaded CPU-bound work needs workers'],
+      architecture: 'Modular monolith REST API',
+      timeline: 'Fast - 2-3 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Go + gRPC + PostgreSQL',
+      pros: ['Highly scalable and distributed-ready', 'Simple language, minimal runtime', 'Cloud-native tooling'],
+      cons: ['More boilerplate for error handling', 'Smaller web framework ecosystem'],
+      architecture: 'Microservices with gRPC',
+      timeline: 'Medium - 4-5 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Spring Boot + Java + PostgreSQL',
+      pros: ['Enterprise-grade, widely adopted', 'Structured, tested patterns', 'Rich ecosystem of integrations'],
+      cons: ['Verbose configuration', 'Steep learning curve for the full framework', 'Slow startup'],
+      architecture: 'Layered MVC service',
+      timeline: 'Medium - 5-6 months',
+      budget: 'Medium - Higher memory footprint to host',
+    },
+  ],
+  cli: [
+    {
+      name: 'Node.js + TypeScript + Commander',
+      pros: ['Large ecosystem on npm', 'Type-safe', 'Quick to build and distribute'],
+      cons: ['Requires a Node.js runtime on user machines'],
+      architecture: 'Single-binary command dispatcher',
+      timeline: 'Fast - 1-2 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Go + Cobra',
+      pros: ['Static single binaries', 'Simple, minimal dependencies', 'Fast startup'],
+      cons: ['More boilerplate than scripting languages'],
+      architecture: 'Single-binary command dispatcher',
+      timeline: 'Medium - 2-3 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Rust + Clap',
+      pros: ['Type-safe and memory-safe', 'Small fast binaries'],
+      cons: ['Steep learning curve', 'Slow compile times'],
+      architecture: 'Single-binary command dispatcher',
+      timeline: 'Slow - 3-4 months',
+      budget: 'Low - Free open source',
+    },
+  ],
+  desktop: [
+    {
+      name: 'Electron + React + TypeScript',
+      pros: ['Large ecosystem of web libraries', 'One codebase for all platforms', 'Familiar to web developers'],
+      cons: ['Large bundle size', 'High memory use'],
+      architecture: 'Main process with a web renderer',
+      timeline: 'Fast - 2-4 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Tauri + Svelte + Rust',
+      pros: ['Small, fast binaries', 'Type-safe Rust backend'],
+      cons: ['Steep learning curve for Rust', 'Immature plugin ecosystem'],
+      architecture: 'Native core with a web renderer',
+      timeline: 'Medium - 4-5 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: '.NET MAUI + C#',
+      pros: ['Enterprise tooling', 'Structured, type-safe'],
+      cons: ['Platform-specific complexity on Linux', 'Verbose XAML'],
+      architecture: 'MVVM',
+      timeline: 'Medium - 4-6 months',
+      budget: 'Medium - IDE licences for larger teams',
+    },
+  ],
+  mobile: [
+    {
+      name: 'React Native + TypeScript + Expo',
+      pros: ['One codebase for iOS and Android', 'Large ecosystem', 'Fast development with hot reload'],
+      cons: ['Native modules need platform knowledge'],
+      architecture: 'Cross-platform with a native bridge',
+      timeline: 'Fast - 3-4 months',
+      budget: 'Low - Free open source, store fees only',
+    },
+    {
+      name: 'Flutter + Dart + Firebase',
+      pros: ['Consistent UI on all platforms', 'Productive tooling', 'Serverless backend'],
+      cons: ['Dart is niche outside Flutter', 'Backend costs grow with usage'],
+      architecture: 'Cross-platform with serverless BaaS',
+      timeline: 'Fast - 3-4 months',
+      budget: 'Medium - Pay-as-you-go backend',
+    },
+    {
+      name: 'Native Swift + Kotlin',
+      pros: ['Best performance and platform integration', 'Type-safe'],
+      cons: ['Two codebases to maintain', 'Requires experts for each platform'],
+      architecture: 'Native apps per platform',
+      timeline: 'Slow - 6-8 months',
+      budget: 'High - Two platform teams',
+    },
+  ],
+  library: [
+    {
+      name: 'TypeScript + tsup + Vitest',
+      pros: ['Type-safe public API', 'Popular on npm', 'Quick to publish'],
+      cons: ['Dual ESM/CJS packaging can be complex'],
+      architecture: 'Modular package with typed exports',
+      timeline: 'Fast - 1-2 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Python + Poetry + pytest',
+      pros: ['Simple and easy to learn', 'Large community on PyPI', 'Tested with mature tooling'],
+      cons: ['Slower runtime performance'],
+      architecture: 'Modular package',
+      timeline: 'Fast - 1-2 months',
+      budget: 'Low - Free open source',
+    },
+    {
+      name: 'Rust crate + cargo',
+      pros: ['Type-safe and fast', 'Bindings for other languages'],
+      cons: ['Steep learning curve', 'Slow compile times'],
+      architecture: 'Modular crate',
+      timeline: 'Medium - 2-4 months',
+      budget: 'Low - Free open source',
+    },
+  ],
+};
+
+const DEFAULT_TIMELINE_MONTHS = 6;
+
+// Questions whose answers are read as team experience, timeline or budget
+const TEAM_QUESTION = /\b(team|experience|familiar|skills?|expertise|proficien)/i;
+const TIMELINE_QUESTION = /\b(timeline|deadline|launch|deliver|time[- ]to[- ]market|release)\b/i;
+const BUDGET_QUESTION = /\b(budget|cost|spend|pricing|afford)/i;
+
+// Signals in answers, the description and the requirements
+const SCALE_SIGNAL = /scal|high traffic|millions?\b|thousands of (users|requests)|concurren|high availability|peak load/i;
+const QUALITY_SIGNAL = /\btdd\b|test coverage|\be2e\b|long[- ]term|maintainab|compliance|audit/i;
+const ECOSYSTEM_SIGNAL = /integrat|plugins?\b|third[- ]party|\bsdks?\b|payments?\b|oauth/i;
+const RUSH_SIGNAL = /\b(asap|urgent|tight deadline|mvp)\b/i;
+
+/**
+ * Stack Scorer Class
+ *
+ * Derives a scoring profile from a decision matrix and scores candidate stacks with it.
+ */
+export class StackScorer {
+  private knowledge: StackKnowledgeBase;
+
+  constructor(knowledge: StackKnowledgeBase = new StackKnowledgeBase()) {
+    this.knowledge = knowledge;
+  }
+
+  /**
+   * Weights and context from the answers, the description and the requirements
+   */
+  deriveProfile(matrix: DecisionMatrix, requirements: string[] = []): ScoringProfile {
+    const answered = matrix.questions
+      .map(question => ({ question, answer: answerText(matrix, question) }))
+      .filter((qa): qa is { question: MatrixQuestion; answer: string } => qa.answer !== undefined);
+    const background = [matrix.description ?? '', ...requirements].join('\n');
+    const signals = [background, ...answered.map(qa => qa.answer)].join('\n');
+
+    const weights = new ScoringMatrix().getWeights();
+    const reasons: string[] = [];
+    const adjust = (criterion: keyof CriteriaWeights, delta: number) => {
+      weights[criterion] = Math.max(0.02, weights[criterion] + delta);
+    };
+
+    // Team experience
+    const teamExperience = answered
+      .filter(qa => TEAM_QUESTION.test(qa.question.question))
+      .flatMap(qa => splitList(answerValues(matrix, qa.question)))
+      .filter(value => !/^(none|no|nothing|n\/a)$/i.test(value));
+    if (teamExperience.length > 0) {
+      adjust('team_fit', 0.1);
+      reasons.push(`Team experience (${teamExperience.join(', ')}) raises Team Fit`);
+    }
+
+    // Timeline
+    const timelineAnswers = answered.filter(qa => TIMELINE_QUESTION.test(qa.question.question)).map(qa => qa.answer);
+    const timelineMonths = [...timelineAnswers, background]
+      .map(parseMonths)
+      .find((months): months is number => months !== undefined)
+      ?? (RUSH_SIGNAL.test(signals) ? 2 : undefined);
+    if (timelineMonths !== undefined && timelineMonths < 3) {
+      adjust('timeline_fit', 0.1);
+      adjust('learning_curve', 0.05);
+      reasons.push(`Tight timeline (~${timelineMonths} month(s)) raises Timeline Fit and Learning Curve`);
+    } else if (timelineMonths !== undefined && timelineMonths >= 12) {
+      adjust('maintainability', 0.05);
+      reasons.push(`Long timeline (~${timelineMonths} months) raises Maintainability`);
+    }
+
+    // Budget
+    const budgetAnswers = answered.filter(qa => BUDGET_QUESTION.test(qa.question.question)).map(qa => qa.answer);
+    const budgetLevel = budgetAnswers.map(parseBudget).find(level => level !== undefined)
+      ?? parseBudget(background.match(/\b\w+\s+budget\b/i)?.[0] ?? '');
+    if (budgetLevel === 'low') {
+      adjust('cost', 0.1);
+      reasons.push('Low budget raises Cost');
+    } else if (budgetLevel === 'high') {
+      adjust('cost', -0.05);
+      reasons.push('High budget lowers Cost');
+    }
+
+    if (SCALE_SIGNAL.test(signals)) {
+      adjust('scalability', 0.1);
+      reasons.push('Scale or traffic requirements raise Scalability');
+    }
+    if (QUALITY_SIGNAL.test(signals)) {
+      adjust('maintainability', 0.05);
+      reasons.push('Long-term quality requirements raise Maintainability');
+    }
+    if (ECOSYSTEM_SIGNAL.test(signals)) {
+      adjust('ecosystem', 0.05);
+      reasons.push('Third-party integrations raise Ecosystem');
+    }
+
+    return {
+      weights: normalizeWeights(weights),
+      context: {
+        // Answers count as requirements, so e.g. "high traffic" penalizes stacks that don't scale
+        requirements: [...requirements, ...answered.map(qa => `${qa.question.question} ${qa.answer}`)],
+        constraints: answered.filter(qa => qa.question.category === 'deployment').map(qa => `${qa.question.question} ${qa.answer}`),
+        teamExperience,
+        projectType: matrix.projectType,
+        timelineMonths: timelineMonths ?? DEFAULT_TIMELINE_MONTHS,
+        budgetLevel: budgetLevel ?? 'medium',
+      },
+      reasons,
+    };
+  }
+
+  /**
+   * Score the researched stacks (or the default candidates) with the matrix's profile
+   */
+  score(matrix: DecisionMatrix, requirements: string[] = []): StackScoring {
+    const profile = this.deriveProfile(matrix, requirements);
+    const researched = matrix.stackResearch?.stacks ?? [];
+    const candidates: StackOption[] = researched.length > 0
+      ? researched.map(toOption)
+      : defaultCandidates(matrix.projectType);
+
+    return {
+      ...profile,
+      source: researched.length > 0 ? 'research' : 'defaults',
+      stacks: new ScoringMatrix(profile.weights, this.knowledge).scoreWithContext(candidates, profile.context),
+      scoredAt: new Date().toISOString(),
+      knowledgeVersion: this.knowledge.getVersion(),
+    };
+  }
+
+  /**
+   * Re-score the stored stacks with some weights changed
+   *
+   * The given weights are used as they are (cost 0.4 → 40%); the other
+   * criteria share the rest in their current proportions. Only when all seven
+   * are given are they normalized to sum to 1. The context (team experience,
+   * timeline, budget) stays as derived from the answers.
+   */
+  whatIf(scoring: StackScoring, weights: Partial<CriteriaWeights>, threshold?: number): WhatIfResult {
+    const matrix = new ScoringMatrix(applyWeights(scoring.weights, weights), this.knowledge);
+    const stacks = matrix.scoreWithContext(scoring.stacks.map(toOption), scoring.context);
+
+    return {
+      before: { weights: scoring.weights, stacks: scoring.stacks },
+      after: { weights: matrix.getWeights(), stacks },
+      sensitivity: matrix.analyzeSensitivity(stacks, threshold),
+    };
+  }
+
+  /**
+   * Weights, the reasons behind them and the comparison table
+   */
+  format(scoring: StackScoring): string {
+    const weights = (Object.keys(CRITERIA_LABELS) as Array<keyof CriteriaWeights>)
+      .map(criterion => `${CRITERIA_LABELS[criterion]} ${Math.round(scoring.weights[criterion] * 100)}%`)
+      .join(' · ');
+    const context = `team experience: ${scoring.context.teamExperience.join(', ') || 'not given'} · timeline: ${scoring.context.timelineMonths} months · budget: ${scoring.context.budgetLevel}`;
+    const reasons = scoring.reasons.length > 0
+      ? scoring.reasons.map(reason => `  • ${reason}`).join('\n')
+      : '  • Default weights (no answer shifted them)';
+    const source = scoring.source === 'research'
+      ? 'Researched stacks'
+      : `Common ${scoring.context.projectType} stacks (call "research_tech_stacks" for project-specific candidates)`;
+
+    const heuristic = scoring.stacks.filter(stack => !stack.knownTechnologies?.length).map(stack => stack.name);
+    const partial = scoring.stacks
+      .filter(stack => stack.knownTechnologies?.length && stack.unknownTechnologies?.length)
+      .map(stack => `${stack.name} (not curated: ${stack.unknownTechnologies!.join(', ')})`);
+    const knowledge = scoring.knowledgeVersion
+      ? `  Knowledge base ${scoring.knowledgeVersion}: ${scoring.stacks.length - heuristic.length}/${scoring.stacks.length} stack(s) scored from curated data${heuristic.length > 0 ? `, keyword heuristics for ${heuristic.join(', ')}` : ''}\n`
+        + (partial.length > 0 ? `  Partly known, scored from the curated parts only: ${partial.join('; ')}\n` : '')
+      : '';
+
+    return `${source}, scored with:
+  Weights: ${weights}
+  Context: ${context}
+${knowledge}${reasons}
+${new ScoringMatrix(scoring.weights).generateComparisonTable(scoring.stacks)}`;
+  }
+}
+
+/**
+ * Default candidates for a project type (web for unknown types)
+ */
+export function defaultCandidates(projectType: string): StackOption[] {
+  return DEFAULT_CANDIDATE_STACKS[projectType.toLowerCase()] ?? DEFAULT_CANDIDATE_STACKS.web;
+}
+
+/**
+ * Stack without its scores
+ */
+function toOption({ name, pros, cons, architecture, timeline, budget }: StackOption): StackOption {
+  return { name, pros, cons, architecture, timeline, budget };
+}
+
+function answerValues(matrix: DecisionMatrix, question: MatrixQuestion): string[] {
+  const answer = matrix.answers.find(a => a.questionId === question.id)?.answer;
+  if (answer === undefined) {
+    return [];
+  }
+  return (Array.isArray(answer) ? answer : [answer]).map(value => value.trim()).filter(value => value !== '');
+}
+
+function answerText(matrix: DecisionMatrix, question: MatrixQuestion): string | undefined {
+  const values = answerValues(matrix, question);
+  return values.length > 0 ? values.join(', ') : undefined;
+}
+
+/**
+ * "React, Node.js and Go" → ["React", "Node.js", "Go"]
+ */
+function splitList(values: string[]): string[] {
+  return values
+    .flatMap(value => value.split(/,|;|\/|\band\b|&/i))
+    .map(value => value.trim())
+    .filter(value => value.length > 1);
+}
+
+/**
+ * First duration in a text, in months ("6 weeks" → 1.5, "1-2 years" → 12)
+ */
+function parseMonths(text: string): number | undefined {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(?:(?:-|–|to)\s*\d+(?:\.\d+)?\s*)?(day|week|month|year)s?\b/i);
+  if (!match) {
+    return undefined;
+  }
+
+  const perMonth: Record<string, number> = { day: 1 / 30, week: 1 / 4, month: 1, year: 12 };
+  return Math.round(parseFloat(match[1]) * perMonth[match[2].toLowerCase()] * 10) / 10;
+}
+
+function parseBudget(text: string): ScoringContext['budgetLevel'] | undefined {
+  if (/\b(low|limited|minimal|tight|small|shoestring|bootstrap\w*|free|cheap|no budget)\b/i.test(text)) {
+    return 'low';
+  }
+  if (/\b(high|large|generous|enterprise|unlimited|big)\b/i.test(text)) {
+    return 'high';
+  }
+  if (/\b(medium|moderate|average|mid)\b/i.test(text)) {
+    return 'medium';
+  }
+  return undefined;
+}
+
+function normalizeWeights(weights: CriteriaWeights): CriteriaWeights {
+  const sum = Object.values(weights).reduce((total, weight) => total + weight, 0);
+  return Object.fromEntries(
+    Object.entries(weights).map(([criterion, weight]) => [criterion, Math.round((weight / sum) * 1000) / 1000])
+  ) as unknown as CriteriaWeights;
+}
+
+/**
+ * Current weights with some set exactly and the others scaled to fill the rest
+ */
+function applyWeights(current: CriteriaWeights, changes: Partial<CriteriaWeights>): CriteriaWeights {
+  const criteria = Object.keys(current) as Array<keyof CriteriaWeights>;
+  const changed = criteria.filter(criterion => changes[criterion] !== undefined);
+  const others = criteria.filter(criterion => changes[criterion] === undefined);
+  if (others.length === 0) {
+    return normalizeWeights({ ...current, ...changes });
+  }
+
+  const rest = Math.max(0, 1 - changed.reduce((total, criterion) => total + (changes[criterion] ?? 0), 0));
+  const othersSum = others.reduce((total, criterion) => total + current[criterion], 0);
+  const weights = { ...current, ...changes };
+  for (const criterion of others) {
+    weights[criterion] = othersSum > 0 ? (current[criterion] / othersSum) * rest : rest / others.length;
+  }
+  return weights;
+}
@@ -81,7 +81,7 @@ export const CHECKPOINT_REVIEW_POML = `<poml>
     - **Issues Resolved:** {{issuesResolved}}
 
     ## 📈 NEXT CHECKPOINT
-    **Task:** #{{nextCheckpointNumber}} ({{tasksUntilNext}} tasks away)
+    **Task:** #{{nextCheckpointTask}} ({{tasksUntilNext}} tasks away)
 
     ## 🏆 ACHIEVEMENTS
     {{achievements}}
@@ -131,7 +131,7 @@ export interface CheckpointReviewPOMLContext {
   averageQualityScore: number;
   issuesFound: number;
   issuesResolved: number;
-  nextCheckpointNumber: number;
+  nextCheckpointTask: number;
   tasksUntilNext: number;
   achievements: string;
   conclusion: string;
@@ -139,9 +139,13 @@ export interface CheckpointReviewPOMLContext {
 
 /**
  * Render the checkpoint review POML template
+ *
+ * @param pending - Text for every field missing from the context, for reviews
+ *   still to be done (instead of the defaults of a passed review)
  */
 export function renderCheckpointReviewPOML(
-  context: Partial<CheckpointReviewPOMLContext>
+  context: Partial<CheckpointReviewPOMLContext>,
+  pending?: string
 ): string {
   let rendered = CHECKPOINT_REVIEW_POML;
 
@@ -149,12 +153,14 @@ export function renderCheckpointReviewPOML(
   const defaults: Partial<CheckpointReviewPOMLContext> = {
     currentDate: new Date().toISOString(),
     language: 'English',
-    documentationStatus: 'Complete',
-    overallGrade: 'A',
-    actionItems: 'No action items. All checks passed!',
-    recommendations: 'No recommendations at this time.',
-    achievements: 'All quality gates passed!',
-    conclusion: 'All systems green.',
+    ...(pending === undefined ? {
+      documentationStatus: 'Complete',
+      overallGrade: 'A',
+      actionItems: 'No action items. All checks passed!',
+      recommendations: 'No recommendations at this time.',
+      achievements: 'All quality gates passed!',
+      conclusion: 'All systems green.',
+    } : {}),
   };
 
   const mergedContext = { ...defaults, ...context };
@@ -162,9 +168,13 @@ export function renderCheckpointReviewPOML(
   // Replace all placeholders
   Object.entries(mergedContext).forEach(([key, value]) => {
     const placeholder = `{{${key}}}`;
-    rendered = rendered.replace(new RegExp(placeholder, 'g'), String(value ?? ''));
+    rendered = rendered.replace(new RegExp(placeholder, 'g'), String(value ?? pending ?? ''));
   });
 
+  if (pending !== undefined) {
+    rendered = rendered.replace(/\{\{\w+\}\}/g, pending);
+  }
+
   return rendered;
 }
 
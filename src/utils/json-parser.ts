@@ -4,13 +4,18 @@
  * Handles common JSON parsing errors from AI-generated content
  */
 
+import { reportWarning } from '../core/errors.js';
+import { reportParseStrategy, ParseStrategy } from '../core/ai-audit-log.js';
+
 /**
  * Attempt to parse JSON with multiple fallback strategies
+ *
+ * The strategy that worked is noted on the AI audit log entry of the response.
  */
 export function safeParseJSON<T>(jsonString: string, defaultValue: T): T {
   // Strategy 1: Try direct parse
   try {
-    return JSON.parse(jsonString);
+    return parsedWith(jsonString, 'direct', JSON.parse(jsonString));
   } catch (e) {
     // Continue to next strategy
   }
@@ -18,7 +23,7 @@ export function safeParseJSON<T>(jsonString: string, defaultValue: T): T {
   // Strategy 2: Fix common JSON errors
   const fixedJson = fixCommonJSONErrors(jsonString);
   try {
-    return JSON.parse(fixedJson);
+    return parsedWith(jsonString, 'fixed', JSON.parse(fixedJson));
   } catch (e) {
     // Continue to next strategy
   }
@@ -27,11 +32,11 @@ export function safeParseJSON<T>(jsonString: string, defaultValue: T): T {
   const extracted = extractJSONFromMarkdown(jsonString);
   if (extracted) {
     try {
-      return JSON.parse(extracted);
+      return parsedWith(jsonString, 'markdown', JSON.parse(extracted));
     } catch (e) {
       const fixedExtracted = fixCommonJSONErrors(extracted);
       try {
-        return JSON.parse(fixedExtracted);
+        return parsedWith(jsonString, 'markdown', JSON.parse(fixedExtracted));
       } catch (e2) {
         // Continue to next strategy
       }
@@ -41,14 +46,22 @@ export function safeParseJSON<T>(jsonString: string, defaultValue: T): T {
   // Strategy 4: Try to fix more aggressive issues
   const aggressiveFixed = aggressiveJSONFix(jsonString);
   try {
-    return JSON.parse(aggressiveFixed);
+    return parsedWith(jsonString, 'aggressive', JSON.parse(aggressiveFixed));
   } catch (e) {
     // Give up and return default
     console.error('All JSON parsing strategies failed, using default value');
-    return defaultValue;
+    return parsedWith(jsonString, 'failed', defaultValue);
   }
 }
 
+/**
+ * Note the strategy on the audit log entry of the response being parsed
+ */
+function parsedWith<T>(jsonString: string, strategy: ParseStrategy, value: T): T {
+  reportParseStrategy(jsonString, strategy);
+  return value;
+}
+
 /**
  * Extract JSON object from AI response
  */
@@ -64,6 +77,88 @@ export function extractJSON(response: string): string | null {
   return null;
 }
 
+/**
+ * Parse the complete part of a JSON document that is still being streamed
+ *
+ * The text is cut back to the last complete value (unfinished strings,
+ * numbers and keys are dropped) and the open objects/arrays are closed.
+ * Returns undefined until the first `{` or `[` has arrived.
+ */
+export function parsePartialJSON<T>(text: string): T | undefined {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return undefined;
+  }
+
+  // Open containers; in objects, whether the next string is a value (after ':')
+  const stack: Array<{ closer: '}' | ']'; expectingValue: boolean }> = [];
+  let inString = false;
+  let escaped = false;
+  let scalarStart = -1;
+  let cutAt = -1;
+  let closers = '';
+
+  const markComplete = (end: number) => {
+    cutAt = end;
+    closers = stack.map(frame => frame.closer).reverse().join('');
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        // Keys are only complete together with their value
+        if (top.closer === ']' || top.expectingValue) {
+          markComplete(i + 1);
+        }
+      }
+      continue;
+    }
+
+    // A number or literal is complete once something else follows it
+    if (scalarStart !== -1 && !/[\w.+-]/.test(char)) {
+      scalarStart = -1;
+      markComplete(i);
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push({ closer: char === '{' ? '}' : ']', expectingValue: false });
+      markComplete(i + 1);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) {
+        return parseOrUndefined<T>(text.substring(start, i + 1));
+      }
+      markComplete(i + 1);
+    } else if (char === ':' && top) {
+      top.expectingValue = true;
+    } else if (char === ',' && top?.closer === '}') {
+      top.expectingValue = false;
+    } else if (scalarStart === -1 && /[\w.+-]/.test(char)) {
+      scalarStart = i;
+    }
+  }
+
+  return parseOrUndefined<T>(text.substring(start, cutAt) + closers);
+}
+
+function parseOrUndefined<T>(json: string): T | undefined {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    return undefined;
+  }
+}
+
 /**
  * Extract JSON from markdown code blocks
  */
@@ -160,6 +255,9 @@ function aggressiveJSONFix(json: string): string {
 
 /**
  * Parse JSON with type assertion and default fallback
+ *
+ * Falling back to the default is reported as a PARSE_FALLBACK_USED warning
+ * on the current tool call.
  */
 export function parseJSONWithDefault<T>(
   response: string,
@@ -172,13 +270,17 @@ export function parseJSONWithDefault<T>(
     if (logContext) {
       console.error(`[${logContext}] No JSON found in response, using default`);
     }
+    reportWarning('PARSE_FALLBACK_USED', 'No JSON found in AI response, default content used', logContext);
     return defaultValue;
   }
 
   const result = safeParseJSON<T>(jsonStr, defaultValue);
 
-  if (result === defaultValue && logContext) {
-    console.error(`[${logContext}] JSON parsing failed, using default`);
+  if (result === defaultValue) {
+    if (logContext) {
+      console.error(`[${logContext}] JSON parsing failed, using default`);
+    }
+    reportWarning('PARSE_FALLBACK_USED', 'AI response was not valid JSON, default content used', logContext);
   }
 
   return result;